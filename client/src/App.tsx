@@ -11,8 +11,17 @@ import LandingPage from "@/pages/landing-page";
 import Dashboard from "@/pages/dashboard";
 import AppointmentForm from "@/pages/appointment-form";
 import ViewAppointment from "@/pages/view-appointment";
+import ClientDetail from "@/pages/client-detail";
 import UserManagement from "@/pages/admin/user-management";
 import TeamManagement from "@/pages/admin/team-management";
+import ClientMergePage from "@/pages/admin/client-merge";
+import ReasonCodesPage from "@/pages/admin/reason-codes";
+import DocumentRequirementsPage from "@/pages/admin/document-requirements";
+import PassportRulesPage from "@/pages/admin/passport-rules";
+import ApprovalChainPage from "@/pages/admin/approval-chain";
+import LocationsPage from "@/pages/admin/locations";
+import SlaPoliciesPage from "@/pages/admin/sla-policies";
+import TeamAssignmentPage from "@/pages/admin/team-assignment";
 
 function Router() {
   return (
@@ -21,8 +30,17 @@ function Router() {
       <ProtectedRoute path="/dashboard" component={Dashboard} />
       <ProtectedRoute path="/appointments/new" component={AppointmentForm} />
       <ProtectedRoute path="/appointments/:id" component={ViewAppointment} />
+      <ProtectedRoute path="/clients/:id" component={ClientDetail} />
       <ProtectedRoute path="/admin/users" component={UserManagement} />
       <ProtectedRoute path="/admin/teams" component={TeamManagement} />
+      <ProtectedRoute path="/admin/teams/:id/approvals" component={ApprovalChainPage} />
+      <ProtectedRoute path="/admin/teams/:id/sla" component={SlaPoliciesPage} />
+      <ProtectedRoute path="/admin/teams/:id/assignment" component={TeamAssignmentPage} />
+      <ProtectedRoute path="/admin/clients/merge" component={ClientMergePage} />
+      <ProtectedRoute path="/admin/reason-codes" component={ReasonCodesPage} />
+      <ProtectedRoute path="/admin/document-requirements" component={DocumentRequirementsPage} />
+      <ProtectedRoute path="/admin/passport-rules" component={PassportRulesPage} />
+      <ProtectedRoute path="/admin/locations" component={LocationsPage} />
       <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
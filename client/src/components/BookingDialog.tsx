@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Appointment, DayAvailability, Location } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn, formatSlot } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+type BookingDialogProps = {
+  appointment: Appointment;
+  // Moves an already booked appointment, which needs a reason
+  reschedule?: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onError: (error: Error) => void;
+};
+
+// Lets an approver pick a free slot at one of the locations and book the appointment into it
+export function BookingDialog({ appointment, reschedule = false, open, onOpenChange, onError }: BookingDialogProps) {
+  const { toast } = useToast();
+  const [locationId, setLocationId] = useState<number | null>(reschedule ? appointment.locationId : null);
+  const [reason, setReason] = useState("");
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [slotStart, setSlotStart] = useState<string | null>(null);
+
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+    enabled: open,
+  });
+  const location = locations?.find((l) => l.id === locationId);
+
+  const { data: days, isLoading: slotsLoading } = useQuery<DayAvailability[]>({
+    queryKey: [`/api/locations/${locationId}/slots`, { from: date, days: 1 }],
+    enabled: open && locationId !== null && date !== "",
+  });
+  const day = days?.[0];
+  // Rescheduling into the slot the appointment already holds would change nothing
+  const currentSlot = reschedule && appointment.slotStart ? new Date(appointment.slotStart).toISOString() : null;
+
+  const bookMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/appointments/${appointment.id}/${reschedule ? "reschedule" : "booking"}`, {
+        locationId,
+        slotStart,
+        reason: reschedule ? reason.trim() : undefined,
+        version: appointment.version,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointment.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointment.id}/history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointment.id}/slot-history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointment.id}/pdf-versions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Success",
+        description: `${reschedule ? "Moved to" : "Booked for"} ${formatSlot(slotStart!, location?.timezone)}`,
+      });
+      setSlotStart(null);
+      setReason("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      // Someone may have taken the slot in the meantime
+      queryClient.invalidateQueries({ queryKey: [`/api/locations/${locationId}/slots`] });
+      setSlotStart(null);
+
+      // Version conflicts come back as JSON, while a slot that filled up only needs another pick
+      if (error.message.startsWith("409:") && !error.message.startsWith("409: {")) {
+        toast({
+          title: "Slot unavailable",
+          description: error.message.slice("409: ".length),
+          variant: "destructive",
+        });
+        return;
+      }
+      onOpenChange(false);
+      onError(error);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{reschedule ? "Reschedule" : "Book a slot"}</DialogTitle>
+          <DialogDescription>
+            {reschedule && appointment.slotStart && `Currently booked for ${formatSlot(appointment.slotStart, location?.timezone)}. `}
+            Times are shown on the location's clock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Location</Label>
+            <Select
+              value={locationId === null ? "" : String(locationId)}
+              onValueChange={(value) => {
+                setLocationId(Number(value));
+                setSlotStart(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations?.map((l) => (
+                  <SelectItem key={l.id} value={String(l.id)}>
+                    {l.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="booking-date">Date</Label>
+            <Input
+              id="booking-date"
+              type="date"
+              value={date}
+              onChange={(e) => {
+                setDate(e.target.value);
+                setSlotStart(null);
+              }}
+            />
+          </div>
+        </div>
+
+        {locationId !== null && (slotsLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-border" />
+        ) : day && (
+          day.closed ? (
+            <p className="text-sm text-muted-foreground">Closed: {day.closed}</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {day.booked} of {day.capacity} appointments booked this day
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                {day.slots.map((slot) => (
+                  <Button
+                    key={slot.start}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={!slot.available || (locationId === appointment.locationId && slot.start === currentSlot)}
+                    className={cn(slot.start === slotStart && "border-green-600 bg-green-50")}
+                    onClick={() => setSlotStart(slot.start)}
+                  >
+                    {new Date(slot.start).toLocaleTimeString(undefined, { timeZone: location?.timezone, timeStyle: "short" })}
+                    {slot.capacity > 1 && ` (${slot.capacity - slot.booked} left)`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )
+        ))}
+
+        {reschedule && (
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for the change (required)"
+          />
+        )}
+
+        <DialogFooter>
+          <Button
+            disabled={bookMutation.isPending || slotStart === null || (reschedule && !reason.trim())}
+            onClick={() => bookMutation.mutate()}
+          >
+            {bookMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {reschedule ? "Reschedule" : "Book"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Appointment, AppointmentBulkAction, BulkActionResult, ReasonCode, Team, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle, Download, FileArchive, Loader2, XCircle } from "lucide-react";
+
+type BulkRequest =
+  | { action: "approve"; reason?: string }
+  | { action: "reject"; reasonCodeId: number; reason?: string }
+  | { action: "reassign"; assignedTo: number | null }
+  | { action: "change_team"; teamId: number };
+
+type BulkActionsProps = {
+  selected: Appointment[];
+  onDone: () => void;
+};
+
+// Saves a file served by the API, showing the server's message when there is nothing to download
+async function download(url: string, filename: string) {
+  const res = await fetch(url, { credentials: "include" });
+  if (!res.ok) throw new Error(await res.text() || res.statusText);
+
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(await res.blob());
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+// Actions on the appointments selected on the dashboard. The server checks each
+// appointment on its own and the failures are listed afterwards.
+export function BulkActions({ selected, onDone }: BulkActionsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rejectOpen, setRejectOpen] = useState(false);
+  const [reasonCodeId, setReasonCodeId] = useState<number | null>(null);
+  const [note, setNote] = useState("");
+  const [failures, setFailures] = useState<BulkActionResult[]>([]);
+  const isAdmin = user?.role === "admin";
+
+  const { data: reasonCodes } = useQuery<ReasonCode[]>({
+    queryKey: ["/api/reason-codes"],
+  });
+  const rejectCodes = reasonCodes?.filter((reasonCode) => reasonCode.states.includes("rejected")) ?? [];
+
+  const { data: teams } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+    enabled: isAdmin,
+  });
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: isAdmin,
+  });
+  const approvers = users?.filter((u) => u.role === "approver") ?? [];
+  const teamName = (teamId: number | null) => teams?.find((t) => t.id === teamId)?.name;
+
+  const bulkMutation = useMutation({
+    mutationFn: async (request: BulkRequest) => {
+      const body: AppointmentBulkAction = {
+        ...request,
+        items: selected.map(({ id, version }) => ({ id, version })),
+      };
+      const res = await apiRequest("POST", "/api/appointments/bulk", body);
+      return res.json() as Promise<BulkActionResult[]>;
+    },
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments/sla"] });
+      const failed = results.filter((result) => !result.ok);
+      toast({
+        title: failed.length === 0 ? "Success" : "Some appointments were not changed",
+        description: `${results.length - failed.length} of ${results.length} updated`,
+        variant: failed.length === results.length ? "destructive" : "default",
+      });
+      setFailures(failed);
+      setRejectOpen(false);
+      setReasonCodeId(null);
+      setNote("");
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async (kind: "export" | "pdfs") => {
+      const ids = selected.map((appointment) => appointment.id).join(",");
+      const date = new Date().toISOString().slice(0, 10);
+      await download(
+        `/api/appointments/${kind}?ids=${ids}`,
+        kind === "export" ? `appointments-${date}.csv` : `appointment-pdfs-${date}.zip`,
+      );
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const busy = bulkMutation.isPending || downloadMutation.isPending;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border border-green-100 bg-green-50 p-3">
+        <span className="mr-2 text-sm font-medium">{selected.length} selected</span>
+        <Button size="sm" disabled={busy} onClick={() => bulkMutation.mutate({ action: "approve" })}>
+          <CheckCircle className="mr-2 h-4 w-4" />
+          Approve
+        </Button>
+        <Button size="sm" variant="outline" disabled={busy} onClick={() => setRejectOpen(true)}>
+          <XCircle className="mr-2 h-4 w-4" />
+          Reject
+        </Button>
+        {isAdmin && (
+          <Select
+            value=""
+            onValueChange={(value) => bulkMutation.mutate({ action: "reassign", assignedTo: value === "none" ? null : Number(value) })}
+            disabled={busy}
+          >
+            <SelectTrigger className="h-9 w-44">
+              <SelectValue placeholder="Reassign to…" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {approvers.map((approver) => (
+                <SelectItem key={approver.id} value={String(approver.id)}>
+                  {approver.username}{teamName(approver.teamId) && ` (${teamName(approver.teamId)})`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {isAdmin && (
+          <Select
+            value=""
+            onValueChange={(value) => bulkMutation.mutate({ action: "change_team", teamId: Number(value) })}
+            disabled={busy}
+          >
+            <SelectTrigger className="h-9 w-44">
+              <SelectValue placeholder="Move to team…" />
+            </SelectTrigger>
+            <SelectContent>
+              {teams?.map((team) => (
+                <SelectItem key={team.id} value={String(team.id)}>
+                  {team.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Button size="sm" variant="outline" disabled={busy} onClick={() => downloadMutation.mutate("export")}>
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </Button>
+        <Button size="sm" variant="outline" disabled={busy} onClick={() => downloadMutation.mutate("pdfs")}>
+          <FileArchive className="mr-2 h-4 w-4" />
+          Download PDFs
+        </Button>
+        {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+      </div>
+
+      <Dialog open={rejectOpen} onOpenChange={setRejectOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {selected.length} appointment{selected.length === 1 ? "" : "s"}</DialogTitle>
+            <DialogDescription>The reason is recorded on each appointment.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reasonCodeId ? String(reasonCodeId) : ""} onValueChange={(value) => setReasonCodeId(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rejectCodes.map((reasonCode) => (
+                    <SelectItem key={reasonCode.id} value={String(reasonCode.id)}>
+                      {reasonCode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional)" />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              disabled={busy || reasonCodeId === null}
+              onClick={() => reasonCodeId !== null && bulkMutation.mutate({
+                action: "reject",
+                reasonCodeId,
+                reason: note.trim() || undefined,
+              })}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={failures.length > 0} onOpenChange={(open) => !open && setFailures([])}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Not changed</DialogTitle>
+            <DialogDescription>These appointments were left as they were.</DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-2 text-sm">
+            {failures.map((failure) => (
+              <li key={failure.id}>
+                <span className="font-medium">Appointment #{failure.id}:</span>{" "}
+                {!failure.ok && failure.error}
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
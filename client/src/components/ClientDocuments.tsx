@@ -0,0 +1,380 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Attachment,
+  Client,
+  ClientDocumentReview,
+  ClientDocumentVersion,
+  ClientDocumentWithVersions,
+  DocumentType,
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DocumentStatusBadge } from "@/components/StatusBadge";
+import { UserName } from "@/components/UserName";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Download, FileText, FolderOpen, History, Loader2, Plus, Upload, XCircle } from "lucide-react";
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function DocumentPreview({ version, label }: { version: ClientDocumentVersion; label: string }) {
+  const { data: attachment } = useQuery<Attachment>({
+    queryKey: [`/api/attachments/${version.attachmentId}`],
+  });
+
+  return (
+    <a href={`/api/attachments/${version.attachmentId}/content`} target="_blank" rel="noopener noreferrer">
+      {attachment?.thumbnailKey ? (
+        <img
+          src={`/api/attachments/${version.attachmentId}/content?variant=thumbnail`}
+          alt={label}
+          className="h-16 w-16 rounded border object-cover"
+        />
+      ) : (
+        <div className="flex h-16 w-16 items-center justify-center rounded border">
+          <FileText className="h-6 w-6 text-muted-foreground" />
+        </div>
+      )}
+    </a>
+  );
+}
+
+function VersionDates({ version }: { version: ClientDocumentVersion }) {
+  const expired = version.expiryDate !== null && version.expiryDate < today();
+  return (
+    <span className="text-xs text-muted-foreground">
+      {version.issueDate && `Issued ${version.issueDate}`}
+      {version.issueDate && version.expiryDate && " · "}
+      {version.expiryDate && (
+        <span className={expired ? "font-medium text-red-600" : ""}>
+          {expired ? "Expired" : "Expires"} {version.expiryDate}
+        </span>
+      )}
+    </span>
+  );
+}
+
+type UploadTarget = { documentType: DocumentType } | { document: ClientDocumentWithVersions };
+
+function UploadDialog({
+  client,
+  target,
+  onClose,
+  onUploaded,
+}: {
+  client: Client;
+  target: UploadTarget;
+  onClose: () => void;
+  onUploaded: () => void;
+}) {
+  const { toast } = useToast();
+  const existing = "document" in target ? target.document : null;
+  const [documentType, setDocumentType] = useState<DocumentType>(
+    existing ? existing.documentType as DocumentType : (target as { documentType: DocumentType }).documentType,
+  );
+  const [file, setFile] = useState<File | null>(null);
+  const [issueDate, setIssueDate] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      const upload = await fetch("/api/attachments", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!upload.ok) throw new Error(await upload.text());
+      const attachment: Attachment = await upload.json();
+
+      const version = { attachmentId: attachment.id, issueDate: issueDate || null, expiryDate: expiryDate || null };
+      const res = existing
+        ? await apiRequest("POST", `/api/clients/${client.id}/documents/${existing.id}/versions`, version)
+        : await apiRequest("POST", `/api/clients/${client.id}/documents`, { documentType, ...version });
+      return res.json();
+    },
+    onSuccess: () => {
+      onUploaded();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {existing ? `New version of ${DOCUMENT_TYPE_LABELS[documentType]}` : "Add document"}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {!existing && (
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={documentType} onValueChange={(value) => setDocumentType(value as DocumentType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DOCUMENT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{DOCUMENT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="document-file">File</Label>
+            <Input
+              id="document-file"
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/gif,application/pdf"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="document-issue-date">Issue date</Label>
+              <Input id="document-issue-date" type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-expiry-date">Expiry date</Label>
+              <Input id="document-expiry-date" type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button disabled={!file || uploadMutation.isPending} onClick={() => uploadMutation.mutate()}>
+            {uploadMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Upload
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The client's documents with their versions. Approvers verify or reject the current version of each.
+export function ClientDocuments({ client, appointmentId }: { client: Client; appointmentId: number }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [uploadTarget, setUploadTarget] = useState<UploadTarget | null>(null);
+  const [rejecting, setRejecting] = useState<ClientDocumentWithVersions | null>(null);
+  const [rejectNote, setRejectNote] = useState("");
+  const [expanded, setExpanded] = useState<number[]>([]);
+  const documentsKey = [`/api/clients/${client.id}/documents`];
+  const canReview = user?.role === "approver" || user?.role === "admin";
+
+  const { data: documents, isLoading } = useQuery<ClientDocumentWithVersions[]>({
+    queryKey: documentsKey,
+  });
+
+  // The checklist is derived from the documents, so it changes with them
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: documentsKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointmentId}/checklist`] });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ documentId, ...review }: ClientDocumentReview & { documentId: number }) => {
+      const res = await apiRequest("POST", `/api/clients/${client.id}/documents/${documentId}/review`, review);
+      return res.json();
+    },
+    onSuccess: (version: ClientDocumentVersion) => {
+      refresh();
+      toast({
+        title: "Success",
+        description: version.status === "verified" ? "Document verified" : "Document rejected",
+      });
+      setRejecting(null);
+      setRejectNote("");
+    },
+    onError: (error: Error) => {
+      refresh();
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleExpanded = (documentId: number) =>
+    setExpanded(expanded.includes(documentId) ? expanded.filter((id) => id !== documentId) : [...expanded, documentId]);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <FolderOpen className="h-5 w-5" />
+            Client Documents
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setUploadTarget({ documentType: "passport" })}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Document
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-border" />
+        ) : documents?.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No documents uploaded for this client yet.</p>
+        ) : (
+          documents?.map((document) => {
+            const [current, ...older] = document.versions;
+            const label = DOCUMENT_TYPE_LABELS[document.documentType as DocumentType] ?? document.documentType;
+            return (
+              <div key={document.id} className="rounded-lg border p-3 space-y-2 text-sm">
+                <div className="flex items-start gap-3">
+                  <DocumentPreview version={current} label={label} />
+                  <div className="flex-1 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{label}</span>
+                      <span className="text-xs text-muted-foreground">v{current.version}</span>
+                      <DocumentStatusBadge status={current.status} />
+                    </div>
+                    <VersionDates version={current} />
+                    <div className="text-xs text-muted-foreground">
+                      Uploaded by <UserName id={current.uploadedBy} /> · {new Date(current.uploadedAt).toLocaleString()}
+                    </div>
+                    {current.reviewedBy && (
+                      <div className="text-xs text-muted-foreground">
+                        Reviewed by <UserName id={current.reviewedBy} />
+                        {current.reviewNote && ` · ${current.reviewNote}`}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`/api/attachments/${current.attachmentId}/content`} download>
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setUploadTarget({ document })}>
+                      <Upload className="h-4 w-4" />
+                    </Button>
+                    {older.length > 0 && (
+                      <Button variant="ghost" size="sm" onClick={() => toggleExpanded(document.id)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {canReview && (
+                  <div className="flex justify-end gap-2">
+                    {current.status !== "verified" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={reviewMutation.isPending}
+                        onClick={() => reviewMutation.mutate({ documentId: document.id, version: current.version, status: "verified" })}
+                      >
+                        <CheckCircle className="mr-2 h-4 w-4 text-green-600" />
+                        Verify
+                      </Button>
+                    )}
+                    {current.status !== "rejected" && (
+                      <Button size="sm" variant="outline" onClick={() => setRejecting(document)}>
+                        <XCircle className="mr-2 h-4 w-4 text-red-600" />
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                {expanded.includes(document.id) && older.map((version) => (
+                  <div key={version.id} className="flex items-center gap-2 border-t pt-2 text-xs">
+                    <a
+                      href={`/api/attachments/${version.attachmentId}/content`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      v{version.version}
+                    </a>
+                    <DocumentStatusBadge status={version.status} />
+                    <VersionDates version={version} />
+                    <span className="text-muted-foreground">· {new Date(version.uploadedAt).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      {uploadTarget && (
+        <UploadDialog client={client} target={uploadTarget} onClose={() => setUploadTarget(null)} onUploaded={refresh} />
+      )}
+
+      <Dialog
+        open={rejecting !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejecting(null);
+            setRejectNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject document?</DialogTitle>
+          </DialogHeader>
+          <Textarea
+            value={rejectNote}
+            onChange={(e) => setRejectNote(e.target.value)}
+            placeholder="What is wrong with it (required)"
+          />
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              disabled={reviewMutation.isPending || !rejectNote.trim()}
+              onClick={() => reviewMutation.mutate({
+                documentId: rejecting!.id,
+                version: rejecting!.versions[0].version,
+                status: "rejected",
+                note: rejectNote.trim(),
+              })}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
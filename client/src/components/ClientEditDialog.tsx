@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { insertClientSchema, clientProfileSchema, Attachment, Client, ClientPatch, ClientProfile, GCC_COUNTRY_OPTIONS } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ClientProfileFields } from "@/components/ClientProfileFields";
+import { usePassportRule } from "@/hooks/use-passport-rule";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, UserCheck } from "lucide-react";
+import { z } from "zod";
+
+const clientFormSchema = insertClientSchema.omit({ id: true, passportAttachmentId: true }).merge(clientProfileSchema);
+
+type ClientForm = z.infer<typeof clientFormSchema>;
+
+const TEXT_FIELDS = [
+  { name: "fullName", label: "Full Name" },
+  { name: "passportNumber", label: "Passport Number" },
+  { name: "passportIssuingCountry", label: "Passport Issuing Country" },
+  { name: "nationality", label: "Nationality" },
+  { name: "nationalId", label: "National ID" },
+  { name: "phoneNumber", label: "Phone Number" },
+  { name: "email", label: "Email" },
+  { name: "workType", label: "Work Type" },
+] as const;
+
+const DATE_FIELDS = [
+  { name: "passportIssueDate", label: "Passport Issue Date" },
+  { name: "passportExpiryDate", label: "Passport Expiry Date" },
+  { name: "dateOfBirth", label: "Date of Birth" },
+] as const;
+
+const PROFILE_LISTS = ["languages", "education", "workExperience", "skills"];
+const PASSPORT_RULE_FIELDS = ["workplace", "passportIssueDate", "passportExpiryDate"] as const;
+
+type ClientEditDialogProps = {
+  client: Client;
+  profile: ClientProfile;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+// Edits the client's details and profile. Only what changed is sent, and the server records each change.
+export function ClientEditDialog({ client, profile, open, onOpenChange }: ClientEditDialogProps) {
+  const { toast } = useToast();
+  const [passportFile, setPassportFile] = useState<File | null>(null);
+  // Set when the server found another client with a changed identifier; saving again keeps the change
+  const [duplicateWarning, setDuplicateWarning] = useState(false);
+  const passportRule = usePassportRule();
+
+  const form = useForm<ClientForm>({
+    // As on the server, the passport rule applies when the passport or workplace is changed
+    resolver: zodResolver(clientFormSchema.superRefine((values, ctx) => {
+      if (PASSPORT_RULE_FIELDS.some((name) => values[name] !== client[name])) passportRule(values, ctx);
+    })),
+    // Stored clients may predate the workplace and gender enums and the fields added since
+    values: {
+      fullName: client.fullName,
+      passportNumber: client.passportNumber,
+      nationalId: client.nationalId,
+      phoneNumber: client.phoneNumber,
+      email: client.email,
+      workType: client.workType,
+      workplace: client.workplace,
+      gender: client.gender,
+      passportIssueDate: client.passportIssueDate ?? "",
+      passportExpiryDate: client.passportExpiryDate ?? "",
+      passportIssuingCountry: client.passportIssuingCountry ?? "",
+      dateOfBirth: client.dateOfBirth ?? "",
+      nationality: client.nationality ?? "",
+      maritalStatus: client.maritalStatus,
+      address: client.address ?? "",
+      emergencyContactName: client.emergencyContactName ?? "",
+      emergencyContactRelationship: client.emergencyContactRelationship ?? "",
+      emergencyContactPhone: client.emergencyContactPhone ?? "",
+      languages: profile.languages.map(({ language, proficiency }) => ({ language, proficiency })),
+      education: profile.education.map(({ level, institution, fieldOfStudy, startYear, endYear }) => ({
+        level,
+        institution,
+        fieldOfStudy: fieldOfStudy ?? "",
+        startYear,
+        endYear,
+      })),
+      workExperience: profile.workExperience.map(({ employer, position, country, startDate, endDate, duties }) => ({
+        employer,
+        position,
+        country: country ?? "",
+        startDate,
+        endDate,
+        duties: duties ?? "",
+      })),
+      skills: profile.skills.map((skill) => skill.name),
+    } as ClientForm,
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async (values: ClientForm) => {
+      // Profile lists are always sent; the server only records the ones that differ
+      let patch = Object.fromEntries(
+        Object.entries(values).filter(([field, value]) =>
+          PROFILE_LISTS.includes(field) || value !== client[field as keyof Client]),
+      ) as ClientPatch;
+      if (passportFile) {
+        const formData = new FormData();
+        formData.append("file", passportFile);
+        const res = await fetch("/api/attachments", {
+          method: "POST",
+          body: formData,
+          credentials: "include",
+        });
+        if (!res.ok) throw new Error(await res.text());
+        const attachment: Attachment = await res.json();
+        patch = { ...patch, passportAttachmentId: attachment.id };
+      }
+
+      const url = duplicateWarning ? `/api/clients/${client.id}?allowDuplicate=true` : `/api/clients/${client.id}`;
+      const res = await apiRequest("PATCH", url, patch);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${client.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${client.id}/profile`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${client.id}/history`] });
+      toast({
+        title: "Success",
+        description: "Client updated",
+      });
+      setPassportFile(null);
+      setDuplicateWarning(false);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      if (error.message.startsWith("409:") && error.message.includes("duplicates")) {
+        setDuplicateWarning(true);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit client</DialogTitle>
+          <DialogDescription>
+            Every change is kept in the client's change history with who made it and when.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => editMutation.mutate(values))} className="space-y-4">
+            {TEXT_FIELDS.map(({ name, label }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            {DATE_FIELDS.map(({ name, label }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <FormField
+              control={form.control}
+              name="workplace"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Workplace</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select workplace" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {GCC_COUNTRY_OPTIONS.map((country) => (
+                        <SelectItem key={country} value={country}>
+                          {country}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="gender"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Gender</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select gender" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="male">Male</SelectItem>
+                      <SelectItem value="female">Female</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-passport-image">New Passport Image (optional)</Label>
+              <Input
+                id="edit-passport-image"
+                type="file"
+                accept="image/jpeg,image/png,image/gif"
+                onChange={(e) => setPassportFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+
+            <ClientProfileFields form={form} />
+
+            {duplicateWarning && (
+              <Alert>
+                <UserCheck className="h-4 w-4" />
+                <AlertTitle>Another client has the same details</AlertTitle>
+                <AlertDescription>
+                  A client with the same passport number, national ID or phone number already exists.
+                  Save again to keep the change, or merge the two clients instead.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <DialogFooter>
+              <Button type="submit" disabled={editMutation.isPending}>
+                {editMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {duplicateWarning ? "Save Anyway" : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
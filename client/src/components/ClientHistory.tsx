@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ClientFieldChange, ClientPatch, CLIENT_FIELD_LABELS, EDUCATION_LEVEL_LABELS, EducationLevel } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { UserName } from "@/components/UserName";
+import { History, Loader2 } from "lucide-react";
+
+export function fieldLabel(field: string) {
+  return CLIENT_FIELD_LABELS[field as keyof ClientPatch] ?? field;
+}
+
+// Profile lists are recorded in the shape they are sent in; see clientProfileSchema
+function formatListItem(field: string, item: any) {
+  switch (field) {
+    case "languages":
+      return `${item.language} (${item.proficiency})`;
+    case "education":
+      return `${EDUCATION_LEVEL_LABELS[item.level as EducationLevel] ?? item.level}, ${item.institution}`;
+    case "workExperience":
+      return `${item.position}, ${item.employer}`;
+    default:
+      return String(item);
+  }
+}
+
+export function formatChangeValue(field: string, value: unknown) {
+  if (field === "passportAttachmentId") return value ? `#${value}` : "none";
+  if (Array.isArray(value)) return value.length > 0 ? value.map((item) => formatListItem(field, item)).join("; ") : "none";
+  return String(value ?? "");
+}
+
+// Rows saved together by one edit share its time, author and appointment
+function groupEdits(changes: ClientFieldChange[]) {
+  const edits: ClientFieldChange[][] = [];
+  for (const change of changes) {
+    const last = edits[edits.length - 1]?.[0];
+    if (
+      last &&
+      new Date(last.changedAt).getTime() === new Date(change.changedAt).getTime() &&
+      last.changedBy === change.changedBy &&
+      last.appointmentId === change.appointmentId
+    ) {
+      edits[edits.length - 1].push(change);
+    } else {
+      edits.push([change]);
+    }
+  }
+  return edits;
+}
+
+// Every change to the client's details, newest first: edits on the client's page and
+// corrections made when resubmitting an appointment
+export function ClientHistory({ clientId }: { clientId: number }) {
+  const { data: changes, isLoading } = useQuery<ClientFieldChange[]>({
+    queryKey: [`/api/clients/${clientId}/history`],
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Change History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading || !changes ? (
+          <Loader2 className="h-6 w-6 animate-spin text-border" />
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes since the client was registered</p>
+        ) : (
+          groupEdits(changes).map((edit) => (
+            <div key={edit[0].id} className="text-sm border rounded-lg p-2">
+              <div className="text-xs text-muted-foreground">
+                <UserName id={edit[0].changedBy} /> · {new Date(edit[0].changedAt).toLocaleString()}
+                {edit[0].appointmentId && (
+                  <>
+                    {" · resubmitting "}
+                    <Link href={`/appointments/${edit[0].appointmentId}`} className="underline">
+                      appointment #{edit[0].appointmentId}
+                    </Link>
+                  </>
+                )}
+              </div>
+              <ul className="mt-1 space-y-0.5">
+                {edit.map((change) => (
+                  <li key={change.id}>
+                    <span className="font-medium">{fieldLabel(change.field)}:</span>{" "}
+                    <span className="text-muted-foreground line-through">{formatChangeValue(change.field, change.oldValue)}</span>
+                    {" → "}
+                    {formatChangeValue(change.field, change.newValue)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
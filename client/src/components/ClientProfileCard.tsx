@@ -0,0 +1,119 @@
+import type { ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Client, ClientProfile, EDUCATION_LEVEL_LABELS, EducationLevel } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Briefcase, GraduationCap, Home, Languages, Loader2, PhoneCall, Sparkles, UserCircle } from "lucide-react";
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function Section({ icon: Icon, title, children }: { icon: typeof Home; title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center text-muted-foreground">
+        <Icon className="mr-2 h-4 w-4" />
+        <h3 className="font-semibold">{title}</h3>
+      </div>
+      <div className="space-y-1 text-sm">{children}</div>
+    </div>
+  );
+}
+
+// The candidate profile employers ask for. Every part is optional, so empty sections say so.
+export function ClientProfileCard({ client }: { client: Client }) {
+  const { data: profile, isLoading } = useQuery<ClientProfile>({
+    queryKey: [`/api/clients/${client.id}/profile`],
+  });
+
+  const hasEmergencyContact = client.emergencyContactName || client.emergencyContactPhone;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCircle className="h-5 w-5" />
+          Candidate Profile
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !profile ? (
+          <Loader2 className="h-6 w-6 animate-spin text-border" />
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <Section icon={Home} title="Personal Details">
+              <div>Marital status: {client.maritalStatus ? capitalize(client.maritalStatus) : "Not given"}</div>
+              <div className="whitespace-pre-line">Address: {client.address ?? "Not given"}</div>
+            </Section>
+
+            <Section icon={PhoneCall} title="Emergency Contact">
+              {hasEmergencyContact ? (
+                <>
+                  <div>
+                    {client.emergencyContactName}
+                    {client.emergencyContactRelationship && ` (${client.emergencyContactRelationship})`}
+                  </div>
+                  {client.emergencyContactPhone && <div>{client.emergencyContactPhone}</div>}
+                </>
+              ) : (
+                <div className="text-muted-foreground">Not given</div>
+              )}
+            </Section>
+
+            <Section icon={Languages} title="Languages">
+              {profile.languages.length === 0 && <div className="text-muted-foreground">None listed</div>}
+              {profile.languages.map((language) => (
+                <div key={language.id}>
+                  {language.language} · {capitalize(language.proficiency)}
+                </div>
+              ))}
+            </Section>
+
+            <Section icon={Sparkles} title="Skills">
+              {profile.skills.length === 0 ? (
+                <div className="text-muted-foreground">None listed</div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {profile.skills.map((skill) => (
+                    <Badge key={skill.id} variant="secondary">{skill.name}</Badge>
+                  ))}
+                </div>
+              )}
+            </Section>
+
+            <Section icon={GraduationCap} title="Education">
+              {profile.education.length === 0 && <div className="text-muted-foreground">None listed</div>}
+              {profile.education.map((entry) => (
+                <div key={entry.id}>
+                  <div className="font-medium">
+                    {EDUCATION_LEVEL_LABELS[entry.level as EducationLevel] ?? entry.level}
+                    {entry.fieldOfStudy && `, ${entry.fieldOfStudy}`}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {entry.institution}
+                    {entry.startYear && ` · ${entry.startYear} to ${entry.endYear ?? "present"}`}
+                  </div>
+                </div>
+              ))}
+            </Section>
+
+            <Section icon={Briefcase} title="Work Experience">
+              {profile.workExperience.length === 0 && <div className="text-muted-foreground">None listed</div>}
+              {profile.workExperience.map((entry) => (
+                <div key={entry.id}>
+                  <div className="font-medium">{entry.position}, {entry.employer}</div>
+                  <div className="text-muted-foreground">
+                    {entry.country && `${entry.country} · `}
+                    {entry.startDate} to {entry.endDate ?? "present"}
+                  </div>
+                  {entry.duties && <div className="whitespace-pre-line">{entry.duties}</div>}
+                </div>
+              ))}
+            </Section>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
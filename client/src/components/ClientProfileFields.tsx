@@ -0,0 +1,415 @@
+import { useState } from "react";
+import { useFieldArray, UseFormReturn } from "react-hook-form";
+import { EDUCATION_LEVELS, EDUCATION_LEVEL_LABELS, LANGUAGE_PROFICIENCIES, MARITAL_STATUSES } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, X } from "lucide-react";
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Empty number and date inputs mean "not given" rather than 0 or ""
+const orNull = (value: string) => (value === "" ? null : value);
+const numberOrNull = (value: string) => (value === "" ? null : Number(value));
+
+function SectionHeading({ title, onAdd }: { title: string; onAdd?: () => void }) {
+  return (
+    <div className="flex items-center justify-between pt-2">
+      <h3 className="font-semibold">{title}</h3>
+      {onAdd && (
+        <Button type="button" size="sm" variant="outline" onClick={onAdd}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// The candidate profile employers ask for: personal details, emergency contact, and the
+// repeating languages, education, work experience and skills. All of it is optional.
+export function ClientProfileFields({ form }: { form: UseFormReturn<any> }) {
+  const [skill, setSkill] = useState("");
+  const languages = useFieldArray({ control: form.control, name: "languages" });
+  const education = useFieldArray({ control: form.control, name: "education" });
+  const workExperience = useFieldArray({ control: form.control, name: "workExperience" });
+  const skills: string[] = form.watch("skills") ?? [];
+
+  const addSkill = () => {
+    const name = skill.trim();
+    if (name && !skills.some((existing) => existing.toLowerCase() === name.toLowerCase())) {
+      form.setValue("skills", [...skills, name], { shouldDirty: true });
+    }
+    setSkill("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <SectionHeading title="Personal Details" />
+      <FormField
+        control={form.control}
+        name="maritalStatus"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Marital Status</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value ?? undefined}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select marital status" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {MARITAL_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>{capitalize(status)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="address"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Address</FormLabel>
+            <FormControl>
+              <Textarea {...field} value={field.value ?? ""} rows={2} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <SectionHeading title="Emergency Contact" />
+      <div className="grid gap-4 md:grid-cols-3">
+        <FormField
+          control={form.control}
+          name="emergencyContactName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="emergencyContactRelationship"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Relationship</FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ""} placeholder="e.g. Father" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="emergencyContactPhone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Phone</FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ""} type="tel" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <SectionHeading title="Languages" onAdd={() => languages.append({ language: "", proficiency: "conversational" })} />
+      {languages.fields.map((item, index) => (
+        <div key={item.id} className="flex items-start gap-2">
+          <FormField
+            control={form.control}
+            name={`languages.${index}.language`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input {...field} placeholder="Language" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`languages.${index}.proficiency`}
+            render={({ field }) => (
+              <FormItem className="w-44">
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {LANGUAGE_PROFICIENCIES.map((proficiency) => (
+                      <SelectItem key={proficiency} value={proficiency}>{capitalize(proficiency)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="ghost" size="sm" onClick={() => languages.remove(index)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <SectionHeading
+        title="Education"
+        onAdd={() => education.append({ level: "secondary", institution: "", fieldOfStudy: "", startYear: null, endYear: null })}
+      />
+      {education.fields.map((item, index) => (
+        <div key={item.id} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-start gap-2">
+            <FormField
+              control={form.control}
+              name={`education.${index}.level`}
+              render={({ field }) => (
+                <FormItem className="w-56">
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {EDUCATION_LEVELS.map((level) => (
+                        <SelectItem key={level} value={level}>{EDUCATION_LEVEL_LABELS[level]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`education.${index}.institution`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <Input {...field} placeholder="Institution" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="button" variant="ghost" size="sm" onClick={() => education.remove(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid gap-2 md:grid-cols-3">
+            <FormField
+              control={form.control}
+              name={`education.${index}.fieldOfStudy`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ""} placeholder="Field of study" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`education.${index}.startYear`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      placeholder="Start year"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(numberOrNull(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`education.${index}.endYear`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      placeholder="End year"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(numberOrNull(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+      ))}
+
+      <SectionHeading
+        title="Work Experience"
+        onAdd={() => workExperience.append({ employer: "", position: "", country: "", startDate: "", endDate: null, duties: "" })}
+      />
+      {workExperience.fields.map((item, index) => (
+        <div key={item.id} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-start gap-2">
+            <div className="grid flex-1 gap-2 md:grid-cols-3">
+              <FormField
+                control={form.control}
+                name={`workExperience.${index}.employer`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input {...field} placeholder="Employer" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`workExperience.${index}.position`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input {...field} placeholder="Position" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`workExperience.${index}.country`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} placeholder="Country" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => workExperience.remove(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid gap-2 md:grid-cols-2">
+            <FormField
+              control={form.control}
+              name={`workExperience.${index}.startDate`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">From</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="date" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`workExperience.${index}.endDate`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">To (leave empty for the current job)</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="date"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(orNull(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name={`workExperience.${index}.duties`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Textarea {...field} value={field.value ?? ""} rows={2} placeholder="Duties" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      ))}
+
+      <SectionHeading title="Skills" />
+      <div className="flex gap-2">
+        <Input
+          value={skill}
+          onChange={(e) => setSkill(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addSkill();
+            }
+          }}
+          placeholder="e.g. Forklift operation"
+        />
+        <Button type="button" variant="outline" onClick={addSkill} disabled={!skill.trim()}>
+          Add
+        </Button>
+      </div>
+      {skills.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {skills.map((name) => (
+            <Badge key={name} variant="secondary" className="gap-1">
+              {name}
+              <button
+                type="button"
+                onClick={() => form.setValue("skills", skills.filter((existing) => existing !== name), { shouldDirty: true })}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ClientSearchResult } from "@shared/schema";
+import { formatPhone } from "@shared/phone";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { StatusBadge } from "@/components/StatusBadge";
+import { Loader2, Search } from "lucide-react";
+
+const MIN_QUERY_LENGTH = 2;
+
+export function ClientSearch() {
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebounce(query.trim(), 300);
+
+  const { data: results, isFetching } = useQuery<ClientSearchResult[]>({
+    queryKey: ["/api/clients/search", { q: debouncedQuery }],
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    placeholderData: keepPreviousData,
+  });
+
+  const showResults = debouncedQuery.length >= MIN_QUERY_LENGTH && results;
+
+  return (
+    <div className="relative mb-6">
+      <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+      <Input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search clients by name, passport, national ID, phone or email"
+        className="pl-9"
+      />
+      {isFetching && (
+        <Loader2 className="absolute right-3 top-3 h-4 w-4 animate-spin text-muted-foreground" />
+      )}
+
+      {showResults && (
+        <Card className="absolute z-10 mt-2 w-full max-h-96 overflow-y-auto">
+          <CardContent className="p-2">
+            {results.length === 0 && (
+              <p className="p-4 text-center text-sm text-muted-foreground">No matching clients</p>
+            )}
+            {results.map(({ client, appointments }) => (
+              <div key={client.id} className="p-2 border-b last:border-b-0">
+                <div className="flex items-center justify-between">
+                  <Link href={`/clients/${client.id}`} className="font-medium hover:underline">
+                    {client.fullName}
+                  </Link>
+                  <span className="text-xs text-muted-foreground">
+                    Passport {client.passportNumber} · ID {client.nationalId}
+                  </span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatPhone(client.phoneNumber)} · {client.email}
+                </div>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {appointments.map((appointment) => (
+                    <Link key={appointment.id} href={`/appointments/${appointment.id}`}>
+                      <span className="flex cursor-pointer items-center gap-1 rounded border border-green-200 px-2 py-0.5 text-xs hover:bg-green-50">
+                        #{appointment.id} · {new Date(appointment.createdAt).toLocaleDateString()}
+                        <StatusBadge status={appointment.status} />
+                      </span>
+                    </Link>
+                  ))}
+                  {appointments.length === 0 && (
+                    <span className="text-xs text-muted-foreground">No appointments</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Attachment, AppointmentComment, AppointmentCommentEdit, CommentInput } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { UserName } from "@/components/UserName";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, Loader2, Lock, MessageSquare, Paperclip, Pencil, Send } from "lucide-react";
+
+const MAX_ATTACHMENTS = 5;
+
+// Matches what server/comments.ts reads as a mention
+const MENTION_PATTERN = /((?:^|[^\w@])@[\w.-]*\w)/g;
+
+// Renders the body with @mentions highlighted
+function CommentBody({ body }: { body: string }) {
+  return (
+    <p className="whitespace-pre-wrap text-sm">
+      {body.split(MENTION_PATTERN).map((part, index) => {
+        const at = part.indexOf("@");
+        if (index % 2 === 0 || at === -1) return part;
+        return (
+          <span key={index}>
+            {part.slice(0, at)}
+            <span className="font-medium text-blue-600">{part.slice(at)}</span>
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
+function CommentAttachment({ id }: { id: number }) {
+  const { data: attachment } = useQuery<Attachment>({
+    queryKey: [`/api/attachments/${id}`],
+  });
+  if (!attachment) return null;
+
+  return (
+    <a
+      href={`/api/attachments/${id}/content`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-2 rounded border p-1 text-xs hover:bg-muted"
+    >
+      {attachment.thumbnailKey ? (
+        <img
+          src={`/api/attachments/${id}/content?variant=thumbnail`}
+          alt={attachment.fileName}
+          className="h-12 w-12 rounded object-cover"
+        />
+      ) : (
+        <FileText className="h-4 w-4" />
+      )}
+      <span className="max-w-[10rem] truncate">{attachment.fileName}</span>
+    </a>
+  );
+}
+
+function EditHistoryDialog({ comment, onClose }: { comment: AppointmentComment; onClose: () => void }) {
+  const { data: edits, isLoading } = useQuery<AppointmentCommentEdit[]>({
+    queryKey: [`/api/appointments/${comment.appointmentId}/comments/${comment.id}/edits`],
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-border" />
+        ) : (
+          <div className="space-y-2">
+            {edits?.map((edit, index) => (
+              <div key={edit.id} className="rounded-lg border p-2">
+                <div className="text-xs text-muted-foreground">
+                  {index === 0
+                    ? `Original · ${new Date(comment.createdAt).toLocaleString()}`
+                    : `Edited · ${new Date(edits[index - 1].editedAt).toLocaleString()}`}
+                </div>
+                <CommentBody body={edit.previousBody} />
+              </div>
+            ))}
+            <div className="rounded-lg border p-2">
+              <div className="text-xs text-muted-foreground">
+                Current · {comment.editedAt && new Date(comment.editedAt).toLocaleString()}
+              </div>
+              <CommentBody body={comment.body} />
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+async function uploadAttachment(file: File): Promise<Attachment> {
+  const formData = new FormData();
+  formData.append("file", file);
+  const res = await fetch("/api/attachments", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error(await res.text());
+  return res.json();
+}
+
+// Notes and internal comments on an appointment. Opening the thread marks it read.
+export function CommentThread({ appointmentId }: { appointmentId: number }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const [internal, setInternal] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  // Remounts the file input to clear it once a comment is posted
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [editing, setEditing] = useState<{ id: number; body: string } | null>(null);
+  const [historyOf, setHistoryOf] = useState<AppointmentComment | null>(null);
+  const commentsKey = [`/api/appointments/${appointmentId}/comments`];
+  const canPostInternal = user?.role !== "collector";
+
+  const { data: comments, isLoading } = useQuery<AppointmentComment[]>({
+    queryKey: commentsKey,
+  });
+  const latestId = comments?.length ? comments[comments.length - 1].id : null;
+
+  useEffect(() => {
+    if (latestId === null) return;
+    apiRequest("POST", `/api/appointments/${appointmentId}/comments/read`)
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/appointments/unread-comments"] }))
+      .catch(() => {
+        // The thread was still shown; the dashboard marker clears on the next visit
+      });
+  }, [appointmentId, latestId]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const postMutation = useMutation({
+    mutationFn: async () => {
+      const attachments = await Promise.all(files.map(uploadAttachment));
+      const comment: CommentInput = {
+        body: body.trim(),
+        internal,
+        attachmentIds: attachments.map((attachment) => attachment.id),
+      };
+      const res = await apiRequest("POST", `/api/appointments/${appointmentId}/comments`, comment);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+      setBody("");
+      setInternal(false);
+      setFiles([]);
+      setFileInputKey((key) => key + 1);
+    },
+    onError,
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async ({ id, body }: { id: number; body: string }) => {
+      const res = await apiRequest("PATCH", `/api/appointments/${appointmentId}/comments/${id}`, { body });
+      return res.json();
+    },
+    onSuccess: (comment: AppointmentComment) => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointmentId}/comments/${comment.id}/edits`] });
+      setEditing(null);
+    },
+    onError,
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Comments
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-border" />
+        ) : comments?.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No comments yet.</p>
+        ) : (
+          comments?.map((comment) => (
+            <div
+              key={comment.id}
+              className={`rounded-lg border p-3 space-y-2 ${comment.internal ? "border-amber-300 bg-amber-50" : ""} ${user && comment.mentions.includes(user.id) ? "ring-2 ring-blue-200" : ""}`}
+            >
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <span className="font-medium text-foreground"><UserName id={comment.authorId} /></span>
+                <span>{new Date(comment.createdAt).toLocaleString()}</span>
+                {comment.editedAt && (
+                  <button type="button" className="underline" onClick={() => setHistoryOf(comment)}>
+                    edited
+                  </button>
+                )}
+                {comment.internal && (
+                  <Badge variant="outline" className="border-transparent bg-amber-100 text-amber-800">
+                    <Lock className="mr-1 h-3 w-3" />
+                    Internal
+                  </Badge>
+                )}
+                {comment.authorId === user?.id && editing?.id !== comment.id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto h-6 px-2"
+                    onClick={() => setEditing({ id: comment.id, body: comment.body })}
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+
+              {editing?.id === comment.id ? (
+                <div className="space-y-2">
+                  <Textarea value={editing.body} onChange={(e) => setEditing({ ...editing, body: e.target.value })} />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={editMutation.isPending || !editing.body.trim()}
+                      onClick={() => editMutation.mutate({ id: comment.id, body: editing.body.trim() })}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <CommentBody body={comment.body} />
+              )}
+
+              {comment.attachmentIds.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {comment.attachmentIds.map((id) => <CommentAttachment key={id} id={id} />)}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+
+        <form
+          className="space-y-3 border-t pt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            postMutation.mutate();
+          }}
+        >
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Add a comment. Mention someone with @username."
+          />
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Paperclip className="h-4 w-4 text-muted-foreground" />
+              <Input
+                key={fileInputKey}
+                type="file"
+                multiple
+                accept="image/jpeg,image/png,image/webp,image/gif,application/pdf"
+                className="max-w-xs"
+                onChange={(e) => setFiles(Array.from(e.target.files ?? []).slice(0, MAX_ATTACHMENTS))}
+              />
+            </div>
+            {canPostInternal && (
+              <div className="flex items-center gap-2">
+                <Switch id="comment-internal" checked={internal} onCheckedChange={setInternal} />
+                <Label htmlFor="comment-internal">Internal (hidden from collectors)</Label>
+              </div>
+            )}
+            <Button type="submit" className="ml-auto" disabled={postMutation.isPending || !body.trim()}>
+              {postMutation.isPending
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <Send className="mr-2 h-4 w-4" />}
+              Post
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+
+      {historyOf && <EditHistoryDialog comment={historyOf} onClose={() => setHistoryOf(null)} />}
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { Appointment, AppointmentChecklist, ClientDocumentVersion, DOCUMENT_TYPE_LABELS } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DocumentStatusBadge } from "@/components/StatusBadge";
+import { CheckCircle, Circle, ClipboardList, Clock, Loader2 } from "lucide-react";
+
+function expired(version: ClientDocumentVersion) {
+  return version.expiryDate !== null && version.expiryDate < new Date().toISOString().slice(0, 10);
+}
+
+// The documents the client needs for this appointment; approval is refused while required ones are missing
+// or not yet verified.
+// Documents are added in the client documents panel and tick items off here.
+export function DocumentChecklist({ appointment }: { appointment: Appointment }) {
+  const { data: checklist, isLoading } = useQuery<AppointmentChecklist>({
+    queryKey: [`/api/appointments/${appointment.id}/checklist`],
+  });
+
+  if (isLoading) {
+    return (
+      <Card className="mt-6">
+        <CardContent className="p-6">
+          <Loader2 className="h-6 w-6 animate-spin text-border" />
+        </CardContent>
+      </Card>
+    );
+  }
+  if (!checklist || checklist.items.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5" />
+          Document Checklist
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {checklist.missing.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTitle>Required documents missing</AlertTitle>
+            <AlertDescription>
+              {checklist.missing.map((type) => DOCUMENT_TYPE_LABELS[type]).join(", ")} need a current, unrejected
+              document before the appointment can be approved.
+            </AlertDescription>
+          </Alert>
+        )}
+        {checklist.unreviewed.length > 0 && (
+          <Alert>
+            <AlertTitle>Awaiting review</AlertTitle>
+            <AlertDescription>
+              {checklist.unreviewed.map((type) => DOCUMENT_TYPE_LABELS[type]).join(", ")} must be verified in the
+              client documents panel before the appointment can be approved.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {checklist.items.map((item) => (
+          <div key={item.documentType} className="rounded-lg border p-3 space-y-2 text-sm">
+            <div className="flex items-center gap-2">
+              {item.verified
+                ? <CheckCircle className="h-4 w-4 text-green-600" />
+                : item.complete
+                ? <Clock className="h-4 w-4 text-amber-600" />
+                : <Circle className="h-4 w-4 text-muted-foreground" />}
+              <span className="font-medium">{DOCUMENT_TYPE_LABELS[item.documentType]}</span>
+              <Badge variant="outline">{item.mandatory ? "Required" : "Optional"}</Badge>
+            </div>
+            {item.notes.map((note) => (
+              <div key={note} className="text-xs text-muted-foreground">{note}</div>
+            ))}
+            {item.documents.map(({ id, versions: [current] }) => (
+              <div key={id} className="flex items-center gap-2 text-xs">
+                <span>v{current.version}</span>
+                <DocumentStatusBadge status={current.status} />
+                {current.expiryDate && (
+                  <span className={expired(current) ? "font-medium text-red-600" : "text-muted-foreground"}>
+                    {expired(current) ? "Expired" : "Expires"} {current.expiryDate}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { MrzPassport } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, ScanLine } from "lucide-react";
+
+// Client form fields the machine readable zone fills, and where each comes from
+const MRZ_FIELDS = [
+  { name: "passportNumber", label: "Passport number", from: "passportNumber" },
+  { name: "fullName", label: "Full name", from: "fullName" },
+  { name: "gender", label: "Gender", from: "gender" },
+  { name: "nationality", label: "Nationality", from: "nationality" },
+  { name: "dateOfBirth", label: "Date of birth", from: "dateOfBirth" },
+  { name: "passportIssuingCountry", label: "Issuing country", from: "issuingCountry" },
+  { name: "passportExpiryDate", label: "Passport expiry date", from: "expiryDate" },
+] as const;
+
+export type MrzField = (typeof MRZ_FIELDS)[number]["name"];
+
+const MRZ_LINE_LENGTH = 44;
+
+// Case, spacing and punctuation differences are not worth flagging
+function comparable(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]+/g, " ").trim();
+}
+
+type MrzReaderProps = {
+  values: Record<MrzField, string>;
+  onChange: (field: MrzField, value: string) => void;
+};
+
+// Reads the two lines at the bottom of the passport's photo page, typed in or from a
+// keyboard-wedge scanner. Empty fields are filled in; fields the collector already entered
+// are left alone and listed while they differ from the passport.
+export function MrzReader({ values, onChange }: MrzReaderProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [passport, setPassport] = useState<MrzPassport | null>(null);
+
+  const readMutation = useMutation({
+    mutationFn: async (mrz: string) => {
+      const res = await apiRequest("POST", "/api/mrz", { mrz });
+      return (await res.json()) as MrzPassport;
+    },
+    onSuccess: (read) => {
+      setPassport(read);
+      for (const { name, from } of MRZ_FIELDS) {
+        const value = read[from];
+        if (value && !values[name].trim()) onChange(name, value);
+      }
+    },
+    onError: (error: Error) => {
+      setPassport(null);
+      toast({
+        title: "Could not read the MRZ",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onTextChange = (value: string) => {
+    setText(value);
+    // Scanners end each line with Enter, so read as soon as the second line is complete
+    const lines = value.split(/[\r\n]+/).map((line) => line.replace(/\s/g, "")).filter(Boolean);
+    if (lines.length === 2 && lines.every((line) => line.length === MRZ_LINE_LENGTH) && /[\r\n]\s*$/.test(value)) {
+      readMutation.mutate(value);
+    }
+  };
+
+  const mismatches = passport
+    ? MRZ_FIELDS.filter(({ name, from }) => {
+        const read = passport[from];
+        return read && values[name].trim() && comparable(values[name]) !== comparable(read);
+      })
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="mrz">Machine Readable Zone</Label>
+      <Textarea
+        id="mrz"
+        value={text}
+        onChange={(e) => onTextChange(e.target.value)}
+        placeholder={"P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<\nL898902C36UTO7408122F1204159ZE184226B<<<<<10"}
+        className="font-mono text-xs uppercase"
+        rows={2}
+        spellCheck={false}
+      />
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-muted-foreground">
+          Scan or type both lines to fill in the passport details.
+        </p>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={!text.trim() || readMutation.isPending}
+          onClick={() => readMutation.mutate(text)}
+        >
+          <ScanLine className="mr-2 h-4 w-4" />
+          Read MRZ
+        </Button>
+      </div>
+
+      {mismatches.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Does not match the passport</AlertTitle>
+          <AlertDescription className="space-y-2">
+            {mismatches.map(({ name, label, from }) => (
+              <div key={name} className="flex items-center justify-between gap-4">
+                <div className="text-sm">
+                  <span className="font-medium">{label}:</span> entered {values[name]}, passport says {passport![from]}
+                </div>
+                <Button type="button" size="sm" variant="outline" onClick={() => onChange(name, passport![from]!)}>
+                  Use passport value
+                </Button>
+              </div>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
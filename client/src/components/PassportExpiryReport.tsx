@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { PassportExpiry } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StatusBadge } from "@/components/StatusBadge";
+import { Loader2 } from "lucide-react";
+
+const WINDOWS = [
+  { days: 90, label: "Next 3 months" },
+  { days: 180, label: "Next 6 months" },
+  { days: 365, label: "Next 12 months" },
+];
+
+// Open appointments whose client's passport runs out soon, worst first
+export function PassportExpiryReport() {
+  const [days, setDays] = useState(180);
+
+  const { data: expiries, isLoading } = useQuery<PassportExpiry[]>({
+    queryKey: ["/api/appointments/passport-expiry", { days }],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          Passports Expiring
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOWS.map((window) => (
+                <SelectItem key={window.days} value={String(window.days)}>{window.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+        <CardDescription>
+          Open appointments whose client's passport expires in this period. Booked appointments are checked
+          against the slot's date, the rest against today.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-border" />
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-2">Client</th>
+                <th className="py-2">Passport</th>
+                <th className="py-2">Workplace</th>
+                <th className="py-2">Status</th>
+                <th className="py-2">Expires</th>
+                <th className="py-2">Must Be Valid Until</th>
+              </tr>
+            </thead>
+            <tbody>
+              {expiries?.map(({ appointment, client, requiredUntil, problem }) => (
+                <tr key={appointment.id} className={problem ? "text-red-600" : ""}>
+                  <td className="py-2">
+                    <Link href={`/appointments/${appointment.id}`} className="hover:underline">
+                      {client.fullName}
+                    </Link>
+                  </td>
+                  <td className="py-2">{client.passportNumber}</td>
+                  <td className="py-2">{client.workplace}</td>
+                  <td className="py-2"><StatusBadge status={appointment.status} /></td>
+                  <td className="py-2 font-medium">{client.passportExpiryDate}</td>
+                  <td className="py-2" title={problem ?? undefined}>{requiredUntil}</td>
+                </tr>
+              ))}
+              {expiries?.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-2 text-muted-foreground">
+                    No open appointments have a passport expiring in this period.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
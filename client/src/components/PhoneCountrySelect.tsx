@@ -0,0 +1,37 @@
+import { callingCode, PHONE_COUNTRIES, PhoneCountry } from "@shared/phone";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+const OPTIONS = PHONE_COUNTRIES
+  .map((country) => ({ country, name: regionNames.of(country) ?? country, code: callingCode(country) }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+type PhoneCountrySelectProps = {
+  value: PhoneCountry;
+  onChange: (country: PhoneCountry) => void;
+};
+
+// The country whose numbering plan a phone number typed without + is read in
+export function PhoneCountrySelect({ value, onChange }: PhoneCountrySelectProps) {
+  return (
+    <Select value={value} onValueChange={(country) => onChange(country as PhoneCountry)}>
+      <SelectTrigger className="w-48" aria-label="Phone number country">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {OPTIONS.map(({ country, name, code }) => (
+          <SelectItem key={country} value={country}>
+            {name} ({code})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { insertClientSchema, Appointment, Attachment, Client, ClientUpdate, GCC_COUNTRY_OPTIONS, MARITAL_STATUSES } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePassportRule } from "@/hooks/use-passport-rule";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { z } from "zod";
+
+const clientFormSchema = insertClientSchema.omit({ id: true, passportAttachmentId: true });
+
+type ClientForm = z.infer<typeof clientFormSchema>;
+
+const TEXT_FIELDS = [
+  { name: "fullName", label: "Full Name" },
+  { name: "passportNumber", label: "Passport Number" },
+  { name: "passportIssuingCountry", label: "Passport Issuing Country" },
+  { name: "nationality", label: "Nationality" },
+  { name: "nationalId", label: "National ID" },
+  { name: "phoneNumber", label: "Phone Number" },
+  { name: "email", label: "Email" },
+  { name: "workType", label: "Work Type" },
+  { name: "address", label: "Address" },
+  { name: "emergencyContactName", label: "Emergency Contact Name" },
+  { name: "emergencyContactRelationship", label: "Emergency Contact Relationship" },
+  { name: "emergencyContactPhone", label: "Emergency Contact Phone" },
+] as const;
+
+const DATE_FIELDS = [
+  { name: "passportIssueDate", label: "Passport Issue Date" },
+  { name: "passportExpiryDate", label: "Passport Expiry Date" },
+  { name: "dateOfBirth", label: "Date of Birth" },
+] as const;
+
+type ResubmitDialogProps = {
+  appointment: Appointment;
+  client: Client;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onError: (error: Error) => void;
+};
+
+// Lets the collector correct the client's details on a returned appointment and send it back for approval
+export function ResubmitDialog({ appointment, client, open, onOpenChange, onError }: ResubmitDialogProps) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const [passportFile, setPassportFile] = useState<File | null>(null);
+  const passportRule = usePassportRule();
+
+  const form = useForm<ClientForm>({
+    resolver: zodResolver(clientFormSchema.superRefine(passportRule)),
+    // Stored clients may predate the workplace and gender enums and the fields added since
+    values: {
+      fullName: client.fullName,
+      passportNumber: client.passportNumber,
+      nationalId: client.nationalId,
+      phoneNumber: client.phoneNumber,
+      email: client.email,
+      workType: client.workType,
+      workplace: client.workplace,
+      gender: client.gender,
+      passportIssueDate: client.passportIssueDate ?? "",
+      passportExpiryDate: client.passportExpiryDate ?? "",
+      passportIssuingCountry: client.passportIssuingCountry ?? "",
+      dateOfBirth: client.dateOfBirth ?? "",
+      nationality: client.nationality ?? "",
+      maritalStatus: client.maritalStatus,
+      address: client.address ?? "",
+      emergencyContactName: client.emergencyContactName ?? "",
+      emergencyContactRelationship: client.emergencyContactRelationship ?? "",
+      emergencyContactPhone: client.emergencyContactPhone ?? "",
+    } as ClientForm,
+  });
+
+  const resubmitMutation = useMutation({
+    mutationFn: async (values: ClientUpdate) => {
+      let update = values;
+      if (passportFile) {
+        const formData = new FormData();
+        formData.append("file", passportFile);
+        const res = await fetch("/api/attachments", {
+          method: "POST",
+          body: formData,
+          credentials: "include",
+        });
+        if (!res.ok) throw new Error(await res.text());
+        const attachment: Attachment = await res.json();
+        update = { ...values, passportAttachmentId: attachment.id };
+      }
+
+      const res = await apiRequest("POST", `/api/appointments/${appointment.id}/resubmit`, {
+        client: update,
+        reason: note.trim() || undefined,
+        version: appointment.version,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointment.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointment.id}/history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${client.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointment.id}/checklist`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments/sla"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Success",
+        description: "Appointment resubmitted for approval",
+      });
+      setNote("");
+      setPassportFile(null);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      onOpenChange(false);
+      onError(error);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Correct and resubmit</DialogTitle>
+          <DialogDescription>
+            Fix the client's details and send the appointment back for approval. Every change is kept in the status history.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => resubmitMutation.mutate(values))} className="space-y-4">
+            {TEXT_FIELDS.map(({ name, label }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            {DATE_FIELDS.map(({ name, label }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <FormField
+              control={form.control}
+              name="workplace"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Workplace</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select workplace" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {GCC_COUNTRY_OPTIONS.map((country) => (
+                        <SelectItem key={country} value={country}>
+                          {country}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="gender"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Gender</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select gender" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="male">Male</SelectItem>
+                      <SelectItem value="female">Female</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="maritalStatus"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Marital Status</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value ?? undefined}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select marital status" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MARITAL_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {status.charAt(0).toUpperCase() + status.slice(1)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="resubmit-passport-image">New Passport Image (optional)</Label>
+              <Input
+                id="resubmit-passport-image"
+                type="file"
+                accept="image/jpeg,image/png,image/gif"
+                onChange={(e) => setPassportFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the approver (optional)"
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={resubmitMutation.isPending}>
+                {resubmitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Resubmit
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { Badge } from "@/components/ui/badge";
+import { CommentUnread, DocumentReviewStatus } from "@shared/schema";
+import { AtSign, MessageSquare } from "lucide-react";
+import { AppointmentState, isAppointmentState, STATE_LABELS } from "@shared/workflow";
+
+const STATE_CLASSES: Record<AppointmentState, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  submitted: "bg-amber-100 text-amber-800",
+  needs_info: "bg-orange-100 text-orange-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  booked: "bg-blue-100 text-blue-800",
+  attended: "bg-teal-100 text-teal-800",
+  no_show: "bg-rose-100 text-rose-800",
+  cancelled: "bg-gray-200 text-gray-600",
+  completed: "bg-emerald-100 text-emerald-800",
+};
+
+export function OverdueBadge() {
+  return (
+    <Badge variant="outline" className="border-transparent bg-red-600 text-white">
+      Overdue
+    </Badge>
+  );
+}
+
+const DOCUMENT_STATUS_CLASSES: Record<DocumentReviewStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  verified: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+export function DocumentStatusBadge({ status }: { status: string }) {
+  const classes = DOCUMENT_STATUS_CLASSES[status as DocumentReviewStatus] ?? "";
+  return (
+    <Badge variant="outline" className={`border-transparent capitalize ${classes}`}>
+      {status}
+    </Badge>
+  );
+}
+
+export function UnreadCommentsBadge({ unread, mentioned }: Pick<CommentUnread, "unread" | "mentioned">) {
+  return (
+    <Badge
+      variant="outline"
+      className={`border-transparent ${mentioned ? "bg-blue-600 text-white" : "bg-blue-100 text-blue-800"}`}
+      title={mentioned ? "Unread comments mentioning you" : "Unread comments"}
+    >
+      {mentioned ? <AtSign className="mr-1 h-3 w-3" /> : <MessageSquare className="mr-1 h-3 w-3" />}
+      {unread}
+    </Badge>
+  );
+}
+
+export function StatusBadge({ status }: { status: string }) {
+  if (!isAppointmentState(status)) {
+    return <Badge variant="outline">{status}</Badge>;
+  }
+  return (
+    <Badge variant="outline" className={`border-transparent ${STATE_CLASSES[status]}`}>
+      {STATE_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,9 @@
+import { useQuery } from "@tanstack/react-query";
+import { User } from "@shared/schema";
+
+export function UserName({ id }: { id: number }) {
+  const { data: user } = useQuery<Pick<User, "id" | "username">>({
+    queryKey: [`/api/users/${id}`],
+  });
+  return <>{user?.username ?? `User #${id}`}</>;
+}
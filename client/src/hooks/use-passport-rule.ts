@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Client, PassportRule } from "@shared/schema";
+import { minValidityMonths, passportProblem } from "@shared/passport";
+
+type PassportFields = Pick<Client, "workplace" | "passportIssueDate" | "passportExpiryDate">;
+
+// A zod refinement for client forms that applies the admins' passport rules from today,
+// as the server does when the client is saved. Until the rules load only the defaults apply.
+export function usePassportRule() {
+  const { data: rules } = useQuery<PassportRule[]>({
+    queryKey: ["/api/passport-rules"],
+  });
+
+  return (client: PassportFields, ctx: z.RefinementCtx) => {
+    const today = new Date().toISOString().slice(0, 10);
+    const problem = passportProblem(client, minValidityMonths(rules ?? [], client.workplace), today, today);
+    if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem, path: ["passportExpiryDate"] });
+  };
+}
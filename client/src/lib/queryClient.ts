@@ -23,13 +23,29 @@ export async function apiRequest(
   return res;
 }
 
+// Query keys are [path] or [path, params]; params become the query string, so
+// invalidating [path] also refreshes every filtered or paginated variant of it
+function buildUrl(queryKey: readonly unknown[]): string {
+  const [path, params] = queryKey;
+  if (!params || typeof params !== "object") return path as string;
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== "") {
+      search.set(key, String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? `${path}?${query}` : (path as string);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(buildUrl(queryKey), {
       credentials: "include",
     });
 
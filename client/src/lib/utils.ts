@@ -4,3 +4,12 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Slot times are shown on the location's clock, wherever the viewer is
+export function formatSlot(slotStart: string | Date, timeZone?: string) {
+  return new Date(slotStart).toLocaleString(undefined, {
+    timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  })
+}
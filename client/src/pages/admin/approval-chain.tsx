@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { ApprovalStep, ApprovalStepInput, Team, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowLeft, ArrowUp, Loader2, Plus, Save, Trash2 } from "lucide-react";
+
+// "users" steps name who may sign; role steps accept anyone with the role
+type SignerMode = "approver" | "admin" | "users";
+
+function signerMode(step: ApprovalStepInput): SignerMode {
+  return step.userIds.length > 0 || step.role === null ? "users" : step.role;
+}
+
+const NEW_STEP: ApprovalStepInput = { name: "", role: "approver", userIds: [], requiredApprovals: 1 };
+
+export default function ApprovalChainPage() {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [steps, setSteps] = useState<ApprovalStepInput[]>([]);
+
+  const { data: teams } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+  const team = teams?.find((t) => t.id === Number(id));
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+  const signers = users?.filter((u) => u.role === "approver" || u.role === "admin") ?? [];
+
+  const { data: savedSteps, isLoading } = useQuery<ApprovalStep[]>({
+    queryKey: [`/api/teams/${id}/approval-steps`],
+    enabled: !!id,
+  });
+
+  useEffect(() => {
+    if (savedSteps) {
+      setSteps(savedSteps.map(({ name, role, userIds, requiredApprovals }) => ({
+        name,
+        role: role as ApprovalStepInput["role"],
+        userIds,
+        requiredApprovals,
+      })));
+    }
+  }, [savedSteps]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (steps: ApprovalStepInput[]) => {
+      const res = await apiRequest("PUT", `/api/teams/${id}/approval-steps`, { steps });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/teams/${id}/approval-steps`] });
+      toast({
+        title: "Success",
+        description: "Approval chain saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || user.role !== "admin") {
+    return <div>Unauthorized</div>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  const updateStep = (index: number, update: Partial<ApprovalStepInput>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...update } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const reordered = [...steps];
+    const [step] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, step);
+    setSteps(reordered);
+  };
+
+  const changeMode = (index: number, mode: SignerMode) => {
+    updateStep(index, mode === "users"
+      ? { role: null, userIds: [], requiredApprovals: 1 }
+      : { role: mode, userIds: [] });
+  };
+
+  const toggleUser = (index: number, userId: number, checked: boolean) => {
+    const step = steps[index];
+    const userIds = checked ? [...step.userIds, userId] : step.userIds.filter((u) => u !== userId);
+    updateStep(index, { userIds, requiredApprovals: Math.min(step.requiredApprovals, Math.max(userIds.length, 1)) });
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-3xl">
+      <Button
+        variant="ghost"
+        className="mb-6"
+        onClick={() => window.history.back()}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Approval Chain{team ? `: ${team.name}` : ""}</CardTitle>
+          <CardDescription>
+            Appointments go through these steps in order and are approved once the last step is signed off.
+            Without any steps, a single sign-off from any approver is enough.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {steps.map((step, index) => {
+            const mode = signerMode(step);
+            return (
+              <div key={index} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold text-muted-foreground">Step {index + 1}</span>
+                  <Input
+                    value={step.name}
+                    onChange={(e) => updateStep(index, { name: e.target.value })}
+                    placeholder="e.g. Document check"
+                  />
+                  <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setSteps(steps.filter((_, i) => i !== index))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid gap-3 md:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label>Signed by</Label>
+                    <Select value={mode} onValueChange={(value) => changeMode(index, value as SignerMode)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="approver">Any approver</SelectItem>
+                        <SelectItem value="admin">Any admin</SelectItem>
+                        <SelectItem value="users">Specific users</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Sign-offs required</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={mode === "users" ? Math.max(step.userIds.length, 1) : undefined}
+                      value={step.requiredApprovals}
+                      onChange={(e) => updateStep(index, { requiredApprovals: Math.max(1, Number(e.target.value) || 1) })}
+                    />
+                  </div>
+                </div>
+
+                {mode === "users" && (
+                  <div className="flex flex-wrap gap-4">
+                    {signers.map((signer) => (
+                      <div key={signer.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`step-${index}-user-${signer.id}`}
+                          checked={step.userIds.includes(signer.id)}
+                          onCheckedChange={(checked) => toggleUser(index, signer.id, checked === true)}
+                        />
+                        <Label htmlFor={`step-${index}-user-${signer.id}`}>{signer.username}</Label>
+                      </div>
+                    ))}
+                    {step.userIds.length > 0 && (
+                      <span className="text-sm text-muted-foreground">
+                        Any {step.requiredApprovals} of {step.userIds.length}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {steps.length === 0 && (
+            <p className="text-sm text-muted-foreground">No steps: any approver can approve on their own.</p>
+          )}
+
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={() => setSteps([...steps, NEW_STEP])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Step
+            </Button>
+            <Button
+              className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+              disabled={saveMutation.isPending}
+              onClick={() => saveMutation.mutate(steps)}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save Chain
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Client, ClientMerge, ClientSearchResult, DuplicateClient, DUPLICATE_FIELD_LABELS, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, GitMerge, Loader2, X } from "lucide-react";
+
+const COMPARED_FIELDS: { key: keyof Client; label: string }[] = [
+  { key: "fullName", label: "Full name" },
+  { key: "passportNumber", label: "Passport number" },
+  { key: "nationalId", label: "National ID" },
+  { key: "phoneNumber", label: "Phone number" },
+  { key: "email", label: "Email" },
+  { key: "workType", label: "Work type" },
+  { key: "workplace", label: "Workplace" },
+  { key: "gender", label: "Gender" },
+];
+
+type ClientPickerProps = {
+  title: string;
+  description: string;
+  selected: ClientSearchResult | null;
+  onSelect: (result: ClientSearchResult | null) => void;
+  excludeId?: number;
+};
+
+// Search box that settles on a single client
+function ClientPicker({ title, description, selected, onSelect, excludeId }: ClientPickerProps) {
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebounce(query.trim(), 300);
+
+  const { data: results, isFetching } = useQuery<ClientSearchResult[]>({
+    queryKey: ["/api/clients/search", { q: debouncedQuery }],
+    enabled: debouncedQuery.length >= 2,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {selected ? (
+          <div className="flex items-start justify-between">
+            <div>
+              <div className="font-medium">{selected.client.fullName}</div>
+              <div className="text-sm text-muted-foreground">
+                Client #{selected.client.id} · {selected.appointments.length} appointment(s)
+              </div>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => onSelect(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, passport, national ID or phone"
+            />
+            {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            {debouncedQuery.length >= 2 && results?.filter(({ client }) => client.id !== excludeId).map((result) => (
+              <button
+                key={result.client.id}
+                type="button"
+                className="w-full rounded border p-2 text-left hover:bg-muted"
+                onClick={() => {
+                  onSelect(result);
+                  setQuery("");
+                }}
+              >
+                <div className="font-medium">{result.client.fullName}</div>
+                <div className="text-xs text-muted-foreground">
+                  #{result.client.id} · Passport {result.client.passportNumber} · ID {result.client.nationalId}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ClientMergePage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [survivor, setSurvivor] = useState<ClientSearchResult | null>(null);
+  const [duplicate, setDuplicate] = useState<ClientSearchResult | null>(null);
+
+  // Clients sharing an identifier with the surviving record are the likely duplicates
+  const { data: suggestions } = useQuery<DuplicateClient[]>({
+    queryKey: ["/api/clients/duplicates", {
+      passportNumber: survivor?.client.passportNumber,
+      nationalId: survivor?.client.nationalId,
+      phoneNumber: survivor?.client.phoneNumber,
+    }],
+    enabled: Boolean(survivor),
+  });
+  const suggestedDuplicates = suggestions?.filter(({ client }) => client.id !== survivor?.client.id) ?? [];
+
+  const { data: merges, isLoading: mergesLoading } = useQuery<ClientMerge[]>({
+    queryKey: ["/api/clients/merges"],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivorId, mergedClientId }: { survivorId: number; mergedClientId: number }) => {
+      const res = await apiRequest("POST", "/api/clients/merges", { survivorId, mergedClientId });
+      return res.json();
+    },
+    onSuccess: (merge: ClientMerge) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients/merges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Success",
+        description: `Merged client #${merge.mergedClientId}; ${merge.appointmentIds.length} appointment(s) moved`,
+      });
+      setSurvivor(null);
+      setDuplicate(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || user.role !== "admin") {
+    return <div>Unauthorized</div>;
+  }
+
+  const selectSuggestion = async (client: Client) => {
+    const res = await apiRequest("GET", `/api/appointments?clientId=${client.id}&limit=100`);
+    const { items } = await res.json();
+    setDuplicate({ client, appointments: items });
+  };
+
+  const getUsername = (id: number) => users?.find((u) => u.id === id)?.username ?? `User #${id}`;
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl">
+      <Button
+        variant="ghost"
+        className="mb-6"
+        onClick={() => window.history.back()}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <ClientPicker
+          title="Keep"
+          description="The surviving client record. Its details are kept as they are."
+          selected={survivor}
+          onSelect={(result) => {
+            setSurvivor(result);
+            setDuplicate(null);
+          }}
+        />
+        <ClientPicker
+          title="Merge"
+          description="The duplicate. Its appointments move to the surviving record."
+          selected={duplicate}
+          onSelect={setDuplicate}
+          excludeId={survivor?.client.id}
+        />
+      </div>
+
+      {survivor && !duplicate && suggestedDuplicates.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Possible duplicates of {survivor.client.fullName}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {suggestedDuplicates.map(({ client, matchedOn }) => (
+              <div key={client.id} className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium">{client.fullName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    #{client.id} · Same {matchedOn.map((field) => DUPLICATE_FIELD_LABELS[field]).join(", ")}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => selectSuggestion(client)}>
+                  Select
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {survivor && duplicate && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Compare</CardTitle>
+            <CardDescription>Differences are highlighted. Only the surviving record's values are kept.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-2"></th>
+                  <th className="py-2">Keep (#{survivor.client.id})</th>
+                  <th className="py-2">Merge (#{duplicate.client.id})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARED_FIELDS.map(({ key, label }) => {
+                  const differs = survivor.client[key] !== duplicate.client[key];
+                  return (
+                    <tr key={key} className={differs ? "bg-amber-50" : ""}>
+                      <td className="py-1 font-medium">{label}</td>
+                      <td className="py-1">{String(survivor.client[key] ?? "")}</td>
+                      <td className="py-1">{String(duplicate.client[key] ?? "")}</td>
+                    </tr>
+                  );
+                })}
+                <tr>
+                  <td className="py-1 font-medium">Appointments</td>
+                  <td className="py-1">{survivor.appointments.length}</td>
+                  <td className="py-1">{duplicate.appointments.length}</td>
+                </tr>
+              </tbody>
+            </table>
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  className="mt-6 w-full bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+                  disabled={mergeMutation.isPending}
+                >
+                  <GitMerge className="mr-2 h-4 w-4" />
+                  Merge Clients
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Merge {duplicate.client.fullName} into {survivor.client.fullName}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {duplicate.appointments.length} appointment(s) will move to client #{survivor.client.id}, and
+                    client #{duplicate.client.id} will no longer appear in lists or search. The merge is recorded in
+                    the history below.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => mergeMutation.mutate({
+                      survivorId: survivor.client.id,
+                      mergedClientId: duplicate.client.id,
+                    })}
+                  >
+                    Merge
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Merge History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {mergesLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-border" />
+          ) : merges && merges.length > 0 ? (
+            <div className="space-y-2">
+              {merges.map((merge) => (
+                <div key={merge.id} className="text-sm border-b last:border-b-0 pb-2">
+                  <div>
+                    <span className="font-medium">{merge.mergedClient.fullName}</span> (#{merge.mergedClientId}) merged
+                    into client #{merge.survivorId}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {getUsername(merge.mergedBy)} · {new Date(merge.mergedAt).toLocaleString()} · {merge.appointmentIds.length} appointment(s) moved
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No clients have been merged yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  DocumentRequirement,
+  DocumentRequirementUpdate,
+  DocumentType,
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  GCC_COUNTRY_OPTIONS,
+  InsertDocumentRequirement,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Loader2, Plus, Trash2 } from "lucide-react";
+
+// Select items cannot have an empty value, so "any" stands for a null column
+const ANY = "any";
+
+function orAny(value: string | null) {
+  return value ?? "Any";
+}
+
+export default function DocumentRequirementsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [documentType, setDocumentType] = useState<DocumentType>("medical_report");
+  const [workplace, setWorkplace] = useState(ANY);
+  const [workType, setWorkType] = useState("");
+  const [gender, setGender] = useState(ANY);
+  const [mandatory, setMandatory] = useState(true);
+  const [note, setNote] = useState("");
+
+  const { data: requirements, isLoading } = useQuery<DocumentRequirement[]>({
+    queryKey: ["/api/document-requirements"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (requirement: InsertDocumentRequirement) => {
+      const res = await apiRequest("POST", "/api/document-requirements", requirement);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/document-requirements"] });
+      toast({
+        title: "Success",
+        description: "Requirement added",
+      });
+      setWorkType("");
+      setNote("");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...update }: DocumentRequirementUpdate & { id: number }) => {
+      const res = await apiRequest("PATCH", `/api/document-requirements/${id}`, update);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/document-requirements"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/document-requirements/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/document-requirements"] });
+    },
+    onError,
+  });
+
+  if (!user || user.role !== "admin") {
+    return <div>Unauthorized</div>;
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl">
+      <Button
+        variant="ghost"
+        className="mb-6"
+        onClick={() => window.history.back()}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Document Requirement</CardTitle>
+          <CardDescription>
+            Each appointment gets a checklist of the documents its client needs. Leave a field on "Any" to
+            require the document from every client.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate({
+                documentType,
+                workplace: workplace === ANY ? null : workplace as InsertDocumentRequirement["workplace"],
+                workType: workType.trim() || null,
+                gender: gender === ANY ? null : gender as InsertDocumentRequirement["gender"],
+                mandatory,
+                note: note.trim() || null,
+              });
+            }}
+          >
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Document</Label>
+                <Select value={documentType} onValueChange={(value) => setDocumentType(value as DocumentType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DOCUMENT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{DOCUMENT_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Workplace</Label>
+                <Select value={workplace} onValueChange={setWorkplace}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {GCC_COUNTRY_OPTIONS.map((country) => (
+                      <SelectItem key={country} value={country}>{country}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="requirement-work-type">Work Type</Label>
+                <Input
+                  id="requirement-work-type"
+                  value={workType}
+                  onChange={(e) => setWorkType(e.target.value)}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Gender</Label>
+                <Select value={gender} onValueChange={setGender}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    <SelectItem value="male">Male</SelectItem>
+                    <SelectItem value="female">Female</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="requirement-note">Note (optional)</Label>
+                <Input
+                  id="requirement-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g. Attested by the embassy"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="requirement-mandatory" checked={mandatory} onCheckedChange={setMandatory} />
+              <Label htmlFor="requirement-mandatory">Required before approval</Label>
+            </div>
+            <Button
+              type="submit"
+              className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+              disabled={createMutation.isPending}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Document Requirements</CardTitle>
+          <CardDescription>
+            Checklists follow these rows as they are now, so changes apply to open appointments too.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-border" />
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-2">Document</th>
+                  <th className="py-2">Workplace</th>
+                  <th className="py-2">Work Type</th>
+                  <th className="py-2">Gender</th>
+                  <th className="py-2">Note</th>
+                  <th className="py-2">Required</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {requirements?.map((requirement) => (
+                  <tr key={requirement.id}>
+                    <td className="py-2">{DOCUMENT_TYPE_LABELS[requirement.documentType as DocumentType] ?? requirement.documentType}</td>
+                    <td className="py-2">{orAny(requirement.workplace)}</td>
+                    <td className="py-2">{orAny(requirement.workType)}</td>
+                    <td className="py-2 capitalize">{orAny(requirement.gender)}</td>
+                    <td className="py-2 text-muted-foreground">{requirement.note}</td>
+                    <td className="py-2">
+                      <Switch
+                        checked={requirement.mandatory}
+                        disabled={updateMutation.isPending}
+                        onCheckedChange={(mandatory) => updateMutation.mutate({ id: requirement.id, mandatory })}
+                      />
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(requirement.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {requirements?.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="py-2 text-muted-foreground">
+                      No requirements yet, so appointments can be approved without documents.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
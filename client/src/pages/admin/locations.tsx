@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { BlackoutDate, InsertBlackoutDate, InsertLocation, Location } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Loader2, Plus, Trash2 } from "lucide-react";
+
+const LOCATIONS_KEY = ["/api/locations", { includeInactive: "true" }];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const NEW_LOCATION: InsertLocation = {
+  name: "",
+  address: "",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  openTime: "09:00",
+  closeTime: "17:00",
+  slotMinutes: 30,
+  slotCapacity: 1,
+  dailyCapacity: 16,
+  workingDays: [0, 1, 2, 3, 4],
+  active: true,
+};
+
+export default function LocationsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [location, setLocation] = useState<InsertLocation>(NEW_LOCATION);
+  const [blackoutDate, setBlackoutDate] = useState("");
+  const [blackoutReason, setBlackoutReason] = useState("");
+  // "all" closes every location on the date
+  const [blackoutLocation, setBlackoutLocation] = useState("all");
+
+  const { data: locations, isLoading } = useQuery<Location[]>({
+    queryKey: LOCATIONS_KEY,
+  });
+
+  const { data: blackouts } = useQuery<BlackoutDate[]>({
+    queryKey: ["/api/blackout-dates"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (location: InsertLocation) => {
+      const res = await apiRequest("POST", "/api/locations", location);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Success",
+        description: "Location added",
+      });
+      setLocation(NEW_LOCATION);
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...update }: Partial<InsertLocation> & { id: number }) => {
+      const res = await apiRequest("PATCH", `/api/locations/${id}`, update);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+    },
+    onError,
+  });
+
+  const createBlackoutMutation = useMutation({
+    mutationFn: async (blackout: InsertBlackoutDate) => {
+      const res = await apiRequest("POST", "/api/blackout-dates", blackout);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blackout-dates"] });
+      setBlackoutDate("");
+      setBlackoutReason("");
+    },
+    onError,
+  });
+
+  const deleteBlackoutMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/blackout-dates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blackout-dates"] });
+    },
+    onError,
+  });
+
+  if (!user || user.role !== "admin") {
+    return <div>Unauthorized</div>;
+  }
+
+  const updateNew = (update: Partial<InsertLocation>) => setLocation({ ...location, ...update });
+  const locationName = (id: number | null) =>
+    id === null ? "All locations" : locations?.find((l) => l.id === id)?.name ?? `Location #${id}`;
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <Button
+        variant="ghost"
+        className="mb-6"
+        onClick={() => window.history.back()}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Location</CardTitle>
+          <CardDescription>
+            Opening hours are split into slots of equal length. Each slot takes up to the slot capacity,
+            and the day as a whole takes up to the daily capacity.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate(location);
+            }}
+          >
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="location-name">Name</Label>
+                <Input id="location-name" value={location.name} onChange={(e) => updateNew({ name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location-address">Address</Label>
+                <Input id="location-address" value={location.address ?? ""} onChange={(e) => updateNew({ address: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location-timezone">Time zone</Label>
+                <Input
+                  id="location-timezone"
+                  value={location.timezone}
+                  onChange={(e) => updateNew({ timezone: e.target.value })}
+                  placeholder="e.g. Asia/Dubai"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="location-open">Opens</Label>
+                  <Input id="location-open" type="time" value={location.openTime} onChange={(e) => updateNew({ openTime: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="location-close">Closes</Label>
+                  <Input id="location-close" type="time" value={location.closeTime} onChange={(e) => updateNew({ closeTime: e.target.value })} />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2 md:col-span-2">
+                <div className="space-y-2">
+                  <Label htmlFor="location-slot-minutes">Slot length (minutes)</Label>
+                  <Input
+                    id="location-slot-minutes"
+                    type="number"
+                    min={5}
+                    value={location.slotMinutes}
+                    onChange={(e) => updateNew({ slotMinutes: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="location-slot-capacity">Per slot</Label>
+                  <Input
+                    id="location-slot-capacity"
+                    type="number"
+                    min={1}
+                    value={location.slotCapacity}
+                    onChange={(e) => updateNew({ slotCapacity: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="location-daily-capacity">Per day</Label>
+                  <Input
+                    id="location-daily-capacity"
+                    type="number"
+                    min={1}
+                    value={location.dailyCapacity}
+                    onChange={(e) => updateNew({ dailyCapacity: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {WEEKDAYS.map((day, index) => (
+                <div key={day} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`new-day-${index}`}
+                    checked={location.workingDays.includes(index)}
+                    onCheckedChange={(checked) => updateNew({
+                      workingDays: checked === true
+                        ? [...location.workingDays, index].sort()
+                        : location.workingDays.filter((d) => d !== index),
+                    })}
+                  />
+                  <Label htmlFor={`new-day-${index}`}>{day}</Label>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="submit"
+              className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+              disabled={createMutation.isPending || !location.name.trim()}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Locations</CardTitle>
+          <CardDescription>
+            Deactivate a location to stop new bookings there. Existing bookings are kept.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-border" />
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-2">Name</th>
+                  <th className="py-2">Hours</th>
+                  <th className="py-2">Days</th>
+                  <th className="py-2">Slot</th>
+                  <th className="py-2">Per day</th>
+                  <th className="py-2">Active</th>
+                </tr>
+              </thead>
+              <tbody>
+                {locations?.map((l) => (
+                  <tr key={l.id} className={l.active ? "" : "text-muted-foreground"}>
+                    <td className="py-2">
+                      <div>{l.name}</div>
+                      <div className="text-xs text-muted-foreground">{l.timezone}</div>
+                    </td>
+                    <td className="py-2">{l.openTime}–{l.closeTime}</td>
+                    <td className="py-2">{l.workingDays.map((d) => WEEKDAYS[d]).join(", ")}</td>
+                    <td className="py-2">{l.slotMinutes} min × {l.slotCapacity}</td>
+                    <td className="py-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-20"
+                        defaultValue={l.dailyCapacity}
+                        disabled={updateMutation.isPending}
+                        onBlur={(e) => {
+                          const dailyCapacity = Number(e.target.value);
+                          if (dailyCapacity !== l.dailyCapacity) updateMutation.mutate({ id: l.id, dailyCapacity });
+                        }}
+                      />
+                    </td>
+                    <td className="py-2">
+                      <Switch
+                        checked={l.active}
+                        disabled={updateMutation.isPending}
+                        onCheckedChange={(active) => updateMutation.mutate({ id: l.id, active })}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Blackout Dates</CardTitle>
+          <CardDescription>
+            Holidays and closures. No new bookings are taken on these dates; appointments already booked keep their slots.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="grid gap-2 md:grid-cols-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createBlackoutMutation.mutate({
+                locationId: blackoutLocation === "all" ? null : Number(blackoutLocation),
+                date: blackoutDate,
+                reason: blackoutReason.trim(),
+              });
+            }}
+          >
+            <Input type="date" value={blackoutDate} onChange={(e) => setBlackoutDate(e.target.value)} />
+            <Select value={blackoutLocation} onValueChange={setBlackoutLocation}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All locations</SelectItem>
+                {locations?.map((l) => (
+                  <SelectItem key={l.id} value={String(l.id)}>
+                    {l.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input value={blackoutReason} onChange={(e) => setBlackoutReason(e.target.value)} placeholder="e.g. National Day" />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={createBlackoutMutation.isPending || !blackoutDate || !blackoutReason.trim()}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Blackout
+            </Button>
+          </form>
+
+          {blackouts?.map((blackout) => (
+            <div key={blackout.id} className="flex items-center justify-between text-sm border rounded-lg p-2">
+              <span>
+                {blackout.date} · {locationName(blackout.locationId)} · {blackout.reason}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={deleteBlackoutMutation.isPending}
+                onClick={() => deleteBlackoutMutation.mutate(blackout.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {blackouts?.length === 0 && (
+            <p className="text-sm text-muted-foreground">No blackout dates.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { GCC_COUNTRY_OPTIONS, PassportRule, PassportRuleInput } from "@shared/schema";
+import { DEFAULT_MIN_VALIDITY_MONTHS } from "@shared/passport";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Loader2, Plus, Save, Trash2 } from "lucide-react";
+
+export default function PassportRulesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<PassportRuleInput[]>([]);
+
+  const { data: savedRules, isLoading } = useQuery<PassportRule[]>({
+    queryKey: ["/api/passport-rules"],
+  });
+
+  useEffect(() => {
+    if (savedRules) {
+      // The default rule always has a row here, even before it is first saved
+      const inputs = savedRules.map(({ workplace, minValidityMonths }) => ({
+        workplace: workplace as PassportRuleInput["workplace"],
+        minValidityMonths,
+      }));
+      if (!inputs.some((rule) => rule.workplace === null)) {
+        inputs.unshift({ workplace: null, minValidityMonths: DEFAULT_MIN_VALIDITY_MONTHS });
+      }
+      setRules(inputs);
+    }
+  }, [savedRules]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (rules: PassportRuleInput[]) => {
+      const res = await apiRequest("PUT", "/api/passport-rules", { rules });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/passport-rules"] });
+      toast({
+        title: "Success",
+        description: "Passport rules saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || user.role !== "admin") {
+    return <div>Unauthorized</div>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  const unusedWorkplaces = GCC_COUNTRY_OPTIONS.filter((workplace) => !rules.some((rule) => rule.workplace === workplace));
+
+  const updateRule = (index: number, minValidityMonths: number) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, minValidityMonths } : rule)));
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-3xl">
+      <Button
+        variant="ghost"
+        className="mb-6"
+        onClick={() => window.history.back()}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Passport Rules</CardTitle>
+          <CardDescription>
+            How many months a client's passport must stay valid. New clients are checked from the day they are
+            entered and bookings from the day of the slot. With 0 months the passport only has to be valid on that day.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rules.map((rule, index) => (
+            <div key={rule.workplace ?? "default"} className="flex items-center gap-2">
+              <span className="w-48 text-sm font-medium">{rule.workplace ?? "All other workplaces"}</span>
+              <Input
+                type="number"
+                min={0}
+                max={60}
+                className="w-28"
+                value={rule.minValidityMonths}
+                onChange={(e) => updateRule(index, Math.min(60, Math.max(0, Number(e.target.value) || 0)))}
+              />
+              <span className="text-sm text-muted-foreground">months</span>
+              {rule.workplace !== null && (
+                <Button variant="ghost" size="sm" onClick={() => setRules(rules.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+
+          <div className="flex justify-between">
+            <Select
+              value=""
+              onValueChange={(workplace) => setRules([
+                ...rules,
+                { workplace: workplace as PassportRuleInput["workplace"], minValidityMonths: DEFAULT_MIN_VALIDITY_MONTHS },
+              ])}
+              disabled={unusedWorkplaces.length === 0}
+            >
+              <SelectTrigger className="w-56">
+                <Plus className="mr-2 h-4 w-4" />
+                <SelectValue placeholder="Add a workplace" />
+              </SelectTrigger>
+              <SelectContent>
+                {unusedWorkplaces.map((workplace) => (
+                  <SelectItem key={workplace} value={workplace}>
+                    {workplace}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+              disabled={saveMutation.isPending}
+              onClick={() => saveMutation.mutate(rules)}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save Rules
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { InsertReasonCode, ReasonCode } from "@shared/schema";
+import { REASON_CODE_STATES, ReasonCodeState, STATE_LABELS } from "@shared/workflow";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ArrowLeft, Loader2, Plus } from "lucide-react";
+
+const REASON_CODES_KEY = ["/api/reason-codes", { includeInactive: "true" }];
+
+export default function ReasonCodesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [label, setLabel] = useState("");
+  const [states, setStates] = useState<ReasonCodeState[]>([]);
+
+  const { data: reasonCodes, isLoading } = useQuery<ReasonCode[]>({
+    queryKey: REASON_CODES_KEY,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (reasonCode: InsertReasonCode) => {
+      const res = await apiRequest("POST", "/api/reason-codes", reasonCode);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reason-codes"] });
+      toast({
+        title: "Success",
+        description: "Reason code added",
+      });
+      setCode("");
+      setLabel("");
+      setStates([]);
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...update }: Partial<InsertReasonCode> & { id: number }) => {
+      const res = await apiRequest("PATCH", `/api/reason-codes/${id}`, update);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reason-codes"] });
+    },
+    onError,
+  });
+
+  if (!user || user.role !== "admin") {
+    return <div>Unauthorized</div>;
+  }
+
+  const toggleState = (current: ReasonCodeState[], state: ReasonCodeState, checked: boolean) =>
+    checked ? [...current, state] : current.filter((s) => s !== state);
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <Button
+        variant="ghost"
+        className="mb-6"
+        onClick={() => window.history.back()}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Reason Code</CardTitle>
+          <CardDescription>
+            Approvers pick one of these when they reject an appointment or return it to the collector.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate({ code: code.trim(), label: label.trim(), states });
+            }}
+          >
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="reason-code">Code</Label>
+                <Input
+                  id="reason-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="e.g. blurry_passport_scan"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reason-label">Label</Label>
+                <Input
+                  id="reason-label"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="e.g. Passport scan is blurry or unreadable"
+                />
+              </div>
+            </div>
+            <div className="flex gap-6">
+              {REASON_CODE_STATES.map((state) => (
+                <div key={state} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`new-${state}`}
+                    checked={states.includes(state)}
+                    onCheckedChange={(checked) => setStates(toggleState(states, state, checked === true))}
+                  />
+                  <Label htmlFor={`new-${state}`}>{STATE_LABELS[state]}</Label>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="submit"
+              className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+              disabled={createMutation.isPending || !code.trim() || !label.trim() || states.length === 0}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Reason Codes</CardTitle>
+          <CardDescription>
+            Codes cannot be deleted because past decisions refer to them. Deactivate a code to stop it being offered.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-border" />
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-2">Label</th>
+                  <th className="py-2">Code</th>
+                  {REASON_CODE_STATES.map((state) => (
+                    <th key={state} className="py-2">{STATE_LABELS[state]}</th>
+                  ))}
+                  <th className="py-2">Active</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reasonCodes?.map((reasonCode) => (
+                  <tr key={reasonCode.id} className={reasonCode.active ? "" : "text-muted-foreground"}>
+                    <td className="py-2">{reasonCode.label}</td>
+                    <td className="py-2 font-mono text-xs">{reasonCode.code}</td>
+                    {REASON_CODE_STATES.map((state) => (
+                      <td key={state} className="py-2">
+                        <Checkbox
+                          checked={reasonCode.states.includes(state)}
+                          disabled={updateMutation.isPending}
+                          onCheckedChange={(checked) => {
+                            const updated = toggleState(reasonCode.states, state, checked === true);
+                            if (updated.length > 0) updateMutation.mutate({ id: reasonCode.id, states: updated });
+                          }}
+                        />
+                      </td>
+                    ))}
+                    <td className="py-2">
+                      <Switch
+                        checked={reasonCode.active}
+                        disabled={updateMutation.isPending}
+                        onCheckedChange={(active) => updateMutation.mutate({ id: reasonCode.id, active })}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { SlaPolicy, SlaPolicyInput, Team, User } from "@shared/schema";
+import { SLA_STATES, STATE_LABELS } from "@shared/workflow";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Loader2, Plus, Save, Trash2 } from "lucide-react";
+
+export default function SlaPoliciesPage() {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [policies, setPolicies] = useState<SlaPolicyInput[]>([]);
+
+  const { data: teams } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+  const team = teams?.find((t) => t.id === Number(id));
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+  // Escalations go to an approver in the team or to an admin
+  const leads = users?.filter((u) => u.role === "admin" || (u.role === "approver" && u.teamId === Number(id))) ?? [];
+
+  const { data: savedPolicies, isLoading } = useQuery<SlaPolicy[]>({
+    queryKey: [`/api/teams/${id}/sla-policies`],
+    enabled: !!id,
+  });
+
+  useEffect(() => {
+    if (savedPolicies) {
+      setPolicies(savedPolicies.map(({ status, hours }) => ({ status: status as SlaPolicyInput["status"], hours })));
+    }
+  }, [savedPolicies]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (policies: SlaPolicyInput[]) => {
+      const res = await apiRequest("PUT", `/api/teams/${id}/sla-policies`, { policies });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/teams/${id}/sla-policies`] });
+      toast({
+        title: "Success",
+        description: "SLAs saved",
+      });
+    },
+    onError,
+  });
+
+  const leadMutation = useMutation({
+    mutationFn: async (leadId: number | null) => {
+      const res = await apiRequest("PATCH", `/api/teams/${id}`, { leadId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+    },
+    onError,
+  });
+
+  if (!user || user.role !== "admin") {
+    return <div>Unauthorized</div>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  const unusedStates = SLA_STATES.filter((state) => !policies.some((policy) => policy.status === state));
+
+  const updatePolicy = (index: number, update: Partial<SlaPolicyInput>) => {
+    setPolicies(policies.map((policy, i) => (i === index ? { ...policy, ...update } : policy)));
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-3xl">
+      <Button
+        variant="ghost"
+        className="mb-6"
+        onClick={() => window.history.back()}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>SLAs{team ? `: ${team.name}` : ""}</CardTitle>
+          <CardDescription>
+            How long the team's appointments may stay in each status, counted from when they entered it.
+            Overdue appointments are escalated once per stay.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <Label>Escalate to</Label>
+            <Select
+              value={team?.leadId ? String(team.leadId) : "admins"}
+              onValueChange={(value) => leadMutation.mutate(value === "admins" ? null : Number(value))}
+              disabled={leadMutation.isPending}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="admins">All admins</SelectItem>
+                {leads.map((lead) => (
+                  <SelectItem key={lead.id} value={String(lead.id)}>
+                    {lead.username} ({lead.role})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {policies.map((policy, index) => (
+            <div key={policy.status} className="flex items-center gap-2">
+              <span className="w-40 text-sm font-medium">{STATE_LABELS[policy.status]}</span>
+              <Input
+                type="number"
+                min={1}
+                className="w-28"
+                value={policy.hours}
+                onChange={(e) => updatePolicy(index, { hours: Math.max(1, Number(e.target.value) || 1) })}
+              />
+              <span className="text-sm text-muted-foreground">hours</span>
+              <Button variant="ghost" size="sm" onClick={() => setPolicies(policies.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          {policies.length === 0 && (
+            <p className="text-sm text-muted-foreground">No SLAs: appointments can stay in any status indefinitely.</p>
+          )}
+
+          <div className="flex justify-between">
+            <Select
+              value=""
+              onValueChange={(status) => setPolicies([...policies, { status: status as SlaPolicyInput["status"], hours: 24 }])}
+              disabled={unusedStates.length === 0}
+            >
+              <SelectTrigger className="w-56">
+                <Plus className="mr-2 h-4 w-4" />
+                <SelectValue placeholder="Add a status" />
+              </SelectTrigger>
+              <SelectContent>
+                {unusedStates.map((state) => (
+                  <SelectItem key={state} value={state}>
+                    {STATE_LABELS[state]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+              disabled={saveMutation.isPending}
+              onClick={() => saveMutation.mutate(policies)}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save SLAs
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
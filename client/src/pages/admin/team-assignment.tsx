@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Appointment, AssignmentLoad, AssignmentMode, ASSIGNMENT_MODES, Team, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Loader2, Shuffle } from "lucide-react";
+
+const MODE_LABELS: Record<AssignmentMode, string> = {
+  manual: "Manual: approvers claim, admins assign",
+  round_robin: "Round-robin",
+  least_loaded: "Least loaded",
+};
+
+export default function TeamAssignmentPage() {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [absentUserIds, setAbsentUserIds] = useState<number[]>([]);
+
+  const { data: teams } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+  const team = teams?.find((t) => t.id === Number(id));
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+  const username = (userId: number) => users?.find((u) => u.id === userId)?.username ?? `User #${userId}`;
+
+  const { data: loads, isLoading } = useQuery<AssignmentLoad[]>({
+    queryKey: [`/api/teams/${id}/assignments`],
+    enabled: !!id,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const modeMutation = useMutation({
+    mutationFn: async (assignmentMode: AssignmentMode) => {
+      const res = await apiRequest("PATCH", `/api/teams/${id}`, { assignmentMode });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+    },
+    onError,
+  });
+
+  const rebalanceMutation = useMutation({
+    mutationFn: async (absentUserIds: number[]) => {
+      const res = await apiRequest("POST", `/api/teams/${id}/rebalance`, { absentUserIds });
+      return res.json() as Promise<Appointment[]>;
+    },
+    onSuccess: (moved) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/teams/${id}/assignments`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Success",
+        description: `${moved.length} appointment${moved.length === 1 ? "" : "s"} reassigned`,
+      });
+      setAbsentUserIds([]);
+    },
+    onError,
+  });
+
+  if (!user || user.role !== "admin") {
+    return <div>Unauthorized</div>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  const toggleAbsent = (userId: number, checked: boolean) => {
+    setAbsentUserIds(checked ? [...absentUserIds, userId] : absentUserIds.filter((u) => u !== userId));
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-3xl">
+      <Button
+        variant="ghost"
+        className="mb-6"
+        onClick={() => window.history.back()}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Assignment{team ? `: ${team.name}` : ""}</CardTitle>
+          <CardDescription>
+            How appointments waiting for review or booking are handed to the team's approvers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          <Label>Assign new appointments</Label>
+          <Select
+            value={team?.assignmentMode ?? "manual"}
+            onValueChange={(value) => modeMutation.mutate(value as AssignmentMode)}
+            disabled={modeMutation.isPending}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ASSIGNMENT_MODES.map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Queues</CardTitle>
+          <CardDescription>
+            Mark approvers who are away and rebalance to hand their queued appointments to the rest of the team.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-2">Approver</th>
+                <th className="py-2">Queued</th>
+                <th className="py-2">Away</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loads?.map((load) => (
+                <tr key={load.userId}>
+                  <td className="py-2">{username(load.userId)}</td>
+                  <td className="py-2">{load.assigned}</td>
+                  <td className="py-2">
+                    <Checkbox
+                      checked={absentUserIds.includes(load.userId)}
+                      onCheckedChange={(checked) => toggleAbsent(load.userId, checked === true)}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {loads?.length === 0 && (
+            <p className="text-sm text-muted-foreground">The team has no approvers.</p>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              disabled={rebalanceMutation.isPending || absentUserIds.length === 0}
+              onClick={() => rebalanceMutation.mutate(absentUserIds)}
+            >
+              <Shuffle className="mr-2 h-4 w-4" />
+              Rebalance
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
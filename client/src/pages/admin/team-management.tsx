@@ -1,4 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Team, User } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -33,7 +34,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
-import { ArrowLeft, Loader2, UserPlus, Users } from "lucide-react";
+import { ArrowLeft, Inbox, ListOrdered, Loader2, Timer, UserPlus, Users } from "lucide-react";
 
 export default function TeamManagement() {
   const { user } = useAuth();
@@ -227,7 +228,29 @@ export default function TeamManagement() {
           {teams?.map((team) => (
             <Card key={team.id} data-id={team.id}>
               <CardHeader>
-                <CardTitle>{team.name}</CardTitle>
+                <CardTitle className="flex items-center justify-between">
+                  {team.name}
+                  <div className="flex gap-2">
+                    <Link href={`/admin/teams/${team.id}/approvals`}>
+                      <Button variant="outline" size="sm">
+                        <ListOrdered className="mr-2 h-4 w-4" />
+                        Approval Chain
+                      </Button>
+                    </Link>
+                    <Link href={`/admin/teams/${team.id}/sla`}>
+                      <Button variant="outline" size="sm">
+                        <Timer className="mr-2 h-4 w-4" />
+                        SLAs
+                      </Button>
+                    </Link>
+                    <Link href={`/admin/teams/${team.id}/assignment`}>
+                      <Button variant="outline" size="sm">
+                        <Inbox className="mr-2 h-4 w-4" />
+                        Assignment
+                      </Button>
+                    </Link>
+                  </div>
+                </CardTitle>
                 <CardDescription>{team.description}</CardDescription>
               </CardHeader>
               <CardContent>
@@ -239,7 +262,7 @@ export default function TeamManagement() {
                     >
                       <div className="font-medium">{member.username}</div>
                       <div className="text-sm text-muted-foreground capitalize">
-                        {member.role}
+                        {member.role}{member.id === team.leadId && " · team lead"}
                       </div>
                     </div>
                   ))}
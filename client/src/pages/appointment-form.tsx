@@ -1,10 +1,18 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
 import { useLocation } from "wouter";
-import { insertClientSchema, insertAppointmentSchema } from "@shared/schema";
+import { insertClientSchema, clientProfileSchema, insertAppointmentSchema, Attachment, Client, DuplicateClient, DUPLICATE_FIELD_LABELS } from "@shared/schema";
+import { DEFAULT_PHONE_COUNTRY, formatPhone, normalizePhone, phoneProblem, PhoneCountry } from "@shared/phone";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { useDebounce } from "@/hooks/use-debounce";
+import { usePassportRule } from "@/hooks/use-passport-rule";
+import { MrzReader } from "@/components/MrzReader";
+import { ClientProfileFields } from "@/components/ClientProfileFields";
+import { PhoneCountrySelect } from "@/components/PhoneCountrySelect";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -23,36 +31,86 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, UserCheck } from "lucide-react";
 
 // Assume GCC_COUNTRY_OPTIONS is defined here, e.g.,
 const GCC_COUNTRY_OPTIONS = ["UAE", "Saudi Arabia", "Oman", "Kuwait", "Bahrain", "Qatar", "Other"];
 
+// Shorter values match too many unrelated clients to be worth checking
+const MIN_IDENTIFIER_LENGTH = 5;
+
+// The phone number is typed as dialled in the chosen country and sent in E.164
+const phoneRule = (values: { phoneNumber: string; phoneCountry: PhoneCountry }, ctx: z.RefinementCtx) => {
+  const problem = phoneProblem(values.phoneNumber, values.phoneCountry);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem, path: ["phoneNumber"] });
+};
 
 export default function AppointmentForm() {
   const [, setLocation] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
+  const [existingClient, setExistingClient] = useState<Client | null>(null);
+  const passportRule = usePassportRule();
 
   const form = useForm({
-    resolver: zodResolver(insertClientSchema),
+    // The passport image is uploaded separately and linked by attachment ID on submit
+    resolver: zodResolver(
+      insertClientSchema
+        .omit({ passportAttachmentId: true })
+        .merge(clientProfileSchema)
+        .extend({ phoneNumber: z.string(), phoneCountry: z.custom<PhoneCountry>() })
+        .superRefine(passportRule)
+        .superRefine(phoneRule),
+    ),
     defaultValues: {
       passportNumber: '',
       fullName: '',
       phoneNumber: '',
+      phoneCountry: DEFAULT_PHONE_COUNTRY,
       email: '',
       nationalId: '',
+      passportIssueDate: '',
+      passportExpiryDate: '',
+      passportIssuingCountry: '',
+      dateOfBirth: '',
+      nationality: '',
       workType: '',
       workplace: '',
       gender: '',
       passportImage: null,
+      maritalStatus: null,
+      address: '',
+      emergencyContactName: '',
+      emergencyContactRelationship: '',
+      emergencyContactPhone: '',
+      languages: [],
+      education: [],
+      workExperience: [],
+      skills: [],
     },
   });
 
+  // Look for clients with the same identifiers while the collector types
+  const passportNumber = useDebounce(form.watch("passportNumber").trim(), 500);
+  const nationalId = useDebounce(form.watch("nationalId").trim(), 500);
+  const phoneNumber = useDebounce(normalizePhone(form.watch("phoneNumber"), form.watch("phoneCountry")), 500);
+  const duplicateQuery = {
+    passportNumber: passportNumber.length >= MIN_IDENTIFIER_LENGTH ? passportNumber : undefined,
+    nationalId: nationalId.length >= MIN_IDENTIFIER_LENGTH ? nationalId : undefined,
+    phoneNumber: phoneNumber ?? undefined,
+  };
+  const { data: duplicates } = useQuery<DuplicateClient[]>({
+    queryKey: ["/api/clients/duplicates", duplicateQuery],
+    enabled: Boolean(duplicateQuery.passportNumber || duplicateQuery.nationalId || duplicateQuery.phoneNumber),
+  });
+
   const createClientMutation = useMutation({
     mutationFn: async (data: any) => {
-      const res = await apiRequest("POST", "/api/clients", data);
+      // The collector has seen the possible matches and chose to create a new client
+      const url = duplicates?.length ? "/api/clients?allowDuplicate=true" : "/api/clients";
+      const res = await apiRequest("POST", url, data);
       return res.json();
     },
   });
@@ -83,13 +141,21 @@ export default function AppointmentForm() {
     return true;
   };
 
-  const convertFileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
+  const uploadPassportImage = async (file: File): Promise<Attachment> => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const res = await fetch('/api/attachments', {
+      method: 'POST',
+      body: formData,
+      credentials: 'include'
     });
+
+    if (!res.ok) {
+      throw new Error(await res.text());
+    }
+
+    return res.json();
   };
 
   const onSubmit = async (values: any) => {
@@ -109,25 +175,42 @@ export default function AppointmentForm() {
       // Validate the file
       validateImageFile(file);
 
-      // Convert image file to base64
-      const base64Image = await convertFileToBase64(file);
+      // Upload the image; the server strips metadata and generates previews
+      const passportAttachment = await uploadPassportImage(file);
 
-      // Create client with base64 image
+      // Create client referencing the uploaded image
+      const { phoneCountry, ...fields } = values;
       const clientData = {
-        ...values,
-        passportImage: base64Image,
+        ...fields,
+        phoneNumber: normalizePhone(values.phoneNumber, phoneCountry),
+        passportAttachmentId: passportAttachment.id,
       };
 
       const client = await createClientMutation.mutateAsync(clientData);
 
-      // Create appointment
-      await createAppointmentMutation.mutateAsync({
-        clientId: client.id,
-        status: "pending",
-        collectedBy: user!.id,
-        bookingDetails: { date: new Date().toISOString() },
-        createdAt: new Date().toISOString(),
+      await createAppointment(client.id);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409:")
+          ? "This client may already exist. Choose one of the matches shown, or submit again to create a new client."
+          : error.message,
+        variant: "destructive",
       });
+    }
+  };
+
+  const createAppointment = async (clientId: number) => {
+    await createAppointmentMutation.mutateAsync({
+      clientId,
+      collectedBy: user!.id,
+      createdAt: new Date().toISOString(),
+    });
+  };
+
+  const onUseExistingClient = async () => {
+    try {
+      await createAppointment(existingClient!.id);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -153,187 +236,322 @@ export default function AppointmentForm() {
           <CardTitle>New Appointment</CardTitle>
         </CardHeader>
         <CardContent>
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="passportNumber"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Passport Number</FormLabel>
-                    <FormControl>
-                      <Input {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="fullName"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Full Name</FormLabel>
-                    <FormControl>
-                      <Input {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="phoneNumber"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Phone Number</FormLabel>
-                    <FormControl>
-                      <Input {...field} type="tel" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email</FormLabel>
-                    <FormControl>
-                      <Input {...field} type="email" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="nationalId"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>National ID</FormLabel>
-                    <FormControl>
-                      <Input {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="passportImage"
-                render={({ field: { value, onChange, ...field } }) => (
-                  <FormItem>
-                    <FormLabel>Passport Image</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="file"
-                        accept="image/*"
-                        {...field}
-                        onChange={(e) => {
-                          const file = e.target.files?.[0];
-                          if (file) {
-                            try {
-                              validateImageFile(file);
-                              onChange(e);
-                            } catch (error: any) {
-                              toast({
-                                title: "Error",
-                                description: error.message,
-                                variant: "destructive",
-                              });
-                            }
-                          }
-                        }}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="workType"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Work Type</FormLabel>
-                    <FormControl>
-                      <Input {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="workplace"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Workplace</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
+          {existingClient ? (
+            <div className="space-y-4">
+              <Alert>
+                <UserCheck className="h-4 w-4" />
+                <AlertTitle>Booking for an existing client</AlertTitle>
+                <AlertDescription>
+                  <div className="font-medium">{existingClient.fullName}</div>
+                  <div className="text-sm">
+                    Passport {existingClient.passportNumber} · National ID {existingClient.nationalId} · {formatPhone(existingClient.phoneNumber)}
+                  </div>
+                </AlertDescription>
+              </Alert>
+              <Button
+                className="w-full bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+                disabled={createAppointmentMutation.isPending}
+                onClick={onUseExistingClient}
+              >
+                Create Appointment
+              </Button>
+              <Button variant="outline" className="w-full" onClick={() => setExistingClient(null)}>
+                Enter a new client instead
+              </Button>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <MrzReader
+                  values={form.watch()}
+                  onChange={(field, value) => form.setValue(field, value, { shouldDirty: true, shouldValidate: true })}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="passportNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Passport Number</FormLabel>
                       <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select workplace" />
-                        </SelectTrigger>
+                        <Input {...field} />
                       </FormControl>
-                      <SelectContent>
-                        {GCC_COUNTRY_OPTIONS.map((country) => (
-                          <SelectItem key={country} value={country}>
-                            {country}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="gender"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Gender</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="passportIssuingCountry"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Issuing Country</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g. PAK" maxLength={3} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="passportIssueDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Passport Issue Date</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="date" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="passportExpiryDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Passport Expiry Date</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="date" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="fullName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="dateOfBirth"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Date of Birth</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="date" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="nationality"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nationality</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="e.g. PAK" maxLength={3} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="phoneNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone Number</FormLabel>
+                      <div className="flex gap-2">
+                        <PhoneCountrySelect
+                          value={form.watch("phoneCountry")}
+                          onChange={(country) => {
+                            form.setValue("phoneCountry", country);
+                            if (form.formState.isSubmitted) form.trigger("phoneNumber");
+                          }}
+                        />
+                        <FormControl>
+                          <Input {...field} type="tel" placeholder="e.g. 0300 1234567" />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="email" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="nationalId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>National ID</FormLabel>
                       <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select gender" />
-                        </SelectTrigger>
+                        <Input {...field} />
                       </FormControl>
-                      <SelectContent>
-                        <SelectItem value="male">Male</SelectItem>
-                        <SelectItem value="female">Female</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {duplicates && duplicates.length > 0 && (
+                  <Alert>
+                    <UserCheck className="h-4 w-4" />
+                    <AlertTitle>This client may already exist</AlertTitle>
+                    <AlertDescription className="space-y-2">
+                      {duplicates.map(({ client, matchedOn }) => (
+                        <div key={client.id} className="flex items-center justify-between gap-4">
+                          <div>
+                            <div className="font-medium">{client.fullName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              Same {matchedOn.map((field) => DUPLICATE_FIELD_LABELS[field]).join(", ")}
+                            </div>
+                          </div>
+                          <Button type="button" size="sm" variant="outline" onClick={() => setExistingClient(client)}>
+                            Use existing client
+                          </Button>
+                        </div>
+                      ))}
+                    </AlertDescription>
+                  </Alert>
                 )}
-              />
 
-              <Button
-                type="submit"
-                className="w-full bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
-                disabled={createClientMutation.isPending || createAppointmentMutation.isPending}
-              >
-                Create Appointment
-              </Button>
-            </form>
-          </Form>
+                <FormField
+                  control={form.control}
+                  name="passportImage"
+                  render={({ field: { value, onChange, ...field } }) => (
+                    <FormItem>
+                      <FormLabel>Passport Image</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="file"
+                          accept="image/*"
+                          {...field}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) {
+                              try {
+                                validateImageFile(file);
+                                onChange(e);
+                              } catch (error: any) {
+                                toast({
+                                  title: "Error",
+                                  description: error.message,
+                                  variant: "destructive",
+                                });
+                              }
+                            }
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="workType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Work Type</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="workplace"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Workplace</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select workplace" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {GCC_COUNTRY_OPTIONS.map((country) => (
+                            <SelectItem key={country} value={country}>
+                              {country}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="gender"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gender</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select gender" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="male">Male</SelectItem>
+                          <SelectItem value="female">Female</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <ClientProfileFields form={form} />
+
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+                  disabled={createClientMutation.isPending || createAppointmentMutation.isPending}
+                >
+                  Create Appointment
+                </Button>
+              </form>
+            </Form>
+          )}
         </CardContent>
       </Card>
     </div>
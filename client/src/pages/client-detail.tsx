@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Appointment, Client, ClientProfile, Page } from "@shared/schema";
+import { formatPhone } from "@shared/phone";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { StatusBadge } from "@/components/StatusBadge";
+import { ClientProfileCard } from "@/components/ClientProfileCard";
+import { ClientEditDialog } from "@/components/ClientEditDialog";
+import { ClientHistory } from "@/components/ClientHistory";
+import { ArrowLeft, CalendarClock, Loader2, Pencil, UserSquare } from "lucide-react";
+
+// A client's details, appointments and change history. Collectors can edit a client until
+// one of their appointments is approved; admins at any time.
+export default function ClientDetail() {
+  const { id } = useParams();
+  const [, setLocation] = useLocation();
+  const [editOpen, setEditOpen] = useState(false);
+
+  const { data: client, isLoading } = useQuery<Client>({
+    queryKey: [`/api/clients/${id}`],
+  });
+  const { data: profile } = useQuery<ClientProfile>({
+    queryKey: [`/api/clients/${id}/profile`],
+    enabled: !!client,
+  });
+  const { data: appointments } = useQuery<Page<Appointment>>({
+    queryKey: ["/api/appointments", { clientId: id, limit: 100 }],
+    enabled: !!client,
+  });
+  // Decided on the server from all of the client's appointments, not just those listed here
+  const { data: access } = useQuery<{ editable: boolean }>({
+    queryKey: [`/api/clients/${id}/editable`],
+    enabled: !!client,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  if (!client) {
+    return (
+      <div className="container mx-auto p-6 text-center">
+        <p>Client not found</p>
+        <Button onClick={() => setLocation("/dashboard")} variant="ghost">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+      </div>
+    );
+  }
+
+  const canEdit = access?.editable ?? false;
+  const details: [string, string | null][] = [
+    ["Date of birth", client.dateOfBirth],
+    ["Nationality", client.nationality],
+    ["Passport", `${client.passportNumber}${client.passportIssuingCountry ? ` (${client.passportIssuingCountry})` : ""}`],
+    ["Passport valid", client.passportExpiryDate && `${client.passportIssueDate ?? "?"} to ${client.passportExpiryDate}`],
+    ["National ID", client.nationalId],
+    ["Phone", formatPhone(client.phoneNumber)],
+    ["Email", client.email],
+    ["Work type", client.workType],
+    ["Workplace", client.workplace],
+    ["Gender", client.gender],
+  ];
+
+  return (
+    <div className="container mx-auto p-6 max-w-3xl">
+      <Button
+        variant="ghost"
+        className="mb-6"
+        onClick={() => setLocation("/dashboard")}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to Dashboard
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center">
+              <UserSquare className="mr-2 h-6 w-6" />
+              {client.fullName}
+            </div>
+            {canEdit && profile && (
+              <Button variant="outline" onClick={() => setEditOpen(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {client.mergedInto !== null && (
+            <p className="text-sm text-muted-foreground">
+              Merged into <Link href={`/clients/${client.mergedInto}`} className="underline">client #{client.mergedInto}</Link>
+            </p>
+          )}
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd>{value ?? "Not given"}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="space-y-2">
+            <div className="flex items-center text-muted-foreground mb-2">
+              <CalendarClock className="mr-2 h-4 w-4" />
+              <h3 className="font-semibold">Appointments</h3>
+            </div>
+            {appointments?.items.length === 0 && (
+              <p className="text-sm text-muted-foreground">No appointments</p>
+            )}
+            {appointments?.items.map((appointment) => (
+              <Link key={appointment.id} href={`/appointments/${appointment.id}`}>
+                <div className="flex cursor-pointer items-center justify-between text-sm border rounded-lg p-2 hover:bg-muted">
+                  <span>#{appointment.id} · {new Date(appointment.createdAt).toLocaleDateString()}</span>
+                  <StatusBadge status={appointment.status} />
+                </div>
+              </Link>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ClientProfileCard client={client} />
+      <ClientHistory clientId={client.id} />
+
+      {canEdit && profile && (
+        <ClientEditDialog client={client} profile={profile} open={editOpen} onOpenChange={setEditOpen} />
+      )}
+    </div>
+  );
+}
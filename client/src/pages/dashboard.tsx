@@ -1,12 +1,12 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
-import { Appointment, Client } from "@shared/schema";
+import { Appointment, AppointmentSla, Client, CommentUnread, Location, Page } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { CalendarPlus, FileText, Loader2, UserPlus, Users, LogOut, KeyRound } from "lucide-react";
+import { CalendarPlus, FileText, Loader2, UserPlus, Users, LogOut, KeyRound, ChevronLeft, ChevronRight, GitMerge, ListChecks, MapPin, ClipboardList, BookUser } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -20,7 +20,14 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { apiRequest } from "@/lib/queryClient";
+import { formatSlot } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { ClientSearch } from "@/components/ClientSearch";
+import { OverdueBadge, StatusBadge, UnreadCommentsBadge } from "@/components/StatusBadge";
+import { BulkActions } from "@/components/BulkActions";
+import { PassportExpiryReport } from "@/components/PassportExpiryReport";
+import { Checkbox } from "@/components/ui/checkbox";
+import { APPOINTMENT_STATES, AppointmentState, STATE_LABELS } from "@shared/workflow";
 
 const passwordChangeSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
@@ -29,18 +36,100 @@ const passwordChangeSchema = z.object({
 
 type PasswordChangeFormData = z.infer<typeof passwordChangeSchema>;
 
+const PAGE_SIZE = 12;
+
+// "returned" is the collector's own appointments that an approver sent back for more information;
+// "overdue" is every appointment that has stayed in its status longer than its team's SLA allows;
+// "escalated" is the overdue appointments escalated to the user as team lead, or to the admins;
+// "queue" and "unassigned" are appointments waiting on an approver, assigned to the user or to nobody;
+// "passports" is the report of open appointments whose client's passport expires soon
+type DashboardTab = AppointmentState | "all" | "returned" | "overdue" | "escalated" | "queue" | "unassigned" | "passports";
+
+const QUEUE_TABS: DashboardTab[] = ["queue", "unassigned"];
+
+function defaultTab(role?: string): DashboardTab {
+  if (role === "admin") return "all";
+  return role === "approver" ? "queue" : "submitted";
+}
+
 export default function Dashboard() {
   const { user, logoutMutation } = useAuth();
-  const [activeTab, setActiveTab] = useState("pending");
+  const [activeTab, setActiveTab] = useState<DashboardTab>(defaultTab(user?.role));
+  const [page, setPage] = useState(1);
+  // Appointments on the current page picked for a bulk action
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const canBulkEdit = user?.role === "admin" || user?.role === "approver";
   const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
 
-  const { data: appointments, isLoading: appointmentsLoading } = useQuery<Appointment[]>({
-    queryKey: ["/api/appointments"],
+  // Breaches of teams without a lead are escalated to every admin
+  const escalatedTo = user?.role === "admin" ? "admins" : user?.id;
+  const { data: escalatedPage } = useQuery<Page<Appointment>>({
+    queryKey: ["/api/appointments", { escalatedTo, limit: 1 }],
+    enabled: !!user && user.role !== "collector",
+    // The server checks for breaches every few minutes, so new escalations show up without a reload
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const { data: appointmentPage, isLoading: appointmentsLoading } = useQuery<Page<Appointment>>({
+    queryKey: ["/api/appointments", {
+      status: activeTab === "all" || activeTab === "overdue" || activeTab === "escalated" || QUEUE_TABS.includes(activeTab)
+        ? undefined
+        : activeTab === "returned" ? "needs_info" : activeTab,
+      collectedBy: activeTab === "returned" ? user?.id : undefined,
+      overdue: activeTab === "overdue" ? "true" : undefined,
+      escalatedTo: activeTab === "escalated" ? escalatedTo : undefined,
+      assignedTo: activeTab === "queue" ? user?.id : activeTab === "unassigned" ? "none" : undefined,
+      queued: QUEUE_TABS.includes(activeTab) ? "true" : undefined,
+      page,
+      limit: PAGE_SIZE,
+    }],
+    enabled: activeTab !== "passports",
+    placeholderData: keepPreviousData,
   });
+  const appointments = activeTab === "passports" ? undefined : appointmentPage?.items;
 
-  const { data: clients, isLoading: clientsLoading } = useQuery<Client[]>({
-    queryKey: ["/api/clients"],
+  // Only load the clients shown on the current page
+  const clientIds = Array.from(new Set(appointments?.map((appointment) => appointment.clientId) ?? []));
+  const { data: clientPage, isLoading: clientsLoading } = useQuery<Page<Client>>({
+    queryKey: ["/api/clients", { ids: clientIds.join(","), limit: PAGE_SIZE }],
+    enabled: clientIds.length > 0,
+    placeholderData: keepPreviousData,
   });
+  const clients = clientPage?.items;
+
+  const appointmentIds = appointments?.map((appointment) => appointment.id) ?? [];
+  const { data: slaStandings } = useQuery<AppointmentSla[]>({
+    queryKey: ["/api/appointments/sla", { ids: appointmentIds.join(",") }],
+    enabled: appointmentIds.length > 0,
+    placeholderData: keepPreviousData,
+  });
+  const isOverdue = (appointmentId: number) =>
+    slaStandings?.some((standing) => standing.appointmentId === appointmentId && standing.overdue) ?? false;
+
+  const { data: unreadComments } = useQuery<CommentUnread[]>({
+    queryKey: ["/api/appointments/unread-comments", { ids: appointmentIds.join(",") }],
+    enabled: appointmentIds.length > 0,
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ["/api/locations", { includeInactive: "true" }],
+  });
+
+  const selected = appointments?.filter((appointment) => selectedIds.includes(appointment.id)) ?? [];
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter((selectedId) => selectedId !== id));
+  };
+
+  const changePage = (newPage: number) => {
+    setPage(newPage);
+    setSelectedIds([]);
+  };
+
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab as DashboardTab);
+    changePage(1);
+  };
 
   const { toast } = useToast();
 
@@ -81,9 +170,7 @@ export default function Dashboard() {
     );
   }
 
-  const filteredAppointments = appointments?.filter(
-    appointment => user?.role === "admin" ? true : appointment.status === activeTab
-  );
+  const totalPages = appointmentPage ? Math.max(1, Math.ceil(appointmentPage.total / appointmentPage.limit)) : 1;
 
   const getClientName = (clientId: number) => {
     const client = clients?.find((c) => c.id === clientId);
@@ -105,6 +192,36 @@ export default function Dashboard() {
                       Manage Users
                     </Button>
                   </Link>
+                  <Link href="/admin/clients/merge">
+                    <Button variant="ghost" className="text-white hover:text-white/80">
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Merge Clients
+                    </Button>
+                  </Link>
+                  <Link href="/admin/reason-codes">
+                    <Button variant="ghost" className="text-white hover:text-white/80">
+                      <ListChecks className="h-4 w-4 mr-2" />
+                      Reason Codes
+                    </Button>
+                  </Link>
+                  <Link href="/admin/document-requirements">
+                    <Button variant="ghost" className="text-white hover:text-white/80">
+                      <ClipboardList className="h-4 w-4 mr-2" />
+                      Documents
+                    </Button>
+                  </Link>
+                  <Link href="/admin/passport-rules">
+                    <Button variant="ghost" className="text-white hover:text-white/80">
+                      <BookUser className="h-4 w-4 mr-2" />
+                      Passport Rules
+                    </Button>
+                  </Link>
+                  <Link href="/admin/locations">
+                    <Button variant="ghost" className="text-white hover:text-white/80">
+                      <MapPin className="h-4 w-4 mr-2" />
+                      Locations
+                    </Button>
+                  </Link>
                   <Dialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen}>
                     <DialogTrigger asChild>
                       <Button variant="ghost" className="text-white hover:text-white/80">
@@ -178,57 +295,151 @@ export default function Dashboard() {
           )}
         </div>
 
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="pending">Pending</TabsTrigger>
-            <TabsTrigger value="approved">Approved</TabsTrigger>
+        <ClientSearch />
+
+        <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-4">
+          <TabsList className="flex h-auto w-full flex-wrap justify-start">
+            {user?.role === "admin" && <TabsTrigger value="all">All</TabsTrigger>}
+            {user?.role === "collector" && <TabsTrigger value="returned">Returned to Me</TabsTrigger>}
+            {user?.role === "approver" && <TabsTrigger value="queue">My Queue</TabsTrigger>}
+            {user?.role !== "collector" && <TabsTrigger value="unassigned">Unassigned</TabsTrigger>}
+            {user?.role !== "collector" && <TabsTrigger value="overdue">Overdue</TabsTrigger>}
+            {user?.role !== "collector" && (
+              <TabsTrigger value="escalated">
+                Escalated to Me
+                {!!escalatedPage?.total && (
+                  <span className="ml-2 rounded-full bg-red-600 px-2 text-xs text-white">{escalatedPage.total}</span>
+                )}
+              </TabsTrigger>
+            )}
+            <TabsTrigger value="passports">Passports Expiring</TabsTrigger>
+            {APPOINTMENT_STATES.map((state) => (
+              <TabsTrigger key={state} value={state}>{STATE_LABELS[state]}</TabsTrigger>
+            ))}
           </TabsList>
 
-          <TabsContent value={activeTab}>
-            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-              {filteredAppointments?.map((appointment) => (
-                <Link key={appointment.id} href={`/appointments/${appointment.id}`}>
-                  <Card className="cursor-pointer hover:shadow-lg transition-all duration-300 border-green-100">
-                    <CardHeader>
-                      <CardTitle className="flex items-center justify-between">
-                        {getClientName(appointment.clientId)}
-                        {appointment.status === "approved" && (
-                          <FileText className="h-5 w-5 text-green-600" />
+          <TabsContent value={activeTab} className="space-y-4">
+            {activeTab === "passports" ? <PassportExpiryReport /> : (
+              <>
+                {canBulkEdit && appointments && appointments.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="select-page"
+                      checked={selected.length === appointments.length}
+                      onCheckedChange={(checked) => setSelectedIds(checked === true ? appointments.map((a) => a.id) : [])}
+                    />
+                    <label htmlFor="select-page" className="text-sm text-muted-foreground">Select all on this page</label>
+                  </div>
+                )}
+                {selected.length > 0 && <BulkActions selected={selected} onDone={() => setSelectedIds([])} />}
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {appointments?.map((appointment) => (
+                    <Link key={appointment.id} href={`/appointments/${appointment.id}`}>
+                      <Card className="cursor-pointer hover:shadow-lg transition-all duration-300 border-green-100">
+                        <CardHeader>
+                          <CardTitle className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              {canBulkEdit && (
+                                // Keeps the click from opening the appointment
+                                <div onClick={(e) => { e.preventDefault(); e.stopPropagation(); }}>
+                                  <Checkbox
+                                    checked={selectedIds.includes(appointment.id)}
+                                    onCheckedChange={(checked) => toggleSelected(appointment.id, checked === true)}
+                                  />
+                                </div>
+                              )}
+                              {getClientName(appointment.clientId)}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              {appointment.pdfUrl && <FileText className="h-5 w-5 text-green-600" />}
+                              {(() => {
+                                const unread = unreadComments?.find((u) => u.appointmentId === appointment.id);
+                                return unread && <UnreadCommentsBadge unread={unread.unread} mentioned={unread.mentioned} />;
+                              })()}
+                              {isOverdue(appointment.id) && <OverdueBadge />}
+                              <StatusBadge status={appointment.status} />
+                            </div>
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="text-sm text-muted-foreground">
+                            Created: {new Date(appointment.createdAt).toLocaleDateString()}
+                          </div>
+                          {appointment.slotStart && (() => {
+                            const location = locations?.find((l) => l.id === appointment.locationId);
+                            return (
+                              <div className="mt-2 text-sm text-muted-foreground">
+                                Booked for: {formatSlot(appointment.slotStart, location?.timezone)}
+                                {location && ` at ${location.name}`}
+                              </div>
+                            );
+                          })()}
+                        </CardContent>
+                      </Card>
+                    </Link>
+                  ))}
+
+                  {(!appointments || appointments.length === 0) && (
+                    <Card className="col-span-full">
+                      <CardContent className="flex flex-col items-center justify-center p-6">
+                        <CalendarPlus className="h-12 w-12 text-green-600/50 mb-4" />
+                        <p className="text-center text-muted-foreground">
+                          {activeTab === "returned"
+                            ? "No appointments have been returned to you"
+                            : activeTab === "overdue"
+                            ? "No appointments are overdue"
+                            : activeTab === "escalated"
+                            ? "Nothing has been escalated to you"
+                            : activeTab === "queue"
+                            ? "Your queue is empty"
+                            : activeTab === "unassigned"
+                            ? "Every waiting appointment has been assigned"
+                            : `No ${activeTab === "all" ? "" : `${STATE_LABELS[activeTab].toLowerCase()} `}appointments found`}
+                        </p>
+                        {user?.role === "collector" && (
+                          <Link href="/appointments/new">
+                            <Button variant="outline" className="mt-4 border-green-200 hover:bg-green-50">
+                              Create New Appointment
+                            </Button>
+                          </Link>
                         )}
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="text-sm text-muted-foreground">
-                        Created: {new Date(appointment.createdAt).toLocaleDateString()}
-                      </div>
-                      {appointment.bookingDetails && (
-                        <div className="mt-2 text-sm text-muted-foreground">
-                          Booked for: {new Date(appointment.bookingDetails.date).toLocaleDateString()}
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                </Link>
-              ))}
-
-              {(!filteredAppointments || filteredAppointments.length === 0) && (
-                <Card className="col-span-full">
-                  <CardContent className="flex flex-col items-center justify-center p-6">
-                    <CalendarPlus className="h-12 w-12 text-green-600/50 mb-4" />
-                    <p className="text-center text-muted-foreground">
-                      No {activeTab} appointments found
+                      </CardContent>
+                    </Card>
+                  )}
+                </div>
+
+                {appointmentPage && appointmentPage.total > 0 && (
+                  <div className="flex items-center justify-between mt-6">
+                    <p className="text-sm text-muted-foreground">
+                      Showing {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, appointmentPage.total)} of {appointmentPage.total}
                     </p>
-                    {user?.role === "collector" && (
-                      <Link href="/appointments/new">
-                        <Button variant="outline" className="mt-4 border-green-200 hover:bg-green-50">
-                          Create New Appointment
-                        </Button>
-                      </Link>
-                    )}
-                  </CardContent>
-                </Card>
-              )}
-            </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={page <= 1}
+                        onClick={() => changePage(page - 1)}
+                      >
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Previous
+                      </Button>
+                      <span className="text-sm">
+                        Page {page} of {totalPages}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={page >= totalPages}
+                        onClick={() => changePage(page + 1)}
+                      >
+                        Next
+                        <ChevronRight className="h-4 w-4 ml-1" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
           </TabsContent>
         </Tabs>
       </div>
@@ -1,9 +1,38 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useLocation, useParams } from "wouter";
-import { Appointment, Client, User } from "@shared/schema";
+import { Link, useLocation, useParams } from "wouter";
+import { Appointment, AppointmentDocument, AppointmentSla, AppointmentSlotChange, AppointmentStatusChange, ApprovalProgress, Client, Location, ReasonCode, User } from "@shared/schema";
+import { ACTION_LABELS, allowedTransitions, canReschedule, AppointmentState, isAppointmentState, isQueued, requiresReasonCode, REASON_REQUIRED, STATE_LABELS } from "@shared/workflow";
+import { formatPhone } from "@shared/phone";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { OverdueBadge, StatusBadge } from "@/components/StatusBadge";
+import { ResubmitDialog } from "@/components/ResubmitDialog";
+import { BookingDialog } from "@/components/BookingDialog";
+import { ClientDocuments } from "@/components/ClientDocuments";
+import { ClientProfileCard } from "@/components/ClientProfileCard";
+import { fieldLabel, formatChangeValue } from "@/components/ClientHistory";
+import { CommentThread } from "@/components/CommentThread";
+import { DocumentChecklist } from "@/components/DocumentChecklist";
+import { UserName } from "@/components/UserName";
+import { formatSlot } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import {
@@ -22,15 +51,38 @@ import {
   UserSquare,
   FileCheck,
   Globe2,
-  UserCheck
+  UserCheck,
+  Image as ImageIcon,
+  RefreshCw,
+  History,
+  Undo2,
+  ListOrdered,
+  Circle,
+  MapPin,
+  CalendarClock,
+  Timer,
+  Inbox
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 
+function stateLabel(state: string) {
+  return isAppointmentState(state) ? STATE_LABELS[state] : state;
+}
+
 export default function ViewAppointment() {
   const { id } = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { user } = useAuth();
+  // Set when a change was rejected because someone else updated the appointment first
+  const [hasConflict, setHasConflict] = useState(false);
+  // The transition waiting for the user to confirm and give a reason
+  const [pendingTransition, setPendingTransition] = useState<AppointmentState | null>(null);
+  const [reason, setReason] = useState("");
+  const [reasonCodeId, setReasonCodeId] = useState<number | null>(null);
+  const [resubmitOpen, setResubmitOpen] = useState(false);
+  const [bookingOpen, setBookingOpen] = useState(false);
+  const [rescheduleOpen, setRescheduleOpen] = useState(false);
 
   const { data: appointment, isLoading: appointmentLoading } = useQuery<Appointment>({
     queryKey: [`/api/appointments/${id}`],
@@ -53,24 +105,101 @@ export default function ViewAppointment() {
     enabled: !!appointment?.approvedBy,
   });
 
-  const approveMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest(
-        "PATCH",
-        `/api/appointments/${id}`,
-        {
-          status: "approved",
-          approvedBy: user!.id,
-        }
-      );
+  const { data: pdfVersions } = useQuery<AppointmentDocument[]>({
+    queryKey: [`/api/appointments/${id}/pdf-versions`],
+    enabled: !!appointment?.pdfUrl,
+  });
+
+  const { data: history } = useQuery<AppointmentStatusChange[]>({
+    queryKey: [`/api/appointments/${id}/history`],
+    enabled: !!id,
+  });
+
+  const { data: approvals } = useQuery<ApprovalProgress>({
+    queryKey: [`/api/appointments/${id}/approvals`],
+    enabled: !!id,
+  });
+
+  // Inactive locations are included so that earlier slots keep their names
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ["/api/locations", { includeInactive: "true" }],
+  });
+  const location = locations?.find((l) => l.id === appointment?.locationId);
+
+  const { data: slotHistory } = useQuery<AppointmentSlotChange[]>({
+    queryKey: [`/api/appointments/${id}/slot-history`],
+    enabled: !!id,
+  });
+
+  // Admins pick from the team's approvers when assigning
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: user?.role === "admin",
+  });
+  const teamApprovers = users?.filter((u) => u.role === "approver" && u.teamId === appointment?.teamId) ?? [];
+
+  const { data: slaStandings } = useQuery<AppointmentSla[]>({
+    queryKey: ["/api/appointments/sla", { ids: id }],
+    enabled: !!id,
+  });
+  const sla = slaStandings?.[0];
+
+  // Inactive codes are included so that older history entries keep their labels
+  const { data: reasonCodes } = useQuery<ReasonCode[]>({
+    queryKey: ["/api/reason-codes", { includeInactive: "true" }],
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ to, reasonCodeId, reason }: { to: AppointmentState; reasonCodeId?: number; reason?: string }) => {
+      const res = await apiRequest("POST", `/api/appointments/${id}/transitions`, {
+        to,
+        reasonCodeId,
+        reason: reason || undefined,
+        version: appointment!.version,
+      });
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (updated: Appointment) => {
       queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}/history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}/approvals`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}/slot-history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}/pdf-versions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments/sla"] });
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       toast({
         title: "Success",
-        description: "Appointment approved successfully",
+        description: updated.status === appointment?.status
+          ? "Sign-off recorded"
+          : `Appointment moved to ${stateLabel(updated.status)}`,
+      });
+      setPendingTransition(null);
+      setReason("");
+      setReasonCodeId(null);
+    },
+    onError: (error: Error) => {
+      setPendingTransition(null);
+      handleMutationError(error);
+    },
+  });
+
+  // Claiming, releasing and assigning leave the version alone, so they cannot conflict with other edits
+  const assignMutation = useMutation({
+    mutationFn: async ({ action, assignedTo }: { action: "claim" | "release" | "assign"; assignedTo?: number | null }) => {
+      const res = await apiRequest("POST", `/api/appointments/${id}/${action}`, action === "assign" ? { assignedTo } : undefined);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    },
+    onError: (error: Error) => {
+      // Someone else may have taken the appointment first; show who
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}`] });
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
       });
     },
   });
@@ -79,6 +208,7 @@ export default function ViewAppointment() {
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append('pdf', file);
+      formData.append('version', String(appointment!.version));
 
       const res = await fetch(`/api/appointments/${id}/pdf`, {
         method: 'POST',
@@ -87,27 +217,43 @@ export default function ViewAppointment() {
       });
 
       if (!res.ok) {
-        throw new Error(await res.text());
+        throw new Error(`${res.status}: ${await res.text()}`);
       }
 
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}/pdf-versions`] });
       toast({
         title: "Success",
         description: "PDF uploaded successfully",
       });
     },
-    onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    }
+    onError: (error: Error) => handleMutationError(error),
   });
 
+  function handleMutationError(error: Error) {
+    if (error.message.startsWith("409:")) {
+      setHasConflict(true);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  }
+
+  const reloadAppointment = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}/pdf-versions`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}/history`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}/approvals`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/appointments/${id}/slot-history`] });
+    setHasConflict(false);
+  };
+
   if (appointmentLoading || clientLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -144,6 +290,35 @@ export default function ViewAppointment() {
     uploadPdfMutation.mutate(file);
   };
 
+  // The collector sends a returned appointment back through the resubmit dialog, which can also correct the client
+  const canResubmit = appointment.status === "needs_info" &&
+    (user?.role === "admin" || (user?.role === "collector" && appointment.collectedBy === user.id));
+  // Approving signs off the current step of the team's approval chain
+  const currentStep = approvals?.steps.find((step) => step.position === approvals.currentPosition);
+  const isChain = approvals !== undefined && (approvals.steps.length > 1 || approvals.steps[0]?.requiredApprovals > 1);
+  const transitions = (user ? allowedTransitions(appointment.status, user.role) : [])
+    .filter((to) => !(canResubmit && to === "submitted"))
+    .filter((to) => to !== "approved" || approvals?.canSign);
+  const actionLabel = (to: AppointmentState) =>
+    to === "approved" && isChain && currentStep ? `Sign Off: ${currentStep.name}` : ACTION_LABELS[to];
+  const showReschedule = user ? canReschedule(appointment.status, user.role) : false;
+  const describeSlot = (locationId: number | null, slotStart: string | Date | null) => {
+    if (!slotStart) return "no slot";
+    const slotLocation = locations?.find((l) => l.id === locationId);
+    return `${formatSlot(slotStart, slotLocation?.timezone)}${slotLocation ? ` at ${slotLocation.name}` : ""}`;
+  };
+  const queued = isQueued(appointment.status);
+  const canClaim = user?.role === "approver" && queued && appointment.assignedTo === null && user.teamId === appointment.teamId;
+  const canRelease = appointment.assignedTo !== null && (user?.role === "admin" || appointment.assignedTo === user?.id);
+  const canUploadPdf = user?.role === "approver" && ["submitted", "approved", "booked"].includes(appointment.status);
+  const reasonRequired = pendingTransition !== null && REASON_REQUIRED.includes(pendingTransition);
+  const reasonCodeRequired = pendingTransition !== null && requiresReasonCode(pendingTransition);
+  const reasonCodeOptions = reasonCodes?.filter((reasonCode) =>
+    reasonCode.active && pendingTransition !== null && reasonCode.states.some((state) => state === pendingTransition)
+  ) ?? [];
+  const getReasonCodeLabel = (reasonCodeId: number) =>
+    reasonCodes?.find((reasonCode) => reasonCode.id === reasonCodeId)?.label ?? `Reason #${reasonCodeId}`;
+
   const handleDownloadPDF = () => {
     if (!appointment.pdfUrl) {
       toast({
@@ -167,6 +342,19 @@ export default function ViewAppointment() {
         Back to Dashboard
       </Button>
 
+      {hasConflict && (
+        <Alert variant="destructive" className="mb-6">
+          <RefreshCw className="h-4 w-4" />
+          <AlertTitle>This appointment has changed</AlertTitle>
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>Someone else updated it after you opened this page, so your change was not saved.</span>
+            <Button variant="outline" size="sm" onClick={reloadAppointment}>
+              Reload
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
@@ -174,7 +362,7 @@ export default function ViewAppointment() {
               <FileCheck className="mr-2 h-6 w-6" />
               Appointment Details
             </div>
-            {appointment.status === "approved" && appointment.pdfUrl && (
+            {appointment.pdfUrl && (
               <Button onClick={handleDownloadPDF}>
                 <Download className="mr-2 h-4 w-4" />
                 Download PDF
@@ -189,21 +377,29 @@ export default function ViewAppointment() {
               <div className="flex items-center">
                 <Clock className="mr-2 h-4 w-4" />
                 <span className="font-semibold">Status:</span>
-                <span className={`ml-2 ${appointment.status === "approved" ? "text-green-600" : "text-amber-600"}`}>
-                  {appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
+                <span className="ml-2">
+                  <StatusBadge status={appointment.status} />
                 </span>
+                {sla?.overdue && <span className="ml-2"><OverdueBadge /></span>}
               </div>
-              {appointment.bookingDetails && (
+              {appointment.slotStart && (
                 <div className="flex items-center">
                   <Calendar className="mr-2 h-4 w-4" />
-                  <span className="font-semibold">Date:</span>
+                  <span className="font-semibold">Slot:</span>
                   <span className="ml-2">
-                    {new Date(appointment.bookingDetails.date).toLocaleDateString()}
+                    {formatSlot(appointment.slotStart, location?.timezone)}
                   </span>
                 </div>
               )}
             </div>
             <div className="grid grid-cols-2 gap-4 text-sm">
+              {location && (
+                <div className="flex items-center col-span-2">
+                  <MapPin className="mr-2 h-4 w-4" />
+                  <span className="font-semibold">Location:</span>
+                  <span className="ml-2">{location.name}{location.address && `, ${location.address}`}</span>
+                </div>
+              )}
               <div className="flex items-center">
                 <UserCheck className="mr-2 h-4 w-4" />
                 <span className="font-semibold">Collected by:</span>
@@ -216,6 +412,56 @@ export default function ViewAppointment() {
                   <span className="ml-2">{approver.username}</span>
                 </div>
               )}
+              <div className="flex items-center col-span-2 gap-2">
+                <Inbox className="h-4 w-4" />
+                <span className="font-semibold">Assigned to:</span>
+                {user?.role === "admin" && queued ? (
+                  <Select
+                    value={appointment.assignedTo ? String(appointment.assignedTo) : "none"}
+                    onValueChange={(value) => assignMutation.mutate({ action: "assign", assignedTo: value === "none" ? null : Number(value) })}
+                    disabled={assignMutation.isPending}
+                  >
+                    <SelectTrigger className="h-8 w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Unassigned</SelectItem>
+                      {teamApprovers.map((approver) => (
+                        <SelectItem key={approver.id} value={String(approver.id)}>
+                          {approver.username}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span>{appointment.assignedTo ? <UserName id={appointment.assignedTo} /> : "Unassigned"}</span>
+                )}
+                {canClaim && (
+                  <Button size="sm" variant="outline" disabled={assignMutation.isPending} onClick={() => assignMutation.mutate({ action: "claim" })}>
+                    Claim
+                  </Button>
+                )}
+                {canRelease && !(user?.role === "admin" && queued) && (
+                  <Button size="sm" variant="outline" disabled={assignMutation.isPending} onClick={() => assignMutation.mutate({ action: "release" })}>
+                    Release
+                  </Button>
+                )}
+              </div>
+              {sla?.dueAt && (
+                <div className={`flex items-center col-span-2 ${sla.overdue ? "text-red-700" : ""}`}>
+                  <Timer className="mr-2 h-4 w-4" />
+                  <span className="font-semibold">{sla.overdue ? "Overdue since:" : "Due by:"}</span>
+                  <span className="ml-2">
+                    {new Date(sla.dueAt).toLocaleString()}
+                    {sla.breach && (
+                      <>
+                        {" "}(escalated to{" "}
+                        {sla.breach.escalatedTo ? <UserName id={sla.breach.escalatedTo} /> : "admins"})
+                      </>
+                    )}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -225,23 +471,49 @@ export default function ViewAppointment() {
               <div className="flex items-center text-muted-foreground mb-2">
                 <UserCircle className="mr-2 h-4 w-4" />
                 <h3 className="font-semibold">Personal Information</h3>
+                <Link href={`/clients/${client.id}`} className="ml-auto text-xs underline">
+                  Client record
+                </Link>
               </div>
               <div className="space-y-2">
                 <div className="flex items-center">
                   <UserSquare className="mr-2 h-4 w-4 text-muted-foreground" />
                   <span className="font-medium">{client.fullName}</span>
                 </div>
+                {client.dateOfBirth && (
+                  <div className="flex items-center">
+                    <Calendar className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <span>Date of birth: {client.dateOfBirth}</span>
+                  </div>
+                )}
+                {client.nationality && (
+                  <div className="flex items-center">
+                    <Globe2 className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <span>Nationality: {client.nationality}</span>
+                  </div>
+                )}
                 <div className="flex items-center">
                   <FileText className="mr-2 h-4 w-4 text-muted-foreground" />
-                  <span>Passport: {client.passportNumber}</span>
+                  <span>
+                    Passport: {client.passportNumber}
+                    {client.passportIssuingCountry && ` (${client.passportIssuingCountry})`}
+                  </span>
                 </div>
+                {client.passportExpiryDate && (
+                  <div className="flex items-center">
+                    <Calendar className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <span className={client.passportExpiryDate < new Date().toISOString().slice(0, 10) ? "text-red-600" : ""}>
+                      Passport valid: {client.passportIssueDate ?? "?"} to {client.passportExpiryDate}
+                    </span>
+                  </div>
+                )}
                 <div className="flex items-center">
                   <FileText className="mr-2 h-4 w-4 text-muted-foreground" />
                   <span>National ID: {client.nationalId}</span>
                 </div>
                 <div className="flex items-center">
                   <Phone className="mr-2 h-4 w-4 text-muted-foreground" />
-                  <span>Phone: {client.phoneNumber}</span>
+                  <span>Phone: {formatPhone(client.phoneNumber)}</span>
                 </div>
                 <div className="flex items-center">
                   <Mail className="mr-2 h-4 w-4 text-muted-foreground" />
@@ -272,36 +544,281 @@ export default function ViewAppointment() {
             </div>
           </div>
 
-          {/* Approval Actions */}
-          {user?.role === "approver" && appointment.status === "pending" && (
-            <div className="flex gap-4 justify-end mt-6 pt-4 border-t">
-              <Button 
-                onClick={() => approveMutation.mutate()}
-                className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+          {/* Passport Image */}
+          {client.passportAttachmentId && (
+            <div className="space-y-2">
+              <div className="flex items-center text-muted-foreground mb-2">
+                <ImageIcon className="mr-2 h-4 w-4" />
+                <h3 className="font-semibold">Passport Image</h3>
+              </div>
+              <a
+                href={`/api/attachments/${client.passportAttachmentId}/content`}
+                target="_blank"
+                rel="noreferrer"
               >
-                <CheckCircle className="mr-2 h-4 w-4" />
-                Approve Appointment
-              </Button>
-              <div className="relative">
-                <Input
-                  type="file"
-                  accept=".pdf"
-                  className="hidden"
-                  id="pdf-upload"
-                  onChange={handlePdfUpload}
+                <img
+                  src={`/api/attachments/${client.passportAttachmentId}/content?variant=preview`}
+                  alt={`Passport of ${client.fullName}`}
+                  className="max-h-64 rounded-lg border"
                 />
+              </a>
+            </div>
+          )}
+
+          {/* PDF Versions */}
+          {pdfVersions && pdfVersions.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center text-muted-foreground mb-2">
+                <FileText className="mr-2 h-4 w-4" />
+                <h3 className="font-semibold">Booking PDF History</h3>
+              </div>
+              {pdfVersions.map((document) => (
+                <div key={document.id} className="flex items-center justify-between text-sm border rounded-lg p-2">
+                  <span>
+                    Version {document.version} · {(document.size / 1024).toFixed(1)} KB · {new Date(document.uploadedAt).toLocaleString()}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => window.open(`/api/appointments/${id}/download-pdf?version=${document.version}`, '_blank')}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Approval Chain */}
+          {isChain && approvals && (
+            <div className="space-y-2">
+              <div className="flex items-center text-muted-foreground mb-2">
+                <ListOrdered className="mr-2 h-4 w-4" />
+                <h3 className="font-semibold">Approval Chain</h3>
+              </div>
+              {approvals.steps.map((step) => (
+                <div key={step.position} className="flex items-start gap-2 text-sm border rounded-lg p-2">
+                  {step.complete
+                    ? <CheckCircle className="mt-0.5 h-4 w-4 text-green-600" />
+                    : <Circle className="mt-0.5 h-4 w-4 text-muted-foreground" />}
+                  <div>
+                    <div className={step.position === approvals.currentPosition ? "font-medium" : ""}>
+                      {step.position}. {step.name} ({step.decisions.length}/{step.requiredApprovals})
+                    </div>
+                    {step.decisions.map((decision) => (
+                      <div key={decision.id} className="text-xs text-muted-foreground">
+                        <UserName id={decision.decidedBy} /> · {new Date(decision.decidedAt).toLocaleString()}
+                        {decision.note && ` · ${decision.note}`}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Slot History */}
+          {slotHistory && slotHistory.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center text-muted-foreground mb-2">
+                <CalendarClock className="mr-2 h-4 w-4" />
+                <h3 className="font-semibold">Slot History</h3>
+              </div>
+              {slotHistory.map((change) => (
+                <div key={change.id} className="text-sm border rounded-lg p-2">
+                  <div>
+                    {change.fromSlotStart === null
+                      ? <>Booked for <span className="font-medium">{describeSlot(change.toLocationId, change.toSlotStart)}</span></>
+                      : change.toSlotStart === null
+                        ? <>Released {describeSlot(change.fromLocationId, change.fromSlotStart)}</>
+                        : <>{describeSlot(change.fromLocationId, change.fromSlotStart)} → <span className="font-medium">{describeSlot(change.toLocationId, change.toSlotStart)}</span></>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    <UserName id={change.changedBy} /> · {new Date(change.changedAt).toLocaleString()}
+                  </div>
+                  {change.reason && <div className="mt-1 text-muted-foreground">{change.reason}</div>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Status History */}
+          {history && history.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center text-muted-foreground mb-2">
+                <History className="mr-2 h-4 w-4" />
+                <h3 className="font-semibold">Status History</h3>
+              </div>
+              {history.map((change) => (
+                <div key={change.id} className="text-sm border rounded-lg p-2">
+                  <div>
+                    {change.fromStatus ? `${stateLabel(change.fromStatus)} → ` : "Created as "}
+                    <span className="font-medium">{stateLabel(change.toStatus)}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    <UserName id={change.changedBy} /> · {new Date(change.changedAt).toLocaleString()}
+                  </div>
+                  {change.reasonCodeId && <div className="mt-1 font-medium">{getReasonCodeLabel(change.reasonCodeId)}</div>}
+                  {change.reason && <div className="mt-1 text-muted-foreground">{change.reason}</div>}
+                  {change.clientChanges && Object.keys(change.clientChanges).length > 0 && (
+                    <ul className="mt-1 text-xs text-muted-foreground">
+                      {Object.entries(change.clientChanges).map(([field, value]) => (
+                        <li key={field}>
+                          {fieldLabel(field)}: {formatChangeValue(field, value?.from)} → {formatChangeValue(field, value?.to)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Workflow Actions */}
+          {(transitions.length > 0 || canUploadPdf || canResubmit || showReschedule) && (
+            <div className="flex flex-wrap gap-4 justify-end mt-6 pt-4 border-t">
+              {canResubmit && (
+                <Button onClick={() => setResubmitOpen(true)}>
+                  <Undo2 className="mr-2 h-4 w-4" />
+                  Correct &amp; Resubmit
+                </Button>
+              )}
+              {showReschedule && (
+                <Button variant="outline" onClick={() => setRescheduleOpen(true)}>
+                  <CalendarClock className="mr-2 h-4 w-4" />
+                  Reschedule
+                </Button>
+              )}
+              {transitions.map((to) => (
                 <Button
-                  variant="outline"
-                  onClick={() => document.getElementById('pdf-upload')?.click()}
+                  key={to}
+                  variant={to === "approved" ? "default" : "outline"}
+                  className={to === "approved" ? "bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700" : ""}
+                  disabled={transitionMutation.isPending}
+                  onClick={() => to === "booked" ? setBookingOpen(true) : setPendingTransition(to)}
                 >
-                  <Upload className="mr-2 h-4 w-4" />
-                  Upload PDF
+                  {to === "approved" && <CheckCircle className="mr-2 h-4 w-4" />}
+                  {actionLabel(to)}
                 </Button>
-              </div>
+              ))}
+              {canUploadPdf && (
+                <div className="relative">
+                  <Input
+                    type="file"
+                    accept=".pdf"
+                    className="hidden"
+                    id="pdf-upload"
+                    onChange={handlePdfUpload}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => document.getElementById('pdf-upload')?.click()}
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    Upload PDF
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <ClientProfileCard client={client} />
+
+      <DocumentChecklist appointment={appointment} />
+
+      <ClientDocuments client={client} appointmentId={appointment.id} />
+
+      <CommentThread appointmentId={appointment.id} />
+
+      <Dialog
+        open={pendingTransition !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingTransition(null);
+            setReason("");
+            setReasonCodeId(null);
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingTransition && (pendingTransition === "approved" && isChain && currentStep
+                ? `Sign off "${currentStep.name}"?`
+                : `${ACTION_LABELS[pendingTransition]} this appointment?`)}
+            </DialogTitle>
+          </DialogHeader>
+          {reasonCodeRequired && (
+            <Select
+              value={reasonCodeId === null ? "" : String(reasonCodeId)}
+              onValueChange={(value) => setReasonCodeId(Number(value))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {reasonCodeOptions.map((reasonCode) => (
+                  <SelectItem key={reasonCode.id} value={String(reasonCode.id)}>
+                    {reasonCode.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={reasonRequired ? "Reason (required)" : "Note (optional)"}
+          />
+          <DialogFooter>
+            <Button
+              disabled={
+                transitionMutation.isPending ||
+                (reasonRequired && !reason.trim()) ||
+                (reasonCodeRequired && reasonCodeId === null)
+              }
+              onClick={() => transitionMutation.mutate({
+                to: pendingTransition!,
+                reasonCodeId: reasonCodeRequired ? reasonCodeId! : undefined,
+                reason: reason.trim(),
+              })}
+            >
+              {pendingTransition && actionLabel(pendingTransition)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {transitions.includes("booked") && (
+        <BookingDialog
+          appointment={appointment}
+          open={bookingOpen}
+          onOpenChange={setBookingOpen}
+          onError={handleMutationError}
+        />
+      )}
+
+      {showReschedule && (
+        <BookingDialog
+          appointment={appointment}
+          reschedule
+          open={rescheduleOpen}
+          onOpenChange={setRescheduleOpen}
+          onError={handleMutationError}
+        />
+      )}
+
+      {canResubmit && (
+        <ResubmitDialog
+          appointment={appointment}
+          client={client}
+          open={resubmitOpen}
+          onOpenChange={setResubmitOpen}
+          onError={handleMutationError}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
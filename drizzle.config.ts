@@ -1,14 +1,13 @@
 import { defineConfig } from "drizzle-kit";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error("DATABASE_URL, ensure the database is provisioned");
-}
-
+// `drizzle-kit generate` only diffs shared/schema.ts against migrations/ and needs
+// no connection; the credentials are used by tools like `drizzle-kit studio`.
 export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  ...(process.env.DATABASE_DRIVER === "pglite" ? { driver: "pglite" as const } : {}),
   dbCredentials: {
-    url: process.env.DATABASE_URL,
+    url: process.env.DATABASE_URL ?? "",
   },
 });
@@ -0,0 +1,84 @@
+-- Written idempotently so databases previously managed with `drizzle-kit push`
+-- can adopt migrations: existing tables are kept and brought up to date.
+CREATE TABLE IF NOT EXISTS "appointment_documents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"appointment_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"storage_key" text NOT NULL,
+	"content_hash" text NOT NULL,
+	"size" integer NOT NULL,
+	"mime_type" text NOT NULL,
+	"uploaded_by" integer NOT NULL,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "appointments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"client_id" integer NOT NULL,
+	"team_id" integer NOT NULL,
+	"status" text NOT NULL,
+	"collected_by" integer NOT NULL,
+	"approved_by" integer,
+	"pdf_url" text,
+	"booking_details" jsonb NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "attachments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"content_hash" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"thumbnail_key" text,
+	"preview_key" text,
+	"width" integer,
+	"height" integer,
+	"uploaded_by" integer,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "clients" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"passport_number" text NOT NULL,
+	"full_name" text NOT NULL,
+	"phone_number" text NOT NULL,
+	"email" text NOT NULL,
+	"national_id" text NOT NULL,
+	"passport_image" text,
+	"passport_attachment_id" integer,
+	"work_type" text NOT NULL,
+	"workplace" text NOT NULL,
+	"gender" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "team_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"added_by" integer NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "teams" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"role" text NOT NULL,
+	"created_by" integer,
+	"team_id" integer,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "appointment_documents_appointment_version_idx" ON "appointment_documents" USING btree ("appointment_id","version");--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN IF NOT EXISTS "passport_attachment_id" integer;--> statement-breakpoint
+ALTER TABLE "clients" ALTER COLUMN "passport_image" DROP NOT NULL;
\ No newline at end of file
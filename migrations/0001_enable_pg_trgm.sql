@@ -0,0 +1,2 @@
+-- Trigram operators and indexes used by client search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
\ No newline at end of file
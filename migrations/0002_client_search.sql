@@ -0,0 +1,8 @@
+ALTER TABLE "clients" ADD COLUMN "name_key" text;--> statement-breakpoint
+CREATE INDEX "clients_full_name_trgm_idx" ON "clients" USING gin ("full_name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "clients_name_key_trgm_idx" ON "clients" USING gin ("name_key" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "clients_passport_number_trgm_idx" ON "clients" USING gin ("passport_number" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "clients_national_id_trgm_idx" ON "clients" USING gin ("national_id" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "clients_email_trgm_idx" ON "clients" USING gin ("email" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "clients_phone_digits_trgm_idx" ON "clients" USING gin (regexp_replace("phone_number", '[^0-9]', '', 'g') gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "clients_full_name_fts_idx" ON "clients" USING gin (to_tsvector('simple', "full_name"));
\ No newline at end of file
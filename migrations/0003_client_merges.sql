@@ -0,0 +1,13 @@
+CREATE TABLE "client_merges" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"survivor_id" integer NOT NULL,
+	"merged_client_id" integer NOT NULL,
+	"merged_client" jsonb NOT NULL,
+	"appointment_ids" jsonb NOT NULL,
+	"merged_by" integer NOT NULL,
+	"merged_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "merged_into" integer;--> statement-breakpoint
+CREATE INDEX "clients_passport_number_key_idx" ON "clients" USING btree (upper(regexp_replace("passport_number", '[^0-9a-zA-Z]', '', 'g')));--> statement-breakpoint
+CREATE INDEX "clients_national_id_key_idx" ON "clients" USING btree (upper(regexp_replace("national_id", '[^0-9a-zA-Z]', '', 'g')));
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "appointment_status_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"appointment_id" integer NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"reason" text,
+	"changed_by" integer NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "appointment_status_changes_appointment_idx" ON "appointment_status_changes" USING btree ("appointment_id");--> statement-breakpoint
+-- Appointments awaiting approval were stored as 'pending'
+UPDATE "appointments" SET "status" = 'submitted' WHERE "status" = 'pending';--> statement-breakpoint
+-- Start the history of existing appointments; approval times were not recorded
+INSERT INTO "appointment_status_changes" ("appointment_id", "from_status", "to_status", "changed_by", "changed_at")
+SELECT "id", NULL, 'submitted', "collected_by", "created_at"::timestamptz FROM "appointments";--> statement-breakpoint
+INSERT INTO "appointment_status_changes" ("appointment_id", "from_status", "to_status", "changed_by", "changed_at")
+SELECT "id", 'submitted', "status", COALESCE("approved_by", "collected_by"), "created_at"::timestamptz
+FROM "appointments" WHERE "status" <> 'submitted';
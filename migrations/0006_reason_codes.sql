@@ -0,0 +1,12 @@
+CREATE TABLE "reason_codes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" text NOT NULL,
+	"label" text NOT NULL,
+	"states" jsonb NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "reason_codes_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "appointment_status_changes" ADD COLUMN "reason_code_id" integer;--> statement-breakpoint
+ALTER TABLE "appointment_status_changes" ADD COLUMN "client_changes" jsonb;
\ No newline at end of file
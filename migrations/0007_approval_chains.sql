@@ -0,0 +1,23 @@
+CREATE TABLE "approval_decisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"appointment_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"step_name" text NOT NULL,
+	"decided_by" integer NOT NULL,
+	"note" text,
+	"decided_at" timestamp DEFAULT now() NOT NULL,
+	"voided_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "approval_steps" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"name" text NOT NULL,
+	"role" text,
+	"user_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"required_approvals" integer DEFAULT 1 NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "approval_decisions_appointment_idx" ON "approval_decisions" USING btree ("appointment_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "approval_steps_team_position_idx" ON "approval_steps" USING btree ("team_id","position");
\ No newline at end of file
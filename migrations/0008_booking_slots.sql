@@ -0,0 +1,30 @@
+CREATE TABLE "blackout_dates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"location_id" integer,
+	"date" date NOT NULL,
+	"reason" text NOT NULL,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "locations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"address" text,
+	"timezone" text DEFAULT 'UTC' NOT NULL,
+	"open_time" text DEFAULT '09:00' NOT NULL,
+	"close_time" text DEFAULT '17:00' NOT NULL,
+	"slot_minutes" integer DEFAULT 30 NOT NULL,
+	"slot_capacity" integer DEFAULT 1 NOT NULL,
+	"daily_capacity" integer NOT NULL,
+	"working_days" jsonb DEFAULT '[0,1,2,3,4,5,6]'::jsonb NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "appointments" ADD COLUMN "location_id" integer;--> statement-breakpoint
+ALTER TABLE "appointments" ADD COLUMN "slot_start" timestamp;--> statement-breakpoint
+CREATE INDEX "blackout_dates_date_idx" ON "blackout_dates" USING btree ("date");--> statement-breakpoint
+CREATE INDEX "appointments_location_slot_idx" ON "appointments" USING btree ("location_id","slot_start");--> statement-breakpoint
+-- The old booking details only ever held the creation time, so there is nothing to carry over
+ALTER TABLE "appointments" DROP COLUMN "booking_details";
\ No newline at end of file
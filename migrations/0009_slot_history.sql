@@ -0,0 +1,13 @@
+CREATE TABLE "appointment_slot_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"appointment_id" integer NOT NULL,
+	"from_location_id" integer,
+	"from_slot_start" timestamp,
+	"to_location_id" integer,
+	"to_slot_start" timestamp,
+	"reason" text,
+	"changed_by" integer NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "appointment_slot_changes_appointment_idx" ON "appointment_slot_changes" USING btree ("appointment_id");
\ No newline at end of file
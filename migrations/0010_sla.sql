@@ -0,0 +1,21 @@
+CREATE TABLE "sla_breaches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"appointment_id" integer NOT NULL,
+	"status_change_id" integer NOT NULL,
+	"status" text NOT NULL,
+	"due_at" timestamp NOT NULL,
+	"detected_at" timestamp DEFAULT now() NOT NULL,
+	"escalated_to" integer,
+	CONSTRAINT "sla_breaches_status_change_id_unique" UNIQUE("status_change_id")
+);
+--> statement-breakpoint
+CREATE TABLE "sla_policies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"status" text NOT NULL,
+	"hours" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "teams" ADD COLUMN "lead_id" integer;--> statement-breakpoint
+CREATE INDEX "sla_breaches_appointment_idx" ON "sla_breaches" USING btree ("appointment_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "sla_policies_team_status_idx" ON "sla_policies" USING btree ("team_id","status");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "appointments" ADD COLUMN "assigned_to" integer;--> statement-breakpoint
+ALTER TABLE "teams" ADD COLUMN "assignment_mode" text DEFAULT 'manual' NOT NULL;--> statement-breakpoint
+ALTER TABLE "teams" ADD COLUMN "last_assigned_to" integer;--> statement-breakpoint
+CREATE INDEX "appointments_assigned_to_idx" ON "appointments" USING btree ("assigned_to","status");
\ No newline at end of file
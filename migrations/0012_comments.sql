@@ -0,0 +1,30 @@
+CREATE TABLE "appointment_comment_edits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"comment_id" integer NOT NULL,
+	"previous_body" text NOT NULL,
+	"edited_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "appointment_comment_reads" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"appointment_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"last_read_comment_id" integer NOT NULL,
+	"read_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "appointment_comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"appointment_id" integer NOT NULL,
+	"author_id" integer NOT NULL,
+	"body" text NOT NULL,
+	"internal" boolean DEFAULT false NOT NULL,
+	"mentions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"attachment_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"edited_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "appointment_comment_edits_comment_idx" ON "appointment_comment_edits" USING btree ("comment_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "appointment_comment_reads_appointment_user_idx" ON "appointment_comment_reads" USING btree ("appointment_id","user_id");--> statement-breakpoint
+CREATE INDEX "appointment_comments_appointment_idx" ON "appointment_comments" USING btree ("appointment_id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "checklist_documents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"appointment_id" integer NOT NULL,
+	"document_type" text NOT NULL,
+	"attachment_id" integer NOT NULL,
+	"uploaded_by" integer NOT NULL,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "document_requirements" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_type" text NOT NULL,
+	"workplace" text,
+	"work_type" text,
+	"gender" text,
+	"mandatory" boolean DEFAULT true NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "checklist_documents_appointment_idx" ON "checklist_documents" USING btree ("appointment_id");
\ No newline at end of file
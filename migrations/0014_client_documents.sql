@@ -0,0 +1,32 @@
+CREATE TABLE "client_document_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"document_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"attachment_id" integer NOT NULL,
+	"issue_date" date,
+	"expiry_date" date,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reviewed_by" integer,
+	"reviewed_at" timestamp,
+	"review_note" text,
+	"uploaded_by" integer NOT NULL,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "client_documents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"client_id" integer NOT NULL,
+	"document_type" text NOT NULL,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "client_document_versions_document_version_idx" ON "client_document_versions" USING btree ("document_id","version");--> statement-breakpoint
+CREATE INDEX "client_documents_client_idx" ON "client_documents" USING btree ("client_id");--> statement-breakpoint
+INSERT INTO "client_documents" ("id", "client_id", "document_type", "created_by", "created_at")
+SELECT c."id", a."client_id", c."document_type", c."uploaded_by", c."uploaded_at"
+FROM "checklist_documents" c JOIN "appointments" a ON a."id" = c."appointment_id";--> statement-breakpoint
+INSERT INTO "client_document_versions" ("document_id", "version", "attachment_id", "uploaded_by", "uploaded_at")
+SELECT "id", 1, "attachment_id", "uploaded_by", "uploaded_at" FROM "checklist_documents";--> statement-breakpoint
+SELECT setval(pg_get_serial_sequence('client_documents', 'id'), COALESCE((SELECT max("id") FROM "client_documents"), 0) + 1, false);--> statement-breakpoint
+DROP TABLE "checklist_documents" CASCADE;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "passport_rules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"workplace" text,
+	"min_validity_months" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "passport_rules_workplace_idx" ON "passport_rules" USING btree (coalesce("workplace", ''));--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "passport_issue_date" date;--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "passport_expiry_date" date;--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "passport_issuing_country" text;--> statement-breakpoint
+CREATE INDEX "clients_passport_expiry_date_idx" ON "clients" USING btree ("passport_expiry_date");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "clients" ADD COLUMN "date_of_birth" date;--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "nationality" text;
\ No newline at end of file
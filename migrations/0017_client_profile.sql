@@ -0,0 +1,43 @@
+CREATE TABLE "client_education" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"client_id" integer NOT NULL,
+	"level" text NOT NULL,
+	"institution" text NOT NULL,
+	"field_of_study" text,
+	"start_year" integer,
+	"end_year" integer
+);
+--> statement-breakpoint
+CREATE TABLE "client_languages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"client_id" integer NOT NULL,
+	"language" text NOT NULL,
+	"proficiency" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "client_skills" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"client_id" integer NOT NULL,
+	"name" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "client_work_experience" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"client_id" integer NOT NULL,
+	"employer" text NOT NULL,
+	"position" text NOT NULL,
+	"country" text,
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"duties" text
+);
+--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "marital_status" text;--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "address" text;--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "emergency_contact_name" text;--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "emergency_contact_relationship" text;--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "emergency_contact_phone" text;--> statement-breakpoint
+CREATE INDEX "client_education_client_idx" ON "client_education" USING btree ("client_id");--> statement-breakpoint
+CREATE INDEX "client_languages_client_idx" ON "client_languages" USING btree ("client_id");--> statement-breakpoint
+CREATE INDEX "client_skills_client_idx" ON "client_skills" USING btree ("client_id");--> statement-breakpoint
+CREATE INDEX "client_work_experience_client_idx" ON "client_work_experience" USING btree ("client_id");
\ No newline at end of file
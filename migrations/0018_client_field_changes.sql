@@ -0,0 +1,12 @@
+CREATE TABLE "client_field_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"client_id" integer NOT NULL,
+	"field" text NOT NULL,
+	"old_value" jsonb,
+	"new_value" jsonb,
+	"appointment_id" integer,
+	"changed_by" integer NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "client_field_changes_client_idx" ON "client_field_changes" USING btree ("client_id","changed_at");
\ No newline at end of file
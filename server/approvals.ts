@@ -0,0 +1,54 @@
+import type { ApprovalDecision, ApprovalProgress, ApprovalStep, User } from "@shared/schema";
+
+type Step = Omit<ApprovalStep, "id" | "teamId">;
+
+// Teams that have not configured a chain keep the original single sign-off
+const DEFAULT_STEPS: Step[] = [
+  { position: 1, name: "Approval", role: "approver", userIds: [], requiredApprovals: 1 },
+];
+
+export function policySteps(steps: ApprovalStep[]): Step[] {
+  return steps.length > 0 ? steps : DEFAULT_STEPS;
+}
+
+// Admins can sign any step; everyone else must be named on the step or hold its role
+export function isEligible(step: Step, user: Pick<User, "id" | "role">): boolean {
+  if (user.role === "admin") return true;
+  return step.userIds.length > 0 ? step.userIds.includes(user.id) : user.role === step.role;
+}
+
+// Steps are signed in order, and nobody signs more than once per round
+export function approvalProgress(
+  steps: ApprovalStep[],
+  decisions: ApprovalDecision[],
+  user: Pick<User, "id" | "role">,
+): ApprovalProgress {
+  const active = decisions.filter((decision) => decision.voidedAt === null);
+  const progress = policySteps(steps).map(({ position, name, role, userIds, requiredApprovals }) => {
+    const stepDecisions = active.filter((decision) => decision.position === position);
+    return {
+      position,
+      name,
+      role,
+      userIds,
+      requiredApprovals,
+      decisions: stepDecisions,
+      complete: stepDecisions.length >= requiredApprovals,
+    };
+  });
+
+  const current = progress.find((step) => !step.complete);
+  return {
+    steps: progress,
+    currentPosition: current?.position ?? null,
+    canSign: current !== undefined &&
+      isEligible(current, user) &&
+      !active.some((decision) => decision.decidedBy === user.id),
+  };
+}
+
+// Whether one more sign-off on the current step finishes the whole chain
+export function completesChain(progress: ApprovalProgress): boolean {
+  const remaining = progress.steps.filter((step) => !step.complete);
+  return remaining.length === 1 && remaining[0].decisions.length + 1 >= remaining[0].requiredApprovals;
+}
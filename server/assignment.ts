@@ -0,0 +1,51 @@
+import type { AssignmentLoad, AssignmentMode } from "@shared/schema";
+
+// Approvers in the order round-robin visits them, starting after the last one assigned
+function rotation(approverIds: number[], lastAssignedTo: number | null): number[] {
+  const sorted = [...approverIds].sort((a, b) => a - b);
+  const next = sorted.findIndex((id) => lastAssignedTo === null || id > lastAssignedTo);
+  return next === -1 ? sorted : [...sorted.slice(next), ...sorted.slice(0, next)];
+}
+
+// The approver who gets the next appointment, or undefined when nobody is picked
+// automatically. loads counts each approver's queued appointments; least-loaded
+// breaks ties in round-robin order so equal queues still take turns.
+export function pickAssignee(
+  mode: AssignmentMode,
+  approverIds: number[],
+  loads: Map<number, number>,
+  lastAssignedTo: number | null,
+): number | undefined {
+  if (mode === "manual") return undefined;
+
+  const candidates = rotation(approverIds, lastAssignedTo);
+  if (mode === "round_robin") return candidates[0];
+
+  let best: number | undefined;
+  for (const id of candidates) {
+    if (best === undefined || (loads.get(id) ?? 0) < (loads.get(best) ?? 0)) best = id;
+  }
+  return best;
+}
+
+// Assignees for a batch of appointments taken off absent approvers, in order.
+// Manual teams are spread by load, since nobody is there to claim the cases.
+export function distribute(
+  mode: AssignmentMode,
+  queues: AssignmentLoad[],
+  count: number,
+  lastAssignedTo: number | null,
+): number[] {
+  const loads = new Map(queues.map((queue) => [queue.userId, queue.assigned]));
+  const approverIds = queues.map((queue) => queue.userId);
+  const assignees: number[] = [];
+  let last = lastAssignedTo;
+  for (let i = 0; i < count; i++) {
+    const assignee = pickAssignee(mode === "manual" ? "least_loaded" : mode, approverIds, loads, last);
+    if (assignee === undefined) break;
+    assignees.push(assignee);
+    loads.set(assignee, (loads.get(assignee) ?? 0) + 1);
+    last = assignee;
+  }
+  return assignees;
+}
@@ -0,0 +1,57 @@
+import { DOCUMENT_TYPES, type AppointmentChecklist, type Client, type ClientDocumentWithVersions, type DocumentRequirement } from "@shared/schema";
+
+type ClientProfile = Pick<Client, "workplace" | "workType" | "gender">;
+
+function sameWorkType(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function requirementApplies(requirement: DocumentRequirement, client: ClientProfile): boolean {
+  return (requirement.workplace === null || requirement.workplace === client.workplace) &&
+    (requirement.workType === null || sameWorkType(requirement.workType, client.workType)) &&
+    (requirement.gender === null || requirement.gender === client.gender);
+}
+
+// Pending documents count, so that collectors can finish the checklist before anyone reviews it
+export function isUsable(document: ClientDocumentWithVersions, today: string): boolean {
+  const current = document.versions[0];
+  return current !== undefined &&
+    current.status !== "rejected" &&
+    (current.expiryDate === null || current.expiryDate >= today);
+}
+
+// Approval needs a reviewer to have verified the document, not just a pending upload
+export function isVerified(document: ClientDocumentWithVersions, today: string): boolean {
+  return isUsable(document, today) && document.versions[0].status === "verified";
+}
+
+// The client's requirements merged per document type, in DOCUMENT_TYPES order. today is
+// YYYY-MM-DD and decides which documents have expired.
+export function appointmentChecklist(
+  requirements: DocumentRequirement[],
+  client: ClientProfile,
+  documents: ClientDocumentWithVersions[],
+  today: string,
+): AppointmentChecklist {
+  const applicable = requirements.filter((requirement) => requirementApplies(requirement, client));
+  const items = DOCUMENT_TYPES
+    .filter((type) => applicable.some((requirement) => requirement.documentType === type))
+    .map((documentType) => {
+      const matching = applicable.filter((requirement) => requirement.documentType === documentType);
+      const provided = documents.filter((document) => document.documentType === documentType);
+      return {
+        documentType,
+        mandatory: matching.some((requirement) => requirement.mandatory),
+        notes: matching.flatMap((requirement) => requirement.note ? [requirement.note] : []),
+        documents: provided,
+        complete: provided.some((document) => isUsable(document, today)),
+        verified: provided.some((document) => isVerified(document, today)),
+      };
+    });
+
+  return {
+    items,
+    missing: items.filter((item) => item.mandatory && !item.complete).map((item) => item.documentType),
+    unreviewed: items.filter((item) => item.mandatory && item.complete && !item.verified).map((item) => item.documentType),
+  };
+}
@@ -0,0 +1,19 @@
+import type { User } from "@shared/schema";
+
+// Collectors only see the comments everyone can see
+export function seesInternalComments(user: Pick<User, "role">): boolean {
+  return user.role !== "collector";
+}
+
+// Usernames written as @username in a comment body, each once. Trailing
+// punctuation is dropped so "thanks @sara." mentions sara.
+export function mentionedUsernames(body: string): string[] {
+  const usernames = new Set<string>();
+  const pattern = /(?:^|[^\w@])@([\w.-]+)/g;
+  let match;
+  while ((match = pattern.exec(body)) !== null) {
+    const username = match[1].replace(/[.-]+$/, "");
+    if (username) usernames.add(username);
+  }
+  return Array.from(usernames);
+}
@@ -0,0 +1,15 @@
+// CSV as spreadsheet programs read it: RFC 4180 quoting and CRLF line ends
+type Cell = string | number | null | undefined;
+
+// Text that spreadsheets would run as a formula, e.g. a client named =HYPERLINK(...)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: Cell): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: Cell[][]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -1,15 +1,76 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePostgres } from 'drizzle-orm/node-postgres';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import { migrate as migrateNeon } from 'drizzle-orm/neon-serverless/migrator';
+import { migrate as migrateNodePostgres } from 'drizzle-orm/node-postgres/migrator';
+import { migrate as migratePglite } from 'drizzle-orm/pglite/migrator';
+import type { MigrationConfig } from 'drizzle-orm/migrator';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { PGlite } from '@electric-sql/pglite';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import pg from 'pg';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+export type DatabaseDriver = "neon" | "node-postgres" | "pglite";
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// The part of pg.Pool that connect-pg-simple uses
+export type SessionPool = {
+  query(text: string, params?: any[]): Promise<{ rows: any[] }>;
+};
+
+export const databaseDriver = (process.env.DATABASE_DRIVER || "neon") as DatabaseDriver;
+
+// The in-memory storage driver never touches the database, so it can run without one.
+// PGlite falls back to an in-memory database when no data directory is given.
+if (!process.env.DATABASE_URL && process.env.STORAGE_DRIVER !== "memory" && databaseDriver !== "pglite") {
   throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
+    "DATABASE_URL must be set. Did you forget to provision a database? Set STORAGE_DRIVER=memory to run without one.",
   );
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+type Connection = {
+  db: Database;
+  sessionPool: SessionPool;
+  // Each driver ships its own migrator, bound to its concrete database type
+  migrate(config: MigrationConfig): Promise<void>;
+};
+
+function connect(): Connection {
+  switch (databaseDriver) {
+    case "neon": {
+      const pool = new NeonPool({ connectionString: process.env.DATABASE_URL });
+      const db = drizzleNeon({ client: pool, schema });
+      return { db, sessionPool: pool, migrate: (config) => migrateNeon(db, config) };
+    }
+    case "node-postgres": {
+      const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+      const db = drizzleNodePostgres({ client: pool, schema });
+      return { db, sessionPool: pool, migrate: (config) => migrateNodePostgres(db, config) };
+    }
+    case "pglite": {
+      // DATABASE_URL is a data directory for PGlite, e.g. ./data/pglite
+      const client = new PGlite({ dataDir: process.env.DATABASE_URL, extensions: { pg_trgm } });
+      const db = drizzlePglite({ client, schema });
+      return {
+        db,
+        migrate: (config) => migratePglite(db, config),
+        sessionPool: {
+          // Parameterless queries may contain several statements (connect-pg-simple's
+          // table definition), which only exec() accepts
+          query: async (text, params) => params?.length
+            ? await client.query(text, params)
+            : (await client.exec(text)).at(-1)!,
+        },
+      };
+    }
+    default:
+      throw new Error(`Unknown DATABASE_DRIVER: ${databaseDriver}`);
+  }
+}
+
+export const { db, sessionPool, migrate } = connect();
@@ -0,0 +1,129 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey,
+} from "@aws-sdk/client-s3";
+
+// Binary storage for uploaded files. Metadata (hashes, versions, uploaders)
+// lives in the database; a FileStore only maps opaque keys to bytes.
+export interface FileStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalFileStore implements FileStore {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string) {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temporary file first so a crash never leaves a truncated object behind
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, data);
+    await fs.rename(tmpPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (err: any) {
+      if (err.code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export class S3FileStore implements FileStore {
+  private client: S3Client;
+
+  constructor(private readonly bucket: string, options: {
+    region?: string;
+    endpoint?: string;
+    forcePathStyle?: boolean;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+  }) {
+    this.client = new S3Client({
+      region: options.region || "us-east-1",
+      endpoint: options.endpoint,
+      // MinIO and most other S3-compatible servers only support path-style URLs
+      forcePathStyle: options.forcePathStyle ?? !!options.endpoint,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
+      if (!result.Body) return undefined;
+      return Buffer.from(await result.Body.transformToByteArray());
+    } catch (err) {
+      if (err instanceof NoSuchKey) return undefined;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+  }
+}
+
+export function createFileStore(): FileStore {
+  const driver = process.env.FILE_STORE_DRIVER || "local";
+
+  switch (driver) {
+    case "local":
+      return new LocalFileStore(process.env.FILE_STORE_DIR || path.resolve("uploads"));
+    case "s3":
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set when FILE_STORE_DRIVER is 's3'");
+      }
+      return new S3FileStore(process.env.S3_BUCKET, {
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+          ? process.env.S3_FORCE_PATH_STYLE === "true"
+          : undefined,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+    default:
+      throw new Error(`Unknown FILE_STORE_DRIVER: ${driver}`);
+  }
+}
+
+export const fileStore = createFileStore();
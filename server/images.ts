@@ -0,0 +1,65 @@
+import sharp, { type Sharp } from "sharp";
+
+export const IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+const THUMBNAIL_SIZE = 200;
+const PREVIEW_SIZE = 1200;
+
+export type ProcessedImage = {
+  original: Buffer;
+  mimeType: string;
+  thumbnail: Buffer;
+  preview: Buffer;
+  width: number;
+  height: number;
+};
+
+// Re-encodes an uploaded image so that EXIF and other metadata (GPS position,
+// device serials) never reach storage, and renders the smaller variants the UI uses.
+export async function processImage(input: Buffer): Promise<ProcessedImage> {
+  // rotate() with no arguments applies the EXIF orientation before it is dropped
+  const image = sharp(input, { failOn: "error" }).rotate();
+  const { format } = await image.metadata();
+
+  let encoded: Sharp;
+  let mimeType: string;
+  switch (format) {
+    case "jpeg":
+      encoded = image.clone().jpeg({ quality: 95 });
+      mimeType = "image/jpeg";
+      break;
+    case "webp":
+      encoded = image.clone().webp({ quality: 95 });
+      mimeType = "image/webp";
+      break;
+    case "png":
+    case "gif":
+      encoded = image.clone().png();
+      mimeType = "image/png";
+      break;
+    default:
+      throw new Error(`Unsupported image format: ${format}`);
+  }
+  const original = await encoded.toBuffer({ resolveWithObject: true });
+
+  const thumbnail = await image
+    .clone()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+
+  const preview = await image
+    .clone()
+    .resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+
+  return {
+    original: original.data,
+    mimeType,
+    thumbnail,
+    preview,
+    width: original.info.width,
+    height: original.info.height,
+  };
+}
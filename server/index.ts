@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { runMigrations } from "./migrate";
+import { runSeeds } from "./seed";
+import { startSlaScheduler } from "./sla";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +41,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Bring the schema up to date before anything touches the database
+  if (process.env.STORAGE_DRIVER !== "memory" && process.env.MIGRATE_ON_START !== "false") {
+    await runMigrations();
+  }
+  await runSeeds(storage);
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -65,5 +75,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startSlaScheduler();
   });
 })();
@@ -0,0 +1,17 @@
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+import { migrate } from "./db";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Resolves to the repository's migrations/ both from server/ (tsx) and dist/ (bundled build)
+const migrationsFolder = path.resolve(__dirname, "..", "migrations");
+
+// Applies pending migrations from migrations/. Applied migrations are recorded in
+// drizzle.__drizzle_migrations, so running this repeatedly is safe.
+export async function runMigrations() {
+  console.log("Applying database migrations");
+  await migrate({ migrationsFolder });
+  console.log("Database schema is up to date");
+}
@@ -0,0 +1,111 @@
+// Machine readable zone of a passport (ICAO 9303 TD3): two lines of 44 characters.
+// Field positions and check digits follow part 4 of the specification.
+
+import type { MrzCheck, MrzPassport } from "@shared/schema";
+
+const LINE_LENGTH = 44;
+
+const CHECK_LABELS: Record<MrzCheck, string> = {
+  passportNumber: "passport number",
+  dateOfBirth: "date of birth",
+  expiryDate: "expiry date",
+  personalNumber: "personal number",
+  composite: "whole line",
+};
+
+export class MrzError extends Error {}
+
+// Digits count as themselves, A-Z as 10-35 and the filler as 0, weighted 7, 3, 1 in turn
+export function checkDigit(field: string): number {
+  let sum = 0;
+  for (let i = 0; i < field.length; i++) {
+    const char = field[i];
+    const value = char === "<" ? 0 : /\d/.test(char) ? Number(char) : char.charCodeAt(0) - 55;
+    sum += value * [7, 3, 1][i % 3];
+  }
+  return sum % 10;
+}
+
+function checks(field: string, digit: string): boolean {
+  return digit === String(checkDigit(field));
+}
+
+function unfill(field: string): string {
+  return field.replace(/<+/g, " ").trim();
+}
+
+function titleCase(name: string): string {
+  return name.toLowerCase().replace(/(^|[\s'-])([a-z])/g, (_, separator, letter) => separator + letter.toUpperCase());
+}
+
+// YYMMDD to YYYY-MM-DD. Birth years after this year are last century; expiry years are this one.
+function mrzDate(field: string, kind: "birth" | "expiry", today: Date): string | null {
+  if (!/^\d{6}$/.test(field)) return null;
+  const year = Number(field.slice(0, 2));
+  const month = Number(field.slice(2, 4));
+  const day = Number(field.slice(4, 6));
+  const century = kind === "birth" && year > today.getUTCFullYear() % 100 ? 1900 : 2000;
+
+  const date = new Date(Date.UTC(century + year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// Scanners type both lines followed by Enter, and people type them with spaces,
+// so whitespace is dropped and one 88-character line is split in two
+export function splitMrz(text: string): [string, string] {
+  const lines = text.toUpperCase().split(/[\r\n]+/).map((line) => line.replace(/\s/g, "")).filter(Boolean);
+  if (lines.length === 1 && lines[0].length === LINE_LENGTH * 2) {
+    return [lines[0].slice(0, LINE_LENGTH), lines[0].slice(LINE_LENGTH)];
+  }
+  if (lines.length !== 2) throw new MrzError("Enter the two lines at the bottom of the passport's photo page");
+  return [lines[0], lines[1]];
+}
+
+export function parseMrz(text: string, today = new Date()): MrzPassport {
+  const [line1, line2] = splitMrz(text);
+  if (line1.length !== LINE_LENGTH || line2.length !== LINE_LENGTH) {
+    throw new MrzError(`Each line must be ${LINE_LENGTH} characters; got ${line1.length} and ${line2.length}`);
+  }
+  if (!/^[A-Z0-9<]+$/.test(line1 + line2)) {
+    throw new MrzError("The lines may only contain A-Z, 0-9 and <");
+  }
+  if (line1[0] !== "P") throw new MrzError("This is not a passport MRZ; the first line must start with P");
+
+  const [surname, ...given] = line1.slice(5).split("<<").filter(Boolean);
+  const givenNames = unfill(given.join("<"));
+  const personalNumber = line2.slice(28, 42);
+
+  const invalid: MrzCheck[] = [];
+  if (!checks(line2.slice(0, 9), line2[9])) invalid.push("passportNumber");
+  if (!checks(line2.slice(13, 19), line2[19])) invalid.push("dateOfBirth");
+  if (!checks(line2.slice(21, 27), line2[27])) invalid.push("expiryDate");
+  // An empty personal number may have a filler instead of a zero check digit
+  if (!(personalNumber === "<".repeat(14) && line2[42] === "<") && !checks(personalNumber, line2[42])) {
+    invalid.push("personalNumber");
+  }
+  if (!checks(line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 43), line2[43])) invalid.push("composite");
+  if (invalid.length > 0) {
+    throw new MrzError(
+      `Check digits do not match for the ${invalid.map((check) => CHECK_LABELS[check]).join(", ")}. Rescan or retype the lines.`,
+    );
+  }
+
+  const dateOfBirth = mrzDate(line2.slice(13, 19), "birth", today);
+  const expiryDate = mrzDate(line2.slice(21, 27), "expiry", today);
+  if (!expiryDate) throw new MrzError("The expiry date is not a valid date");
+
+  const sex = line2[20];
+  return {
+    issuingCountry: unfill(line1.slice(2, 5)),
+    surname: titleCase(unfill(surname ?? "")),
+    givenNames: titleCase(givenNames),
+    fullName: titleCase(unfill(`${givenNames} ${unfill(surname ?? "")}`)),
+    passportNumber: unfill(line2.slice(0, 9)),
+    nationality: unfill(line2.slice(10, 13)),
+    dateOfBirth,
+    gender: sex === "M" ? "male" : sex === "F" ? "female" : null,
+    expiryDate,
+    personalNumber: unfill(personalNumber) || null,
+  };
+}
@@ -0,0 +1,30 @@
+import PDFDocument from "pdfkit";
+import type { Appointment, Client, Location } from "@shared/schema";
+
+// The appointment summary handed to the client, showing the slot on the location's clock
+export function renderAppointmentPdf(appointment: Appointment, client: Client, location?: Location): Promise<Buffer> {
+  const doc = new PDFDocument();
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  doc.fontSize(25).text('Appointment Details', { align: 'center' });
+  doc.moveDown();
+  doc.fontSize(14);
+  doc.text(`Client: ${client.fullName}`);
+  doc.text(`Passport Number: ${client.passportNumber}`);
+  doc.text(`National ID: ${client.nationalId}`);
+  doc.text(`Status: ${appointment.status}`);
+  if (location && appointment.slotStart) {
+    doc.text(`Location: ${location.name}${location.address ? `, ${location.address}` : ""}`);
+    doc.text(`Slot: ${appointment.slotStart.toLocaleString("en-GB", { timeZone: location.timezone, dateStyle: "full", timeStyle: "short" })}`);
+  } else {
+    doc.text("Slot: not booked");
+  }
+  doc.end();
+
+  return done;
+}
@@ -1,10 +1,23 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
-import { insertClientSchema, insertAppointmentSchema, insertUserSchema, insertTeamSchema } from "@shared/schema";
-import PDFDocument from "pdfkit";
+import { storage, SlotUnavailableError, VersionConflictError } from "./storage";
+import { IMAGE_MIME_TYPES, processImage } from "./images";
+import { duplicateFields } from "./search";
+import { approvalProgress, completesChain } from "./approvals";
+import { renderAppointmentPdf } from "./pdf";
+import { appointmentChecklist } from "./checklist";
+import { mentionedUsernames, seesInternalComments } from "./comments";
+import { toCsv } from "./csv";
+import { createZip } from "./zip";
+import { MrzError, parseMrz } from "./mrz";
+import { log } from "./vite";
+import { addDays, availability, blackoutOn, dayBounds, isSlotStart, localDate } from "./slots";
+import { insertClientSchema, clientProfileSchema, clientPatchSchema, insertAppointmentSchema, insertUserSchema, insertTeamSchema, appointmentQuerySchema, clientQuerySchema, clientSearchSchema, clientDuplicateQuerySchema, clientMergeSchema, appointmentTransitionSchema, appointmentResubmitSchema, insertReasonCodeSchema, updateReasonCodeSchema, approvalPolicySchema, slaPolicySetSchema, teamUpdateSchema, teamRebalanceSchema, appointmentAssignSchema, appointmentSlaQuerySchema, attachmentContentQuerySchema, insertLocationSchema, insertBlackoutDateSchema, slotQuerySchema, appointmentBookingSchema, appointmentRescheduleSchema, appointmentBulkSchema, appointmentExportQuerySchema, commentInputSchema, commentEditSchema, commentUnreadQuerySchema, insertDocumentRequirementSchema, passportRuleSetSchema, passportExpiryQuerySchema, mrzInputSchema, updateDocumentRequirementSchema, clientDocumentUploadSchema, clientDocumentVersionSchema, clientDocumentReviewSchema, DOCUMENT_TYPE_LABELS, type Appointment, type AppointmentChecklist, type AppointmentTransition, type AppointmentBulkAction, type BulkActionResult, type Client, type PassportExpiry, type User } from "@shared/schema";
+import { canEditClient, canReschedule, canTransition, isOpen, isQueued, requiresReasonCode, INITIAL_STATE, REASON_REQUIRED, STATE_LABELS } from "@shared/workflow";
+import { addMonths, minValidityMonths, passportProblem } from "@shared/passport";
+import { fromZodError } from "zod-validation-error";
 import { scrypt, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 
@@ -33,6 +46,235 @@ const upload = multer({
   }
 });
 
+// Images, plus PDFs for documents attached to comments
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (IMAGE_MIME_TYPES.includes(file.mimetype) || file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(null, false);
+    }
+  }
+});
+
+function sendVersionConflict(res: Response, current: Appointment) {
+  return res.status(409).json({
+    message: "This appointment has been changed by someone else. Reload it and try again.",
+    appointment: current,
+  });
+}
+
+// Why the slot cannot be booked, or null when it can. Capacity is checked when the slot is reserved.
+async function slotProblem(locationId: number, slotStart: Date): Promise<string | null> {
+  const location = await storage.getLocation(locationId);
+  if (!location || !location.active) return "Location not found";
+  if (!isSlotStart(location, slotStart)) return "That is not a slot at this location";
+  if (slotStart <= new Date()) return "That slot has already started";
+
+  const date = localDate(slotStart, location.timezone);
+  const blackout = blackoutOn(await storage.getBlackoutDates(date, date, locationId), locationId, date);
+  return blackout ? `${location.name} is closed on ${date}: ${blackout.reason}` : null;
+}
+
+// Adds a regenerated booking PDF as a new version whenever the appointment moves to a
+// new slot, so that the latest download always shows the current slot. A released slot
+// keeps the last PDF, which still shows where the client was booked.
+async function refreshBookingPdf(before: Appointment, after: Appointment, userId: number) {
+  if (!after.pdfUrl || !after.locationId || !after.slotStart) return;
+  if (before.locationId === after.locationId && before.slotStart?.getTime() === after.slotStart?.getTime()) return;
+
+  const client = await storage.getClient(after.clientId);
+  if (!client) return;
+  const location = await storage.getLocation(after.locationId);
+  await storage.storePdf(after.id, await renderAppointmentPdf(after, client, location), userId);
+}
+
+// Appointments that reach the approvers' queue unassigned go to the team's next
+// approver, unless the team assigns them by hand
+async function assignIfQueued(appointment: Appointment): Promise<Appointment> {
+  if (appointment.assignedTo !== null || !isQueued(appointment.status)) return appointment;
+  return (await storage.autoAssignAppointment(appointment.id)) ?? appointment;
+}
+
+// Why a change cannot be made, with the status to answer with
+type Problem = { status: number; message: string };
+
+// Why the user cannot make the transition, or null when they can. The caller checks the version.
+async function transitionProblem(
+  appointment: Appointment,
+  user: User,
+  { to, reasonCodeId, reason }: AppointmentTransition,
+): Promise<Problem | null> {
+  if (!canTransition(appointment.status, to, user.role)) {
+    return { status: 403, message: `A ${user.role} cannot move an appointment from ${appointment.status} to ${to}` };
+  }
+  if (REASON_REQUIRED.includes(to) && !reason) {
+    return { status: 400, message: `A reason is required to move an appointment to ${STATE_LABELS[to]}` };
+  }
+  if (to === "booked") {
+    return { status: 400, message: `Pick a slot with POST /api/appointments/${appointment.id}/booking to book an appointment` };
+  }
+  if (requiresReasonCode(to)) {
+    if (reasonCodeId === undefined) {
+      return { status: 400, message: `A reason code is required to move an appointment to ${STATE_LABELS[to]}` };
+    }
+    const reasonCode = await storage.getReasonCode(reasonCodeId);
+    if (!reasonCode || !reasonCode.active || !reasonCode.states.includes(to)) {
+      return { status: 400, message: `Reason code ${reasonCodeId} cannot be used for ${STATE_LABELS[to]}` };
+    }
+  } else if (reasonCodeId !== undefined) {
+    return { status: 400, message: `Reason codes are not used for ${STATE_LABELS[to]}` };
+  }
+
+  if (to === "approved") {
+    const progress = await appointmentApprovals(appointment, user);
+    const step = progress.steps.find((s) => s.position === progress.currentPosition);
+    if (!step || !progress.canSign) {
+      return {
+        status: 403,
+        message: step
+          ? `You cannot sign off "${step.name}" on this appointment`
+          : "Every approval step has already been signed off",
+      };
+    }
+
+    const { missing, unreviewed } = await checklistFor(appointment);
+    if (missing.length > 0) {
+      return {
+        status: 409,
+        message: `Missing required documents: ${missing.map((type) => DOCUMENT_TYPE_LABELS[type]).join(", ")}`,
+      };
+    }
+    if (unreviewed.length > 0) {
+      return {
+        status: 409,
+        message: `Required documents not yet verified: ${unreviewed.map((type) => DOCUMENT_TYPE_LABELS[type]).join(", ")}`,
+      };
+    }
+  }
+  return null;
+}
+
+// The documents the appointment's client needs, given the requirement matrix and the client's documents
+async function checklistFor(appointment: Appointment): Promise<AppointmentChecklist> {
+  const [requirements, client, documents] = await Promise.all([
+    storage.getDocumentRequirements(),
+    storage.getClient(appointment.clientId),
+    storage.getClientDocuments(appointment.clientId),
+  ]);
+  if (!client) return { items: [], missing: [], unreviewed: [] };
+  return appointmentChecklist(requirements, client, documents, new Date().toISOString().slice(0, 10));
+}
+
+// Why the client's passport would not last long enough for travel on validFrom, under their workplace's rule
+async function passportRuleProblem(
+  client: Pick<Client, "workplace" | "passportIssueDate" | "passportExpiryDate">,
+  validFrom: string,
+): Promise<string | null> {
+  const months = minValidityMonths(await storage.getPassportRules(), client.workplace);
+  return passportProblem(client, months, validFrom, new Date().toISOString().slice(0, 10));
+}
+
+// Booked appointments are held to the date of the slot at its location
+async function bookingPassportProblem(appointment: Appointment, locationId: number, slotStart: Date): Promise<string | null> {
+  const [client, location] = await Promise.all([storage.getClient(appointment.clientId), storage.getLocation(locationId)]);
+  if (!client || !location) return null;
+  return passportRuleProblem(client, localDate(slotStart, location.timezone));
+}
+
+async function appointmentApprovals(appointment: Appointment, user: User) {
+  const [steps, decisions] = await Promise.all([
+    storage.getApprovalSteps(appointment.teamId),
+    storage.getApprovalDecisions(appointment.id),
+  ]);
+  return approvalProgress(steps, decisions, user);
+}
+
+// Makes a transition that transitionProblem allowed. Approving signs off the current
+// step of the team's chain; the appointment only becomes approved with the last sign-off.
+// Throws VersionConflictError when the version is stale.
+async function applyTransition(appointment: Appointment, user: User, transition: AppointmentTransition): Promise<Appointment> {
+  const { to, reasonCodeId, reason, version } = transition;
+  if (to === "approved") {
+    const progress = await appointmentApprovals(appointment, user);
+    const step = progress.steps.find((s) => s.position === progress.currentPosition)!;
+    const updated = await storage.signOffAppointment(appointment.id, {
+      position: step.position,
+      stepName: step.name,
+      decidedBy: user.id,
+      note: reason,
+      completesChain: completesChain(progress),
+    }, version);
+    return await assignIfQueued(updated);
+  }
+
+  const updated = await storage.transitionAppointment(appointment.id, { to, reasonCodeId, reason, changedBy: user.id }, version);
+  return await assignIfQueued(updated);
+}
+
+// Why the appointment cannot be assigned to the user, or null when it can; null unassigns it
+async function assignmentProblem(appointment: Appointment, assignedTo: number | null): Promise<Problem | null> {
+  if (assignedTo === null) return null;
+  const assignee = await storage.getUser(assignedTo);
+  if (!assignee || assignee.role !== "approver" || assignee.teamId !== appointment.teamId) {
+    return { status: 400, message: "Appointments can only be assigned to approvers in their team" };
+  }
+  if (!isQueued(appointment.status)) {
+    return { status: 409, message: "Only appointments waiting on an approver can be assigned" };
+  }
+  return null;
+}
+
+// The users named with @username in a comment; unknown names stay plain text. Internal
+// comments cannot mention collectors, who would never see them.
+async function commentMentions(body: string, internal: boolean): Promise<number[] | Problem> {
+  const mentioned: User[] = [];
+  for (const username of mentionedUsernames(body)) {
+    const user = await storage.getUserByUsername(username);
+    if (user) mentioned.push(user);
+  }
+  const hidden = internal ? mentioned.filter((user) => !seesInternalComments(user)) : [];
+  if (hidden.length > 0) {
+    return { status: 400, message: `${hidden.map((user) => user.username).join(", ")} cannot see internal comments` };
+  }
+  return mentioned.map((user) => user.id);
+}
+
+// Checks and applies a bulk action to one appointment. Team changes have been checked
+// against the target team already.
+async function bulkActionItem(action: AppointmentBulkAction, id: number, version: number, user: User): Promise<BulkActionResult> {
+  const fail = (error: string): BulkActionResult => ({ id, ok: false, error });
+  const appointment = await storage.getAppointment(id);
+  if (!appointment) return fail("Appointment not found");
+  if (appointment.version !== version) return fail("Changed by someone else since it was loaded");
+
+  switch (action.action) {
+    case "approve":
+    case "reject": {
+      const transition: AppointmentTransition = action.action === "approve"
+        ? { to: "approved", reason: action.reason, version }
+        : { to: "rejected", reasonCodeId: action.reasonCodeId, reason: action.reason, version };
+      const problem = await transitionProblem(appointment, user, transition);
+      if (problem) return fail(problem.message);
+      return { id, ok: true, appointment: await applyTransition(appointment, user, transition) };
+    }
+    case "reassign": {
+      const problem = await assignmentProblem(appointment, action.assignedTo);
+      if (problem) return fail(problem.message);
+      const updated = await storage.assignAppointment(id, action.assignedTo);
+      return updated ? { id, ok: true, appointment: updated } : fail("Appointment not found");
+    }
+    case "change_team": {
+      if (appointment.teamId === action.teamId) return { id, ok: true, appointment };
+      if (!isOpen(appointment.status)) return fail("Finished appointments cannot change team");
+      const updated = await storage.moveAppointmentToTeam(id, action.teamId, version);
+      return { id, ok: true, appointment: await assignIfQueued(updated) };
+    }
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   setupAuth(app);
 
@@ -57,6 +299,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(users);
   });
 
+  // Public profile, so appointment pages can name who collected, approved or changed them
+  app.get("/api/users/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid user ID");
+
+    const user = await storage.getUser(id);
+    if (!user) return res.sendStatus(404);
+    res.json({ id: user.id, username: user.username, role: user.role });
+  });
+
   app.post("/api/users/change-password", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     if (req.user.role !== "admin") return res.sendStatus(403);
@@ -129,22 +383,257 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(201).json(teamMember);
   });
 
+  app.get("/api/teams/:id/approval-steps", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid team ID");
+
+    const team = await storage.getTeam(id);
+    if (!team) return res.sendStatus(404);
+
+    const steps = await storage.getApprovalSteps(id);
+    res.json(steps);
+  });
+
+  // Replaces the team's approval chain; an empty list restores the single approver sign-off
+  app.put("/api/teams/:id/approval-steps", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid team ID");
+
+    const team = await storage.getTeam(id);
+    if (!team) return res.sendStatus(404);
+
+    const policy = approvalPolicySchema.safeParse(req.body);
+    if (!policy.success) return res.status(400).send(fromZodError(policy.error).message);
+
+    const users = await storage.getAllUsers();
+    for (const step of policy.data.steps) {
+      const invalid = step.userIds.find((userId) => {
+        const user = users.find((u) => u.id === userId);
+        return !user || (user.role !== "approver" && user.role !== "admin");
+      });
+      if (invalid !== undefined) {
+        return res.status(400).send(`User ${invalid} cannot sign "${step.name}": only approvers and admins can`);
+      }
+    }
+
+    const steps = await storage.setApprovalSteps(id, policy.data.steps);
+    res.json(steps);
+  });
+
+  // Sets who receives the team's SLA escalations
+  app.patch("/api/teams/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid team ID");
+
+    const update = teamUpdateSchema.safeParse(req.body);
+    if (!update.success) return res.status(400).send(fromZodError(update.error).message);
+
+    const { leadId } = update.data;
+    if (leadId !== undefined && leadId !== null) {
+      const lead = await storage.getUser(leadId);
+      const eligible = lead && (lead.role === "admin" || (lead.role === "approver" && lead.teamId === id));
+      if (!eligible) return res.status(400).send("The team lead must be an approver in the team or an admin");
+    }
+
+    const team = await storage.updateTeam(id, update.data);
+    if (!team) return res.sendStatus(404);
+    res.json(team);
+  });
+
+  app.get("/api/teams/:id/sla-policies", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid team ID");
+
+    const team = await storage.getTeam(id);
+    if (!team) return res.sendStatus(404);
+
+    const policies = await storage.getSlaPolicies(id);
+    res.json(policies);
+  });
+
+  // Replaces the team's SLAs; statuses left out have no time limit
+  app.put("/api/teams/:id/sla-policies", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid team ID");
+
+    const team = await storage.getTeam(id);
+    if (!team) return res.sendStatus(404);
+
+    const policySet = slaPolicySetSchema.safeParse(req.body);
+    if (!policySet.success) return res.status(400).send(fromZodError(policySet.error).message);
+
+    const policies = await storage.setSlaPolicies(id, policySet.data.policies);
+    res.json(policies);
+  });
+
+  app.get("/api/teams/:id/assignments", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid team ID");
+
+    const team = await storage.getTeam(id);
+    if (!team) return res.sendStatus(404);
+
+    const loads = await storage.getAssignmentLoads(id);
+    res.json(loads);
+  });
+
+  // Spreads the queues of absent approvers over the rest of the team
+  app.post("/api/teams/:id/rebalance", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid team ID");
+
+    const team = await storage.getTeam(id);
+    if (!team) return res.sendStatus(404);
+
+    const rebalance = teamRebalanceSchema.safeParse(req.body);
+    if (!rebalance.success) return res.status(400).send(fromZodError(rebalance.error).message);
+
+    const { absentUserIds } = rebalance.data;
+    const loads = await storage.getAssignmentLoads(id);
+    if (!loads.some((load) => !absentUserIds.includes(load.userId))) {
+      return res.status(400).send("Nobody else in the team can take over the appointments");
+    }
+
+    const moved = await storage.rebalanceAssignments(id, absentUserIds);
+    res.json(moved);
+  });
+
   // Client routes
+
+  // Reads the passport's machine readable zone so the client form can be prefilled and checked
+  app.post("/api/mrz", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parsed = mrzInputSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).send(fromZodError(parsed.error).message);
+
+    try {
+      res.json(parseMrz(parsed.data.mrz));
+    } catch (err) {
+      if (err instanceof MrzError) return res.status(400).send(err.message);
+      throw err;
+    }
+  });
+
   app.post("/api/clients", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     if (req.user.role !== "collector") return res.sendStatus(403);
 
-    const clientData = insertClientSchema.parse(req.body);
-    const client = await storage.createClient(clientData);
+    // The profile's languages, education, work experience and skills come with the client's fields
+    const parsed = insertClientSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).send(fromZodError(parsed.error).message);
+    const profile = clientProfileSchema.safeParse(req.body);
+    if (!profile.success) return res.status(400).send(fromZodError(profile.error).message);
+    const clientData = parsed.data;
+    const passportAttachment = await storage.getAttachment(clientData.passportAttachmentId);
+    if (!passportAttachment) return res.status(400).send("Passport image not found");
+    if (!IMAGE_MIME_TYPES.includes(passportAttachment.mimeType)) return res.status(400).send("Passport image must be an image");
+    const passportIssue = await passportRuleProblem(clientData, new Date().toISOString().slice(0, 10));
+    if (passportIssue) return res.status(400).send(passportIssue);
+
+    // Returning workers should be booked against their existing record; the form
+    // offers the matches and retries with allowDuplicate=true to create a new one anyway
+    if (req.query.allowDuplicate !== "true") {
+      const duplicates = await storage.findDuplicateClients(clientData);
+      if (duplicates.length > 0) {
+        return res.status(409).json({
+          message: "A client with the same passport number, national ID or phone number already exists",
+          duplicates: duplicates.map((client) => ({ client, matchedOn: duplicateFields(client, clientData) })),
+        });
+      }
+    }
+
+    const client = await storage.createClient(clientData, profile.data);
     res.status(201).json(client);
   });
 
   app.get("/api/clients", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const clients = await storage.getAllClients();
+
+    const query = clientQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const clients = await storage.listClients(query.data);
     res.json(clients);
   });
 
+  app.get("/api/clients/duplicates", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const query = clientDuplicateQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const duplicates = await storage.findDuplicateClients(query.data);
+    res.json(duplicates.map((client) => ({ client, matchedOn: duplicateFields(client, query.data) })));
+  });
+
+  app.get("/api/clients/merges", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const merges = await storage.getClientMerges();
+    res.json(merges);
+  });
+
+  app.post("/api/clients/merges", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const mergeData = clientMergeSchema.safeParse(req.body);
+    if (!mergeData.success) return res.status(400).send(fromZodError(mergeData.error).message);
+
+    const { survivorId, mergedClientId } = mergeData.data;
+    const [survivor, mergedClient] = await Promise.all([
+      storage.getClient(survivorId),
+      storage.getClient(mergedClientId),
+    ]);
+    if (!survivor || !mergedClient) return res.status(404).send("Client not found");
+    if (survivor.mergedInto !== null || mergedClient.mergedInto !== null) {
+      return res.status(409).send("Client has already been merged");
+    }
+
+    const merge = await storage.mergeClients(survivorId, mergedClientId, req.user.id);
+    res.status(201).json(merge);
+  });
+
+  // Matching clients with their appointments, for the dashboard's search box
+  app.get("/api/clients/search", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const query = clientSearchSchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const clients = await storage.searchClients(query.data.q, query.data.limit);
+    const results = await Promise.all(clients.map(async (client) => {
+      const { items } = await storage.listAppointments(
+        appointmentQuerySchema.parse({ clientId: client.id, limit: 100 }),
+      );
+      return { client, appointments: items };
+    }));
+    res.json(results);
+  });
+
   app.get("/api/clients/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
@@ -156,130 +645,1090 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(client);
   });
 
-  // Appointment routes
-  app.post("/api/appointments", async (req, res) => {
+  app.get("/api/clients/:id/profile", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    if (req.user.role !== "collector") return res.sendStatus(403);
 
-    const appointmentData = insertAppointmentSchema.parse({
-      ...req.body,
-      collectedBy: req.user.id,
-      status: "pending",
-      createdAt: new Date().toISOString(),
-    });
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const client = await storage.getClient(id);
+    if (!client) return res.sendStatus(404);
 
-    const appointment = await storage.createAppointment(appointmentData);
-    res.status(201).json(appointment);
+    const profile = await storage.getClientProfile(id);
+    res.json(profile);
   });
 
-  app.patch("/api/appointments/:id", async (req, res) => {
+  // Collectors correct a client they collected until one of the client's appointments is
+  // approved; admins at any time. Each changed field is recorded in the client's history.
+  app.patch("/api/clients/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    if (req.user.role !== "approver") return res.sendStatus(403);
 
     const id = parseId(req.params.id);
     if (id === null) return res.status(400).send("Invalid ID");
 
-    const appointment = await storage.getAppointment(id);
-    if (!appointment) return res.sendStatus(404);
+    const client = await storage.getClient(id);
+    if (!client) return res.sendStatus(404);
+    if (!canEditClient(req.user, await storage.getClientEditFacts(id, req.user.id))) return res.sendStatus(403);
+    if (client.mergedInto !== null) return res.status(409).send("Client has been merged into another client");
+
+    const parsed = clientPatchSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).send(fromZodError(parsed.error).message);
+    const patch = parsed.data;
+    if (patch.passportAttachmentId !== undefined) {
+      const passportAttachment = await storage.getAttachment(patch.passportAttachmentId);
+      if (!passportAttachment) return res.status(400).send("Passport image not found");
+      if (!IMAGE_MIME_TYPES.includes(passportAttachment.mimeType)) return res.status(400).send("Passport image must be an image");
+    }
+    // Only edits to the passport or workplace are held to the rule, so an older record can
+    // still be corrected after its passport has run short
+    const passportFields = ["passportIssueDate", "passportExpiryDate", "workplace"] as const;
+    if (passportFields.some((field) => patch[field] !== undefined && patch[field] !== client[field])) {
+      const passportIssue = await passportRuleProblem({ ...client, ...patch }, new Date().toISOString().slice(0, 10));
+      if (passportIssue) return res.status(400).send(passportIssue);
+    }
 
-    const updated = await storage.updateAppointment(id, {
-      ...appointment,
-      ...req.body,
-      approvedBy: req.user.id,
-      status: "approved",
-    });
+    // Changed identifiers must not match another client, unless confirmed as for new clients
+    const identifiers = {
+      passportNumber: patch.passportNumber !== client.passportNumber ? patch.passportNumber : undefined,
+      nationalId: patch.nationalId !== client.nationalId ? patch.nationalId : undefined,
+      phoneNumber: patch.phoneNumber !== client.phoneNumber ? patch.phoneNumber : undefined,
+    };
+    if (req.query.allowDuplicate !== "true") {
+      const duplicates = (await storage.findDuplicateClients(identifiers)).filter((other) => other.id !== id);
+      if (duplicates.length > 0) {
+        return res.status(409).json({
+          message: "A client with the same passport number, national ID or phone number already exists",
+          duplicates: duplicates.map((other) => ({ client: other, matchedOn: duplicateFields(other, identifiers) })),
+        });
+      }
+    }
 
+    const updated = await storage.updateClient(id, patch, req.user.id);
     res.json(updated);
   });
 
-  app.post("/api/appointments/:id/pdf", upload.single('pdf'), async (req, res) => {
+  // Whether the PATCH above would let the user edit the client, for the client's page
+  app.get("/api/clients/:id/editable", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    if (req.user.role !== "approver") return res.sendStatus(403);
 
     const id = parseId(req.params.id);
     if (id === null) return res.status(400).send("Invalid ID");
 
-    const appointment = await storage.getAppointment(id);
-    if (!appointment) return res.sendStatus(404);
+    const client = await storage.getClient(id);
+    if (!client) return res.sendStatus(404);
 
-    if (!req.file) {
-      return res.status(400).send("No PDF file uploaded");
-    }
+    const facts = await storage.getClientEditFacts(id, req.user.id);
+    res.json({ editable: client.mergedInto === null && canEditClient(req.user, facts) });
+  });
 
-    const pdfUrl = `/api/appointments/${id}/download-pdf`;
-    await storage.storePdf(id, req.file.buffer);
+  app.get("/api/clients/:id/history", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-    const updated = await storage.updateAppointment(id, {
-      ...appointment,
-      pdfUrl,
-    });
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
 
-    res.json(updated);
+    const client = await storage.getClient(id);
+    if (!client) return res.sendStatus(404);
+
+    const history = await storage.getClientFieldChanges(id);
+    res.json(history);
   });
 
-  app.get("/api/appointments/:id/download-pdf", async (req, res) => {
+  app.get("/api/clients/:id/documents", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     const id = parseId(req.params.id);
     if (id === null) return res.status(400).send("Invalid ID");
 
-    const appointment = await storage.getAppointment(id);
-    if (!appointment) return res.sendStatus(404);
-
-    const pdfContent = await storage.getPdf(id);
-    if (!pdfContent) return res.sendStatus(404);
+    const client = await storage.getClient(id);
+    if (!client) return res.sendStatus(404);
 
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename=appointment-${id}.pdf`);
-    res.send(pdfContent);
+    const documents = await storage.getClientDocuments(id);
+    res.json(documents);
   });
 
-  app.get("/api/appointments", async (req, res) => {
+  app.post("/api/clients/:id/documents", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const appointments = await storage.getAllAppointments();
-    res.json(appointments);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const client = await storage.getClient(id);
+    if (!client) return res.sendStatus(404);
+
+    const upload = clientDocumentUploadSchema.safeParse(req.body);
+    if (!upload.success) return res.status(400).send(fromZodError(upload.error).message);
+    if (!await storage.getAttachment(upload.data.attachmentId)) return res.status(400).send("Attachment not found");
+
+    const document = await storage.createClientDocument({ ...upload.data, clientId: id, uploadedBy: req.user.id });
+    res.status(201).json(document);
   });
 
-  app.get("/api/appointments/:id", async (req, res) => {
+  // A replacement file, e.g. a renewed certificate. It becomes the current version and awaits review.
+  app.post("/api/clients/:id/documents/:documentId/versions", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
 
     const id = parseId(req.params.id);
-    if (id === null) return res.status(400).send("Invalid ID");
+    const documentId = parseId(req.params.documentId);
+    if (id === null || documentId === null) return res.status(400).send("Invalid ID");
 
-    const appointment = await storage.getAppointment(id);
-    if (!appointment) return res.sendStatus(404);
-    res.json(appointment);
+    const document = await storage.getClientDocument(documentId);
+    if (!document || document.clientId !== id) return res.sendStatus(404);
+
+    const upload = clientDocumentVersionSchema.safeParse(req.body);
+    if (!upload.success) return res.status(400).send(fromZodError(upload.error).message);
+    if (!await storage.getAttachment(upload.data.attachmentId)) return res.status(400).send("Attachment not found");
+
+    const version = await storage.addClientDocumentVersion(documentId, { ...upload.data, uploadedBy: req.user.id });
+    res.status(201).json(version);
   });
 
-  app.get("/api/appointments/:id/pdf", async (req, res) => {
+  app.post("/api/clients/:id/documents/:documentId/review", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "approver" && req.user.role !== "admin") return res.sendStatus(403);
 
     const id = parseId(req.params.id);
-    if (id === null) return res.status(400).send("Invalid ID");
+    const documentId = parseId(req.params.documentId);
+    if (id === null || documentId === null) return res.status(400).send("Invalid ID");
 
-    const appointment = await storage.getAppointment(id);
-    if (!appointment) return res.sendStatus(404);
+    const document = await storage.getClientDocument(documentId);
+    if (!document || document.clientId !== id) return res.sendStatus(404);
 
-    const client = await storage.getClient(appointment.clientId);
-    if (!client) return res.sendStatus(404);
+    const review = clientDocumentReviewSchema.safeParse(req.body);
+    if (!review.success) return res.status(400).send(fromZodError(review.error).message);
 
-    const doc = new PDFDocument();
+    const { version, status, note } = review.data;
+    if (!document.versions.some((v) => v.version === version)) {
+      return res.status(400).send(`Version ${version} of this document does not exist`);
+    }
+    const reviewed = await storage.reviewClientDocument(documentId, version, { status, note, reviewedBy: req.user.id });
+    if (!reviewed) {
+      return res.status(409).send("A newer version of this document has been uploaded. Reload and review that one.");
+    }
+    res.json(reviewed);
+  });
 
-    // Generate PDF content
-    doc.fontSize(25).text('Appointment Details', { align: 'center' });
-    doc.moveDown();
-    doc.fontSize(14);
-    doc.text(`Client: ${client.fullName}`);
-    doc.text(`Passport Number: ${client.passportNumber}`);
-    doc.text(`National ID: ${client.nationalId}`);
-    doc.text(`Status: ${appointment.status}`);
-    doc.text(`Booking Details: ${JSON.stringify(appointment.bookingDetails, null, 2)}`);
+  // Attachment routes
+  app.post("/api/attachments", attachmentUpload.single('file'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
 
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename=appointment-${appointment.id}.pdf`);
+    if (!req.file) {
+      return res.status(400).send("No image or PDF file uploaded");
+    }
+
+    if (req.file.mimetype === 'application/pdf') {
+      const attachment = await storage.createAttachment({
+        fileName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        content: req.file.buffer,
+        uploadedBy: req.user.id,
+      });
+      return res.status(201).json(attachment);
+    }
+
+    let image;
+    try {
+      image = await processImage(req.file.buffer);
+    } catch {
+      return res.status(400).send("Could not read image file");
+    }
+
+    const attachment = await storage.createAttachment({
+      fileName: req.file.originalname,
+      mimeType: image.mimeType,
+      content: image.original,
+      thumbnail: image.thumbnail,
+      preview: image.preview,
+      width: image.width,
+      height: image.height,
+      uploadedBy: req.user.id,
+    });
+    res.status(201).json(attachment);
+  });
 
-    doc.pipe(res);
-    doc.end();
+  app.get("/api/attachments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const attachment = await storage.getAttachment(id);
+    if (!attachment) return res.sendStatus(404);
+    res.json(attachment);
+  });
+
+  app.get("/api/attachments/:id/content", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const query = attachmentContentQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const { variant } = query.data;
+    const stored = await storage.getAttachmentContent(id, variant);
+    if (!stored) return res.sendStatus(404);
+
+    res.setHeader('Content-Type', stored.mimeType);
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+    if (variant === "original") {
+      res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(stored.attachment.fileName)}"`);
+    }
+    res.send(stored.content);
+  });
+
+  // Locations and their booking calendars
+  app.get("/api/locations", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    // Inactive locations still label appointments booked there
+    const locations = await storage.getLocations(req.query.includeInactive === "true");
+    res.json(locations);
+  });
+
+  app.get("/api/locations/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const location = await storage.getLocation(id);
+    if (!location) return res.sendStatus(404);
+    res.json(location);
+  });
+
+  app.post("/api/locations", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const locationData = insertLocationSchema.safeParse(req.body);
+    if (!locationData.success) return res.status(400).send(fromZodError(locationData.error).message);
+
+    const location = await storage.createLocation(locationData.data);
+    res.status(201).json(location);
+  });
+
+  app.patch("/api/locations/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const location = await storage.getLocation(id);
+    if (!location) return res.sendStatus(404);
+
+    // Validated as a whole so that opening hours stay consistent
+    const locationData = insertLocationSchema.safeParse({ ...location, ...req.body });
+    if (!locationData.success) return res.status(400).send(fromZodError(locationData.error).message);
+
+    const updated = await storage.updateLocation(id, locationData.data);
+    res.json(updated);
+  });
+
+  app.get("/api/locations/:id/slots", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const location = await storage.getLocation(id);
+    if (!location) return res.sendStatus(404);
+
+    const query = slotQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const { from, days } = query.data;
+    const dates = Array.from({ length: days }, (_, i) => addDays(from, i));
+    const last = dates[dates.length - 1];
+    const [blackouts, bookings] = await Promise.all([
+      storage.getBlackoutDates(from, last, id),
+      storage.getSlotBookings(id, dayBounds(location, from).start, dayBounds(location, last).end),
+    ]);
+    const counts = new Map(bookings.map((b) => [b.slotStart.getTime(), b.count]));
+    res.json(availability(location, dates, blackouts, counts));
+  });
+
+  app.get("/api/blackout-dates", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const from = typeof req.query.from === "string" ? req.query.from : "0000-01-01";
+    const to = typeof req.query.to === "string" ? req.query.to : "9999-12-31";
+    const locationId = req.query.locationId ? parseId(String(req.query.locationId)) : undefined;
+    if (locationId === null) return res.status(400).send("Invalid location ID");
+
+    const blackouts = await storage.getBlackoutDates(from, to, locationId);
+    res.json(blackouts);
+  });
+
+  app.post("/api/blackout-dates", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const blackoutData = insertBlackoutDateSchema.safeParse(req.body);
+    if (!blackoutData.success) return res.status(400).send(fromZodError(blackoutData.error).message);
+
+    if (blackoutData.data.locationId !== null && !(await storage.getLocation(blackoutData.data.locationId))) {
+      return res.status(400).send("Location not found");
+    }
+
+    const blackout = await storage.createBlackoutDate({ ...blackoutData.data, createdBy: req.user.id });
+    res.status(201).json(blackout);
+  });
+
+  // Appointments already booked on the date keep their slots
+  app.delete("/api/blackout-dates/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const deleted = await storage.deleteBlackoutDate(id);
+    if (!deleted) return res.sendStatus(404);
+    res.sendStatus(204);
+  });
+
+  // How long passports must stay valid beyond the booking date; the forms read these too
+  app.get("/api/passport-rules", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const rules = await storage.getPassportRules();
+    res.json(rules);
+  });
+
+  // Replaces every rule. Rules apply from then on; clients and bookings already made are not rechecked.
+  app.put("/api/passport-rules", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const ruleSet = passportRuleSetSchema.safeParse(req.body);
+    if (!ruleSet.success) return res.status(400).send(fromZodError(ruleSet.error).message);
+
+    const rules = await storage.setPassportRules(ruleSet.data.rules);
+    res.json(rules);
+  });
+
+  // Which documents clients need, by workplace, work type and gender
+  app.get("/api/document-requirements", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const requirements = await storage.getDocumentRequirements();
+    res.json(requirements);
+  });
+
+  app.post("/api/document-requirements", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const requirement = insertDocumentRequirementSchema.safeParse(req.body);
+    if (!requirement.success) return res.status(400).send(fromZodError(requirement.error).message);
+
+    const created = await storage.createDocumentRequirement(requirement.data);
+    res.status(201).json(created);
+  });
+
+  app.patch("/api/document-requirements/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const update = updateDocumentRequirementSchema.safeParse(req.body);
+    if (!update.success) return res.status(400).send(fromZodError(update.error).message);
+
+    const requirement = await storage.updateDocumentRequirement(id, update.data);
+    if (!requirement) return res.sendStatus(404);
+    res.json(requirement);
+  });
+
+  // Checklists are derived when read, so removing a requirement takes it off every open appointment
+  app.delete("/api/document-requirements/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const deleted = await storage.deleteDocumentRequirement(id);
+    if (!deleted) return res.sendStatus(404);
+    res.sendStatus(204);
+  });
+
+  // Reason codes for rejecting an appointment or returning it to the collector
+  app.get("/api/reason-codes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    // Deactivated codes are left out of pickers but still label past status changes
+    const includeInactive = req.query.includeInactive === "true";
+    const reasonCodes = await storage.getReasonCodes(includeInactive);
+    res.json(reasonCodes);
+  });
+
+  app.post("/api/reason-codes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const reasonCodeData = insertReasonCodeSchema.safeParse(req.body);
+    if (!reasonCodeData.success) return res.status(400).send(fromZodError(reasonCodeData.error).message);
+
+    const existing = await storage.getReasonCodes(true);
+    if (existing.some((reasonCode) => reasonCode.code === reasonCodeData.data.code)) {
+      return res.status(409).send(`Reason code ${reasonCodeData.data.code} already exists`);
+    }
+
+    const reasonCode = await storage.createReasonCode(reasonCodeData.data);
+    res.status(201).json(reasonCode);
+  });
+
+  // Codes are deactivated rather than deleted, since past status changes refer to them
+  app.patch("/api/reason-codes/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const update = updateReasonCodeSchema.safeParse(req.body);
+    if (!update.success) return res.status(400).send(fromZodError(update.error).message);
+
+    const reasonCode = await storage.updateReasonCode(id, update.data);
+    if (!reasonCode) return res.sendStatus(404);
+    res.json(reasonCode);
+  });
+
+  // Appointment routes
+  app.post("/api/appointments", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "collector") return res.sendStatus(403);
+
+    const parsed = insertAppointmentSchema.safeParse({
+      ...req.body,
+      collectedBy: req.user.id,
+      status: INITIAL_STATE,
+      createdAt: new Date().toISOString(),
+    });
+    if (!parsed.success) return res.status(400).send(fromZodError(parsed.error).message);
+
+    const appointment = await storage.createAppointment(parsed.data);
+    res.status(201).json(await assignIfQueued(appointment));
+  });
+
+  app.post("/api/appointments/:id/transitions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const transition = appointmentTransitionSchema.safeParse(req.body);
+    if (!transition.success) return res.status(400).send(fromZodError(transition.error).message);
+
+    if (transition.data.version !== appointment.version) return sendVersionConflict(res, appointment);
+    const problem = await transitionProblem(appointment, req.user, transition.data);
+    if (problem) return res.status(problem.status).send(problem.message);
+
+    try {
+      res.json(await applyTransition(appointment, req.user, transition.data));
+    } catch (err) {
+      if (err instanceof VersionConflictError) return sendVersionConflict(res, err.current);
+      throw err;
+    }
+  });
+
+  // The collector corrects the client's details on a returned appointment and sends it back for approval
+  app.post("/api/appointments/:id/resubmit", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+    if (req.user.role !== "admin" && appointment.collectedBy !== req.user.id) return res.sendStatus(403);
+
+    const resubmission = appointmentResubmitSchema.safeParse(req.body);
+    if (!resubmission.success) return res.status(400).send(fromZodError(resubmission.error).message);
+
+    const { client, reason, version } = resubmission.data;
+    if (client?.passportAttachmentId !== undefined) {
+      const passportAttachment = await storage.getAttachment(client.passportAttachmentId);
+      if (!passportAttachment) return res.status(400).send("Passport image not found");
+      if (!IMAGE_MIME_TYPES.includes(passportAttachment.mimeType)) return res.status(400).send("Passport image must be an image");
+    }
+    // The corrected client goes back for approval, so it must meet the rule again even if the passport is unchanged
+    const currentClient = await storage.getClient(appointment.clientId);
+    if (currentClient) {
+      const passportIssue = await passportRuleProblem({ ...currentClient, ...client }, new Date().toISOString().slice(0, 10));
+      if (passportIssue) return res.status(400).send(passportIssue);
+    }
+    if (version !== appointment.version) return sendVersionConflict(res, appointment);
+    if (appointment.status !== "needs_info" || !canTransition(appointment.status, "submitted", req.user.role)) {
+      return res.status(409).send("Only appointments returned to the collector can be resubmitted");
+    }
+
+    try {
+      const updated = await storage.transitionAppointment(
+        id,
+        { to: "submitted", reason, clientUpdate: client, changedBy: req.user.id },
+        version,
+      );
+      res.json(await assignIfQueued(updated));
+    } catch (err) {
+      if (err instanceof VersionConflictError) return sendVersionConflict(res, err.current);
+      throw err;
+    }
+  });
+
+  // An approver takes an unassigned appointment from their team's queue
+  app.post("/api/appointments/:id/claim", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "approver") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+    if (appointment.teamId !== req.user.teamId) {
+      return res.status(403).send("You can only claim appointments of your own team");
+    }
+    if (!isQueued(appointment.status)) {
+      return res.status(409).send("Only appointments waiting on an approver can be claimed");
+    }
+    if (appointment.assignedTo === req.user.id) return res.json(appointment);
+
+    const updated = await storage.assignAppointment(id, req.user.id, null);
+    if (!updated) return res.status(409).send("This appointment is already assigned to another approver");
+    res.json(updated);
+  });
+
+  // Puts the appointment back in the team's unassigned pool
+  app.post("/api/appointments/:id/release", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+    if (appointment.assignedTo === null) return res.json(appointment);
+    if (req.user.role !== "admin" && appointment.assignedTo !== req.user.id) return res.sendStatus(403);
+
+    const updated = await storage.assignAppointment(id, null, appointment.assignedTo);
+    if (!updated) return res.status(409).send("The assignment has changed. Reload the appointment and try again.");
+    res.json(updated);
+  });
+
+  app.post("/api/appointments/:id/assign", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const assignment = appointmentAssignSchema.safeParse(req.body);
+    if (!assignment.success) return res.status(400).send(fromZodError(assignment.error).message);
+
+    const { assignedTo } = assignment.data;
+    const problem = await assignmentProblem(appointment, assignedTo);
+    if (problem) return res.status(problem.status).send(problem.message);
+
+    const updated = await storage.assignAppointment(id, assignedTo);
+    if (!updated) return res.sendStatus(404);
+    res.json(updated);
+  });
+
+  // Reserves a slot at a location and marks the appointment booked
+  app.post("/api/appointments/:id/booking", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const booking = appointmentBookingSchema.safeParse(req.body);
+    if (!booking.success) return res.status(400).send(fromZodError(booking.error).message);
+
+    const { locationId, slotStart, version } = booking.data;
+    if (version !== appointment.version) return sendVersionConflict(res, appointment);
+    if (!canTransition(appointment.status, "booked", req.user.role)) {
+      return res.status(403).send(`A ${req.user.role} cannot book an appointment that is ${appointment.status}`);
+    }
+
+    const problem = await slotProblem(locationId, slotStart) ?? await bookingPassportProblem(appointment, locationId, slotStart);
+    if (problem) return res.status(400).send(problem);
+
+    try {
+      const updated = await storage.bookAppointment(id, { locationId, slotStart, changedBy: req.user.id }, version);
+      await refreshBookingPdf(appointment, updated, req.user.id);
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof VersionConflictError) return sendVersionConflict(res, err.current);
+      if (err instanceof SlotUnavailableError) return res.status(409).send(err.message);
+      throw err;
+    }
+  });
+
+  // Moves a booked appointment to another slot, giving the old one back
+  app.post("/api/appointments/:id/reschedule", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const booking = appointmentRescheduleSchema.safeParse(req.body);
+    if (!booking.success) return res.status(400).send(fromZodError(booking.error).message);
+
+    const { locationId, slotStart, reason, version } = booking.data;
+    if (version !== appointment.version) return sendVersionConflict(res, appointment);
+    if (!canReschedule(appointment.status, req.user.role)) {
+      return res.status(403).send(`A ${req.user.role} cannot reschedule an appointment that is ${appointment.status}`);
+    }
+    if (locationId === appointment.locationId && slotStart.getTime() === appointment.slotStart?.getTime()) {
+      return res.status(400).send("The appointment is already booked into that slot");
+    }
+
+    const problem = await slotProblem(locationId, slotStart) ?? await bookingPassportProblem(appointment, locationId, slotStart);
+    if (problem) return res.status(400).send(problem);
+
+    try {
+      const updated = await storage.rescheduleAppointment(id, { locationId, slotStart, reason, changedBy: req.user.id }, version);
+      await refreshBookingPdf(appointment, updated, req.user.id);
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof VersionConflictError) return sendVersionConflict(res, err.current);
+      if (err instanceof SlotUnavailableError) return res.status(409).send(err.message);
+      throw err;
+    }
+  });
+
+  app.get("/api/appointments/:id/slot-history", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const history = await storage.getSlotHistory(id);
+    res.json(history);
+  });
+
+  app.get("/api/appointments/:id/approvals", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const [steps, decisions] = await Promise.all([
+      storage.getApprovalSteps(appointment.teamId),
+      storage.getApprovalDecisions(id),
+    ]);
+    const progress = approvalProgress(steps, decisions, req.user);
+    // Only appointments under review can be signed off
+    res.json({ ...progress, canSign: progress.canSign && appointment.status === "submitted" });
+  });
+
+  app.get("/api/appointments/:id/history", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const history = await storage.getStatusHistory(id);
+    res.json(history);
+  });
+
+  app.get("/api/appointments/:id/checklist", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    res.json(await checklistFor(appointment));
+  });
+
+  app.get("/api/appointments/:id/comments", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const comments = await storage.getComments(id, seesInternalComments(req.user));
+    res.json(comments);
+  });
+
+  app.post("/api/appointments/:id/comments", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const input = commentInputSchema.safeParse(req.body);
+    if (!input.success) return res.status(400).send(fromZodError(input.error).message);
+
+    const { body, internal, attachmentIds } = input.data;
+    if (internal && !seesInternalComments(req.user)) {
+      return res.status(403).send("Collectors cannot post internal comments");
+    }
+    for (const attachmentId of attachmentIds) {
+      if (!await storage.getAttachment(attachmentId)) {
+        return res.status(400).send(`Attachment ${attachmentId} not found`);
+      }
+    }
+
+    const mentions = await commentMentions(body, internal);
+    if (!Array.isArray(mentions)) return res.status(mentions.status).send(mentions.message);
+
+    const comment = await storage.createComment({
+      appointmentId: id,
+      authorId: req.user.id,
+      body,
+      internal,
+      mentions,
+      attachmentIds,
+    });
+    res.status(201).json(comment);
+  });
+
+  // Only the author can edit a comment; the earlier text is kept in its edit history
+  app.patch("/api/appointments/:id/comments/:commentId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    const commentId = parseId(req.params.commentId);
+    if (id === null || commentId === null) return res.status(400).send("Invalid ID");
+
+    const comment = await storage.getComment(commentId);
+    if (!comment || comment.appointmentId !== id) return res.sendStatus(404);
+    if (comment.authorId !== req.user.id) return res.sendStatus(403);
+
+    const edit = commentEditSchema.safeParse(req.body);
+    if (!edit.success) return res.status(400).send(fromZodError(edit.error).message);
+    if (edit.data.body === comment.body) return res.json(comment);
+
+    const mentions = await commentMentions(edit.data.body, comment.internal);
+    if (!Array.isArray(mentions)) return res.status(mentions.status).send(mentions.message);
+
+    const updated = await storage.editComment(commentId, edit.data.body, mentions);
+    res.json(updated);
+  });
+
+  app.get("/api/appointments/:id/comments/:commentId/edits", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    const commentId = parseId(req.params.commentId);
+    if (id === null || commentId === null) return res.status(400).send("Invalid ID");
+
+    const comment = await storage.getComment(commentId);
+    if (!comment || comment.appointmentId !== id) return res.sendStatus(404);
+    if (comment.internal && !seesInternalComments(req.user)) return res.sendStatus(404);
+
+    const edits = await storage.getCommentEdits(commentId);
+    res.json(edits);
+  });
+
+  // Called when the user opens the thread, clearing its unread marker on the dashboard
+  app.post("/api/appointments/:id/comments/read", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    await storage.markCommentsRead(id, req.user.id);
+    res.sendStatus(204);
+  });
+
+  app.post("/api/appointments/:id/pdf", upload.single('pdf'), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "approver") return res.sendStatus(403);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    if (!req.file) {
+      return res.status(400).send("No PDF file uploaded");
+    }
+
+    // Optional for API clients; the appointment page sends the version it shows
+    if (req.body.version !== undefined && Number(req.body.version) !== appointment.version) {
+      return sendVersionConflict(res, appointment);
+    }
+
+    const pdfUrl = `/api/appointments/${id}/download-pdf`;
+    await storage.storePdf(id, req.file.buffer, req.user.id);
+
+    // Only pdfUrl is written, so this cannot undo a concurrent update
+    const updated = await storage.updateAppointment(id, { pdfUrl });
+
+    res.json(updated);
+  });
+
+  app.get("/api/appointments/:id/download-pdf", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    let version: number | undefined;
+    if (req.query.version !== undefined) {
+      const parsed = parseId(String(req.query.version));
+      if (parsed === null) return res.status(400).send("Invalid version");
+      version = parsed;
+    }
+
+    const pdf = await storage.getPdf(id, version);
+    if (!pdf) return res.sendStatus(404);
+
+    res.setHeader('Content-Type', pdf.document.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename=appointment-${id}-v${pdf.document.version}.pdf`);
+    res.setHeader('ETag', `"${pdf.document.contentHash}"`);
+    res.send(pdf.content);
+  });
+
+  app.get("/api/appointments/:id/pdf-versions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const versions = await storage.getPdfVersions(id);
+    res.json(versions);
+  });
+
+  app.get("/api/appointments", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const query = appointmentQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const appointments = await storage.listAppointments(query.data);
+    res.json(appointments);
+  });
+
+  // Runs one action over several appointments. Each is checked and applied on its own,
+  // so one failing item does not stop the rest, and the response reports every item.
+  app.post("/api/appointments/bulk", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin" && req.user.role !== "approver") return res.sendStatus(403);
+
+    const bulk = appointmentBulkSchema.safeParse(req.body);
+    if (!bulk.success) return res.status(400).send(fromZodError(bulk.error).message);
+
+    const action = bulk.data;
+    if ((action.action === "reassign" || action.action === "change_team") && req.user.role !== "admin") {
+      return res.sendStatus(403);
+    }
+    if (action.action === "change_team" && !(await storage.getTeam(action.teamId))) {
+      return res.status(400).send("Team not found");
+    }
+
+    const results: BulkActionResult[] = [];
+    for (const { id, version } of action.items) {
+      try {
+        results.push(await bulkActionItem(action, id, version, req.user));
+      } catch (err) {
+        if (err instanceof VersionConflictError) {
+          results.push({ id, ok: false, error: "Changed by someone else since it was loaded" });
+        } else {
+          log(`bulk ${action.action} failed for appointment ${id}: ${err instanceof Error ? err.message : err}`, "bulk");
+          results.push({ id, ok: false, error: "Something went wrong with this appointment" });
+        }
+      }
+    }
+    res.json(results);
+  });
+
+  app.get("/api/appointments/export", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin" && req.user.role !== "approver") return res.sendStatus(403);
+
+    const query = appointmentExportQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const [allTeams, allUsers, allLocations] = await Promise.all([
+      storage.getAllTeams(),
+      storage.getAllUsers(),
+      storage.getLocations(true),
+    ]);
+    const username = (id: number | null) => (id === null ? null : allUsers.find((u) => u.id === id)?.username);
+
+    const rows = [];
+    for (const id of query.data.ids) {
+      const appointment = await storage.getAppointment(id);
+      if (!appointment) continue;
+      const client = await storage.getClient(appointment.clientId);
+      rows.push([
+        appointment.id,
+        appointment.status,
+        client?.fullName,
+        client?.passportNumber,
+        allTeams.find((t) => t.id === appointment.teamId)?.name,
+        username(appointment.collectedBy),
+        username(appointment.assignedTo),
+        username(appointment.approvedBy),
+        allLocations.find((l) => l.id === appointment.locationId)?.name,
+        appointment.slotStart?.toISOString(),
+        appointment.createdAt,
+      ]);
+    }
+
+    const csv = toCsv(
+      ["ID", "Status", "Client", "Passport Number", "Team", "Collected By", "Assigned To", "Approved By", "Location", "Slot", "Created At"],
+      rows,
+    );
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename=appointments-${new Date().toISOString().slice(0, 10)}.csv`);
+    res.send(csv);
+  });
+
+  // The latest booking PDF of each appointment in one zip; missing.txt lists those without one
+  app.get("/api/appointments/pdfs", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.role !== "admin" && req.user.role !== "approver") return res.sendStatus(403);
+
+    const query = appointmentExportQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const entries = [];
+    const missing: string[] = [];
+    for (const id of query.data.ids) {
+      const stored = await storage.getPdf(id);
+      if (!stored) {
+        missing.push(`Appointment ${id} has no booking PDF`);
+        continue;
+      }
+      entries.push({ name: `appointment-${id}.pdf`, content: stored.content, modifiedAt: stored.document.uploadedAt });
+    }
+    if (entries.length === 0) return res.status(404).send("None of the selected appointments has a booking PDF");
+    if (missing.length > 0) entries.push({ name: "missing.txt", content: Buffer.from(missing.join("\n") + "\n") });
+
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename=appointment-pdfs-${new Date().toISOString().slice(0, 10)}.zip`);
+    res.send(createZip(entries));
+  });
+
+  // Unread comment counts of several appointments at once, for list views
+  app.get("/api/appointments/unread-comments", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const query = commentUnreadQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const unread = await storage.getUnreadComments(query.data.ids, req.user.id, seesInternalComments(req.user));
+    res.json(unread);
+  });
+
+  // Open appointments whose client's passport expires within the next `days` days, with
+  // whether it still meets the rule from the booked slot's date, or from today before booking
+  app.get("/api/appointments/passport-expiry", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const query = passportExpiryQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const today = new Date().toISOString().slice(0, 10);
+    const [rules, allLocations, expiries] = await Promise.all([
+      storage.getPassportRules(),
+      storage.getLocations(true),
+      storage.getPassportExpiries(addDays(today, query.data.days)),
+    ]);
+    const report: PassportExpiry[] = expiries.map(({ appointment, client }) => {
+      const location = allLocations.find((l) => l.id === appointment.locationId);
+      const validFrom = appointment.slotStart && location ? localDate(appointment.slotStart, location.timezone) : today;
+      const months = minValidityMonths(rules, client.workplace);
+      return {
+        appointment,
+        client,
+        requiredUntil: addMonths(validFrom, months),
+        problem: passportProblem(client, months, validFrom, today),
+      };
+    });
+    res.json(report);
+  });
+
+  // SLA standing of several appointments at once, for list views
+  app.get("/api/appointments/sla", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const query = appointmentSlaQuerySchema.safeParse(req.query);
+    if (!query.success) return res.status(400).send(fromZodError(query.error).message);
+
+    const standings = await storage.getAppointmentSla(query.data.ids, new Date());
+    res.json(standings);
+  });
+
+  app.get("/api/appointments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+    res.json(appointment);
+  });
+
+  app.get("/api/appointments/:id/pdf", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).send("Invalid ID");
+
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) return res.sendStatus(404);
+
+    const client = await storage.getClient(appointment.clientId);
+    if (!client) return res.sendStatus(404);
+
+    const location = appointment.locationId ? await storage.getLocation(appointment.locationId) : undefined;
+    const pdf = await renderAppointmentPdf(appointment, client, location);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=appointment-${appointment.id}.pdf`);
+    res.send(pdf);
   });
 
 
@@ -0,0 +1,31 @@
+import { eq } from "drizzle-orm";
+import { clients } from "@shared/schema";
+import { db } from "../db";
+import { nameSearchKey } from "../search";
+
+// Fills clients.name_key for rows created before fuzzy search existed. Also
+// refreshes keys that are out of date after a change to nameSearchKey(), so it
+// is safe to re-run at any time.
+async function backfillClientNameKeys() {
+  const rows = await db
+    .select({ id: clients.id, fullName: clients.fullName, nameKey: clients.nameKey })
+    .from(clients);
+
+  let updated = 0;
+  for (const row of rows) {
+    const nameKey = nameSearchKey(row.fullName);
+    if (row.nameKey === nameKey) continue;
+
+    await db.update(clients).set({ nameKey }).where(eq(clients.id, row.id));
+    updated++;
+  }
+
+  console.log(`Updated the search key of ${updated} of ${rows.length} clients`);
+}
+
+backfillClientNameKeys()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -0,0 +1,60 @@
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import { clients } from "@shared/schema";
+import { db } from "../db";
+import { storage } from "../storage";
+import { processImage } from "../images";
+
+// One-off migration of clients.passport_image (base64 data URLs) into attachments.
+// Safe to re-run: rows that already reference an attachment are skipped, and
+// rows that fail are left untouched and reported.
+async function migratePassportImages() {
+  const rows = await db
+    .select({ id: clients.id, passportImage: clients.passportImage })
+    .from(clients)
+    .where(and(isNotNull(clients.passportImage), isNull(clients.passportAttachmentId)));
+
+  console.log(`Found ${rows.length} clients with an inline passport image`);
+
+  const failures: { clientId: number; reason: string }[] = [];
+  for (const row of rows) {
+    try {
+      const match = /^data:[^;,]*;base64,(.*)$/.exec(row.passportImage!);
+      if (!match) {
+        throw new Error("not a base64 data URL");
+      }
+
+      const image = await processImage(Buffer.from(match[1], "base64"));
+      const extension = image.mimeType.split("/")[1];
+      const attachment = await storage.createAttachment({
+        fileName: `passport-${row.id}.${extension}`,
+        mimeType: image.mimeType,
+        content: image.original,
+        thumbnail: image.thumbnail,
+        preview: image.preview,
+        width: image.width,
+        height: image.height,
+        uploadedBy: null,
+      });
+
+      await db
+        .update(clients)
+        .set({ passportAttachmentId: attachment.id, passportImage: null })
+        .where(eq(clients.id, row.id));
+    } catch (err: any) {
+      failures.push({ clientId: row.id, reason: err.message });
+    }
+  }
+
+  console.log(`Migrated ${rows.length - failures.length} passport images`);
+  for (const failure of failures) {
+    console.error(`Client ${failure.clientId}: ${failure.reason}`);
+  }
+  return failures.length === 0;
+}
+
+migratePassportImages()
+  .then((ok) => process.exit(ok ? 0 : 1))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -0,0 +1,48 @@
+import { eq } from "drizzle-orm";
+import { clients } from "@shared/schema";
+import { DEFAULT_PHONE_COUNTRY, isPhoneCountry, normalizePhone, phoneProblem } from "@shared/phone";
+import { db } from "../db";
+
+// Rewrites clients.phone_number in E.164. Numbers without a country code are read
+// as numbers of --country (default PK). Numbers that are not valid are left as
+// they are and reported, to be corrected by hand. Safe to re-run; with --dry-run
+// nothing is written.
+async function normalizePhoneNumbers() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const country = args.find((arg) => arg.startsWith("--country="))?.slice("--country=".length).toUpperCase()
+    ?? DEFAULT_PHONE_COUNTRY;
+  if (!isPhoneCountry(country)) throw new Error(`Unknown country ${country}; use a two-letter code such as PK`);
+
+  const rows = await db
+    .select({ id: clients.id, fullName: clients.fullName, phoneNumber: clients.phoneNumber })
+    .from(clients);
+
+  let updated = 0;
+  const failures: { clientId: number; fullName: string; phoneNumber: string; reason: string }[] = [];
+  for (const row of rows) {
+    const phoneNumber = normalizePhone(row.phoneNumber, country);
+    if (!phoneNumber) {
+      failures.push({ ...row, clientId: row.id, reason: phoneProblem(row.phoneNumber, country)! });
+      continue;
+    }
+    if (phoneNumber === row.phoneNumber) continue;
+
+    if (!dryRun) await db.update(clients).set({ phoneNumber }).where(eq(clients.id, row.id));
+    updated++;
+  }
+
+  console.log(`${dryRun ? "Would normalize" : "Normalized"} the phone number of ${updated} of ${rows.length} clients`);
+  if (failures.length > 0) console.error("Clients whose phone number could not be read:");
+  for (const failure of failures) {
+    console.error(`Client ${failure.clientId} (${failure.fullName}): "${failure.phoneNumber}": ${failure.reason}`);
+  }
+  return failures.length === 0;
+}
+
+normalizePhoneNumbers()
+  .then((ok) => process.exit(ok ? 0 : 1))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
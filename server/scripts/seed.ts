@@ -0,0 +1,9 @@
+import { storage } from "../storage";
+import { runSeeds } from "../seed";
+
+runSeeds(storage)
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
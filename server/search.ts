@@ -0,0 +1,141 @@
+import type { Client, ClientDuplicateQuery, DuplicateField } from "@shared/schema";
+import { DEFAULT_PHONE_COUNTRY, normalizePhone, phoneSearchDigits } from "@shared/phone";
+
+// Name matching that tolerates spelling and transliteration differences, e.g.
+// Mohammed/Muhammad/محمد or Hussain/Husain/حسین. Names are reduced to a
+// consonant skeleton that is stored in clients.name_key and compared with trigrams.
+
+const ARABIC_TO_LATIN: Record<string, string> = {
+  "ا": "a", "أ": "a", "إ": "a", "آ": "a", "ى": "a", "ع": "a", "ء": "",
+  "ب": "b", "پ": "p", "ت": "t", "ٹ": "t", "ث": "s", "ج": "j", "چ": "ch",
+  "ح": "h", "خ": "kh", "د": "d", "ڈ": "d", "ذ": "z", "ر": "r", "ڑ": "r",
+  "ز": "z", "ژ": "z", "س": "s", "ش": "sh", "ص": "s", "ض": "d", "ط": "t",
+  "ظ": "z", "غ": "gh", "ف": "f", "ق": "q", "ك": "k", "ک": "k", "گ": "g",
+  "ل": "l", "م": "m", "ن": "n", "ں": "n", "ه": "h", "ہ": "h", "ھ": "h",
+  "ة": "h", "ے": "e",
+};
+
+// Combining marks, including Arabic harakat
+const DIACRITICS = /[\u0300-\u036f\u064b-\u065f\u0670]/g;
+
+function transliterate(text: string): string {
+  let result = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const atWordStart = i === 0 || text[i - 1] === " ";
+    // Waw and ya are consonants at the start of a word and long vowels elsewhere
+    if (char === "و") {
+      result += atWordStart ? "w" : "u";
+    } else if (char === "ي" || char === "ی") {
+      result += atWordStart ? "y" : "i";
+    } else {
+      result += ARABIC_TO_LATIN[char] ?? char;
+    }
+  }
+  return result;
+}
+
+function skeleton(word: string): string {
+  const consonants = word
+    .replace(/ph/g, "f")
+    .replace(/([bcdgkpst])h/g, "$1") // kh, sh, th, dh, gh, ch
+    .replace(/[cq]/g, "k")
+    .replace(/v/g, "w")
+    .replace(/x/g, "ks");
+
+  // Keep a leading vowel (normalised, so Omar and Umar agree) and drop the others
+  const head = /^[aeiou]/.test(consonants) ? "a" : consonants[0];
+  return (head + consonants.slice(1).replace(/[aeiouy]/g, ""))
+    .replace(/h$/, "") // Abdullah/Abdulla, Fatimah/Fatima
+    .replace(/(.)\1+/g, "$1");
+}
+
+export function nameSearchKey(name: string): string {
+  return transliterate(name.normalize("NFKD").replace(DIACRITICS, "").toLowerCase())
+    .replace(/['`’]/g, "")
+    .split(/[^a-z]+/)
+    .filter(Boolean)
+    .map(skeleton)
+    .join(" ");
+}
+
+// Passport and national ID numbers are compared without case or separators
+export function identifierKey(value: string): string {
+  return value.replace(/[^0-9a-z]/gi, "").toUpperCase();
+}
+
+// Phone numbers are compared in full once normalized to E.164, as they are stored, so
+// 0300-1234567 matches +923001234567 but a number that only shares its last digits
+// does not. Null when the number is not valid.
+export function phoneKey(value: string): string | null {
+  return normalizePhone(value, DEFAULT_PHONE_COUNTRY);
+}
+
+export type SearchTerms = {
+  text: string; // As typed, for full-text and trigram matching on the name
+  nameKey: string;
+  identifier: string; // Passport or national ID, without separators
+  digits: string; // Phone number digits
+};
+
+export function parseSearchTerms(query: string): SearchTerms {
+  const text = query.trim();
+  return {
+    text,
+    nameKey: nameSearchKey(text),
+    identifier: identifierKey(text),
+    digits: phoneSearchDigits(text),
+  };
+}
+
+// Mirrors pg_trgm's similarity() for the in-memory storage driver
+function trigrams(text: string): Set<string> {
+  const result = new Set<string>();
+  for (const word of text.toLowerCase().split(/\s+/).filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      result.add(padded.slice(i, i + 3));
+    }
+  }
+  return result;
+}
+
+export function trigramSimilarity(a: string, b: string): number {
+  const trigramsA = trigrams(a);
+  const trigramsB = trigrams(b);
+  if (trigramsA.size === 0 || trigramsB.size === 0) return 0;
+
+  let shared = 0;
+  trigramsA.forEach((trigram) => {
+    if (trigramsB.has(trigram)) shared++;
+  });
+  return shared / (trigramsA.size + trigramsB.size - shared);
+}
+
+// Best match of the query against any single word, like pg_trgm's word_similarity()
+export function wordSimilarity(query: string, text: string): number {
+  return Math.max(
+    trigramSimilarity(query, text),
+    ...text.split(/\s+/).map((word) => trigramSimilarity(query, word)),
+  );
+}
+
+// Same defaults as pg_trgm.similarity_threshold and pg_trgm.word_similarity_threshold
+export const SIMILARITY_THRESHOLD = 0.3;
+export const WORD_SIMILARITY_THRESHOLD = 0.6;
+
+// Which of the identifying fields of a new client match an existing one
+export function duplicateFields(client: Client, query: ClientDuplicateQuery): DuplicateField[] {
+  const fields: DuplicateField[] = [];
+  if (query.passportNumber && identifierKey(query.passportNumber) === identifierKey(client.passportNumber)) {
+    fields.push("passportNumber");
+  }
+  if (query.nationalId && identifierKey(query.nationalId) === identifierKey(client.nationalId)) {
+    fields.push("nationalId");
+  }
+  const phone = query.phoneNumber && phoneKey(query.phoneNumber);
+  if (phone && phone === client.phoneNumber) {
+    fields.push("phoneNumber");
+  }
+  return fields;
+}
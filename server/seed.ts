@@ -0,0 +1,68 @@
+import { randomBytes } from "crypto";
+import type { InsertReasonCode } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+type Seed = {
+  name: string;
+  run(storage: IStorage): Promise<void>;
+};
+
+// Creates the first admin when there is none. Credentials come from ADMIN_USERNAME
+// and ADMIN_PASSWORD; only the in-memory driver makes up a password by itself.
+async function bootstrapAdmin(storage: IStorage) {
+  const users = await storage.getAllUsers();
+  if (users.some((user) => user.role === "admin")) return;
+
+  const username = process.env.ADMIN_USERNAME || "admin";
+  if (await storage.getUserByUsername(username)) {
+    throw new Error(`Cannot create admin "${username}": a non-admin user with that name exists`);
+  }
+
+  let password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    if (process.env.STORAGE_DRIVER !== "memory") {
+      console.warn("No admin user exists. Set ADMIN_PASSWORD (and optionally ADMIN_USERNAME) and run `npm run db:seed`.");
+      return;
+    }
+    password = randomBytes(12).toString("base64url");
+    console.log(`Generated password for admin "${username}": ${password}`);
+  }
+
+  await storage.createUser({ username, password, role: "admin" });
+  console.log(`Created admin user "${username}"`);
+}
+
+const DEFAULT_REASON_CODES: InsertReasonCode[] = [
+  { code: "blurry_passport_scan", label: "Passport scan is blurry or unreadable", states: ["needs_info"] },
+  { code: "details_mismatch", label: "Details do not match the passport", states: ["needs_info"] },
+  { code: "missing_information", label: "Required information is missing", states: ["needs_info"] },
+  { code: "passport_expired", label: "Passport has expired or expires too soon", states: ["needs_info", "rejected"] },
+  { code: "duplicate_booking", label: "Duplicate of another booking", states: ["rejected"] },
+  { code: "not_eligible", label: "Client is not eligible", states: ["rejected"] },
+];
+
+// Adds the default reason codes that do not exist yet. Codes an admin has
+// edited or deactivated are left as they are.
+async function defaultReasonCodes(storage: IStorage) {
+  const existing = new Set((await storage.getReasonCodes(true)).map((reasonCode) => reasonCode.code));
+  for (const reasonCode of DEFAULT_REASON_CODES) {
+    if (!existing.has(reasonCode.code)) await storage.createReasonCode(reasonCode);
+  }
+}
+
+// Seeds run in this order on every startup and through `npm run db:seed`,
+// so each one must leave existing data alone.
+const seeds: Seed[] = [
+  { name: "first admin", run: bootstrapAdmin },
+  { name: "default reason codes", run: defaultReasonCodes },
+];
+
+export async function runSeeds(storage: IStorage) {
+  for (const seed of seeds) {
+    try {
+      await seed.run(storage);
+    } catch (err: any) {
+      throw new Error(`Seed "${seed.name}" failed: ${err.message}`);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import type { SlaBreach } from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+// Flags appointments that have overrun their team's SLA and escalates each one
+// to the team lead, or to the admins when the team has no lead
+export async function checkSlaBreaches(now = new Date()): Promise<SlaBreach[]> {
+  const overdue = await storage.getUnflaggedBreaches(now);
+  if (overdue.length === 0) return [];
+
+  const leads = new Map((await storage.getAllTeams()).map((team) => [team.id, team.leadId]));
+  const flagged: SlaBreach[] = [];
+  for (const { teamId, ...breach } of overdue) {
+    const created = await storage.createSlaBreach({ ...breach, escalatedTo: leads.get(teamId) ?? null });
+    if (created) flagged.push(created);
+  }
+
+  if (flagged.length > 0) {
+    log(`escalated ${flagged.length} appointment(s) past their SLA: ${flagged.map((b) => b.appointmentId).join(", ")}`, "sla");
+  }
+  return flagged;
+}
+
+// Runs the check now and then every SLA_CHECK_INTERVAL_MINUTES; 0 turns the scheduler off
+export function startSlaScheduler() {
+  const minutes = Number(process.env.SLA_CHECK_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES);
+  if (!(minutes > 0)) return;
+
+  const run = () => {
+    checkSlaBreaches().catch((err) => log(`SLA check failed: ${err instanceof Error ? err.message : err}`, "sla"));
+  };
+  run();
+  // Does not keep the process alive on its own
+  setInterval(run, minutes * 60 * 1000).unref();
+}
@@ -0,0 +1,124 @@
+import type { BlackoutDate, DayAvailability, Location } from "@shared/schema";
+
+// Slot times are wall-clock times at the location, so every calculation goes
+// through the location's time zone. Instants are stored in UTC.
+
+type SlotGrid = Pick<Location, "timezone" | "openTime" | "closeTime" | "slotMinutes" | "workingDays">;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Milliseconds the time zone is ahead of UTC at the given instant
+function timeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)!.value);
+  const wallClock = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The instant at which the clock at the location shows the given date and time
+export function zonedTime(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Correct once more in case the first guess fell on the other side of a DST change
+  const offset = timeZoneOffset(new Date(wallClock), timeZone);
+  const corrected = timeZoneOffset(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - corrected);
+}
+
+// The date (YYYY-MM-DD) at the location at the given instant
+export function localDate(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(instant);
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY).toISOString().slice(0, 10);
+}
+
+function weekday(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// Start and end of the local day, for counting the day's bookings
+export function dayBounds(location: SlotGrid, date: string): { start: Date; end: Date } {
+  return {
+    start: zonedTime(date, "00:00", location.timezone),
+    end: zonedTime(addDays(date, 1), "00:00", location.timezone),
+  };
+}
+
+// Slot start times on the given date, ignoring blackouts
+export function daySlots(location: SlotGrid, date: string): Date[] {
+  if (!location.workingDays.includes(weekday(date))) return [];
+
+  const open = zonedTime(date, location.openTime, location.timezone).getTime();
+  const close = zonedTime(date, location.closeTime, location.timezone).getTime();
+  const slots: Date[] = [];
+  for (let start = open; start + location.slotMinutes * MINUTE <= close; start += location.slotMinutes * MINUTE) {
+    slots.push(new Date(start));
+  }
+  return slots;
+}
+
+export function isSlotStart(location: SlotGrid, instant: Date): boolean {
+  return daySlots(location, localDate(instant, location.timezone))
+    .some((slot) => slot.getTime() === instant.getTime());
+}
+
+// The blackout closing the location on the given date, if any
+export function blackoutOn(blackouts: BlackoutDate[], locationId: number, date: string): BlackoutDate | undefined {
+  return blackouts.find((blackout) =>
+    blackout.date === date && (blackout.locationId === null || blackout.locationId === locationId)
+  );
+}
+
+// bookings maps slot start times (epoch milliseconds) to the number of appointments holding them
+export function availability(
+  location: Location,
+  dates: string[],
+  blackouts: BlackoutDate[],
+  bookings: Map<number, number>,
+  now = new Date(),
+): DayAvailability[] {
+  return dates.map((date) => {
+    const blackout = blackoutOn(blackouts, location.id, date);
+    const starts = blackout ? [] : daySlots(location, date);
+    const { start: dayStart, end: dayEnd } = dayBounds(location, date);
+
+    let booked = 0;
+    bookings.forEach((count, start) => {
+      if (start >= dayStart.getTime() && start < dayEnd.getTime()) booked += count;
+    });
+    const dayFull = booked >= location.dailyCapacity;
+
+    return {
+      date,
+      closed: blackout?.reason ?? (starts.length === 0 ? "Closed" : null),
+      booked,
+      capacity: location.dailyCapacity,
+      slots: starts.map((start) => {
+        const slotBooked = bookings.get(start.getTime()) ?? 0;
+        return {
+          start: start.toISOString(),
+          end: new Date(start.getTime() + location.slotMinutes * MINUTE).toISOString(),
+          booked: slotBooked,
+          capacity: location.slotCapacity,
+          available: !dayFull && slotBooked < location.slotCapacity && start > now,
+        };
+      }),
+    };
+  });
+}
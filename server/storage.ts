@@ -1,26 +1,292 @@
-import { User, InsertUser, Client, InsertClient, Appointment, InsertAppointment, Team, InsertTeam, TeamMember, InsertTeamMember } from "@shared/schema";
+import { User, InsertUser, Client, InsertClient, Appointment, InsertAppointment, Team, InsertTeam, TeamMember, InsertTeamMember, AppointmentDocument, Attachment, AttachmentVariant, AppointmentQuery, ClientQuery, ClientDuplicateQuery, ClientMerge, AppointmentStatusChange, AppointmentSlotChange, ClientUpdate, ClientChanges, ReasonCode, InsertReasonCode, ApprovalStep, ApprovalStepInput, ApprovalDecision, Location, InsertLocation, BlackoutDate, InsertBlackoutDate, SlaPolicy, SlaPolicyInput, SlaBreach, AppointmentSla, AssignmentLoad, AppointmentComment, AppointmentCommentEdit, CommentUnread, DocumentRequirement, InsertDocumentRequirement, DocumentRequirementUpdate, PassportRule, PassportRuleInput, ClientDocument, ClientDocumentVersion, ClientDocumentVersionInput, ClientDocumentWithVersions, ClientProfile, ClientProfileInput, ClientPatch, ClientFieldChange, ClientEditFacts, ClientLanguage, ClientEducation, ClientWorkExperience, ClientSkill, AssignmentMode, TeamUpdate, Page } from "@shared/schema";
+import { QUEUE_STATES, SLA_STATES, SLOT_HOLDING_STATES, type AppointmentState } from "@shared/workflow";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
-import { scrypt, randomBytes } from "crypto";
+import createMemoryStore from "memorystore";
+import { scrypt, randomBytes, createHash } from "crypto";
 import { promisify } from "util";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
-import { users, clients, appointments, teams, teamMembers } from "@shared/schema";
+import { db, sessionPool, type Database } from "./db";
+import { fileStore } from "./file-store";
+import { dayBounds, localDate } from "./slots";
+import { distribute, pickAssignee } from "./assignment";
+import { duplicateFields, identifierKey, nameSearchKey, parseSearchTerms, phoneKey, trigramSimilarity, wordSimilarity, SIMILARITY_THRESHOLD, WORD_SIMILARITY_THRESHOLD } from "./search";
+import { and, asc, count, desc, eq, getTableColumns, gte, inArray, isNotNull, isNull, lt, lte, max, ne, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { users, clients, clientLanguages, clientEducation, clientWorkExperience, clientSkills, clientFieldChanges, clientMerges, appointments, appointmentStatusChanges, appointmentSlotChanges, appointmentComments, appointmentCommentEdits, appointmentCommentReads, documentRequirements, passportRules, clientDocuments, clientDocumentVersions, reasonCodes, approvalSteps, approvalDecisions, slaPolicies, slaBreaches, locations, blackoutDates, teams, teamMembers, appointmentDocuments, attachments } from "@shared/schema";
 
 const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
 const scryptAsync = promisify(scrypt);
 
+// The legacy base64 column is never read back; clients reference attachments instead
+const { passportImage: _passportImage, ...clientColumns } = getTableColumns(clients);
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
+// Admins are not part of a team, so unlike the signup form a team is optional here
+export type NewUser = Omit<InsertUser, "teamId"> & { teamId?: number | null };
+
+export type StoredDocument = {
+  document: AppointmentDocument;
+  content: Buffer;
+};
+
+export type AttachmentUpload = {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  thumbnail?: Buffer;
+  preview?: Buffer;
+  width?: number;
+  height?: number;
+  uploadedBy: number | null;
+};
+
+export type StoredAttachment = {
+  attachment: Attachment;
+  content: Buffer;
+  mimeType: string;
+};
+
+export type StatusChange = {
+  to: AppointmentState;
+  reasonCodeId?: number;
+  reason?: string;
+  changedBy: number;
+  // Corrections to the appointment's client, applied together with the status change
+  clientUpdate?: ClientUpdate;
+};
+
+export type SignOff = {
+  position: number;
+  stepName: string;
+  decidedBy: number;
+  note?: string;
+  completesChain: boolean; // The last sign-off needed, which approves the appointment
+};
+
+export type Booking = {
+  locationId: number;
+  slotStart: Date;
+  changedBy: number;
+  reason?: string; // Why a booked appointment was moved
+};
+
+export type NewSlaBreach = Omit<SlaBreach, "id" | "detectedAt">;
+
+export type NewComment = Omit<AppointmentComment, "id" | "createdAt" | "editedAt">;
+
+export type NewDocumentVersion = ClientDocumentVersionInput & { uploadedBy: number };
+
+export type NewClientDocument = NewDocumentVersion & { clientId: number; documentType: string };
+
+export type DocumentReview = {
+  status: "verified" | "rejected";
+  note?: string;
+  reviewedBy: number;
+};
+
+export type SlotBookings = {
+  slotStart: Date;
+  count: number;
+};
+
+// Thrown when the chosen slot, or its day, has no capacity left
+export class SlotUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SlotUnavailableError";
+  }
+}
+
+// Whether one more appointment fits, given the bookings on the slot's day
+function checkCapacity(location: Location, slotStart: Date, dayBookings: SlotBookings[]) {
+  const slotCount = dayBookings.find((b) => b.slotStart.getTime() === slotStart.getTime())?.count ?? 0;
+  if (slotCount >= location.slotCapacity) {
+    throw new SlotUnavailableError("That slot is fully booked");
+  }
+  const dayCount = dayBookings.reduce((total, b) => total + b.count, 0);
+  if (dayCount >= location.dailyCapacity) {
+    throw new SlotUnavailableError("That day is fully booked");
+  }
+}
+
+// The slot history entry for moving an appointment from its current slot; a null slot releases it
+function slotChange(current: Appointment, to: Booking | null, changedBy: number, reason?: string) {
+  return {
+    appointmentId: current.id,
+    fromLocationId: current.locationId,
+    fromSlotStart: current.slotStart,
+    toLocationId: to?.locationId ?? null,
+    toSlotStart: to?.slotStart ?? null,
+    reason: reason ?? null,
+    changedBy,
+  };
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Where an appointment stands against the SLA for the status it entered with the given change
+function slaStanding(
+  appointment: Appointment,
+  entry: Pick<AppointmentStatusChange, "id" | "changedAt">,
+  policy: SlaPolicy | undefined,
+  breach: SlaBreach | undefined,
+  now: Date,
+): AppointmentSla {
+  const dueAt = policy ? new Date(entry.changedAt.getTime() + policy.hours * HOUR) : null;
+  return {
+    appointmentId: appointment.id,
+    status: appointment.status,
+    enteredAt: entry.changedAt,
+    dueAt,
+    overdue: dueAt !== null && dueAt < now,
+    breach: breach ?? null,
+  };
+}
+
+// Thrown when an update names a version that is no longer current
+export class VersionConflictError extends Error {
+  constructor(readonly current: Appointment) {
+    super(`Appointment ${current.id} has been changed since it was read (now at version ${current.version})`);
+    this.name = "VersionConflictError";
+  }
+}
+
+// The fields of an update that actually change the client, with their old and new values
+function clientChanges(client: Client, update: ClientUpdate): ClientChanges {
+  const changes: ClientChanges = {};
+  for (const [field, value] of Object.entries(update) as [keyof ClientUpdate, unknown][]) {
+    if (value !== undefined && value !== client[field]) {
+      changes[field] = { from: client[field], to: value };
+    }
+  }
+  return changes;
+}
+
+const EMPTY_PROFILE: ClientProfileInput = { languages: [], education: [], workExperience: [], skills: [] };
+
+type ProfileList = keyof ClientProfileInput;
+const PROFILE_LISTS: ProfileList[] = ["languages", "education", "workExperience", "skills"];
+
+type ProfileRows = {
+  languages: Omit<ClientLanguage, "id">[];
+  education: Omit<ClientEducation, "id">[];
+  workExperience: Omit<ClientWorkExperience, "id">[];
+  skills: Omit<ClientSkill, "id">[];
+};
+
+// Changes to the fields and profile lists of a client, as recorded in client_field_changes
+type FieldChanges = Partial<Record<keyof ClientPatch, { from: unknown; to: unknown }>>;
+
+// The rows of a client's profile tables, without their IDs
+function profileRows(clientId: number, profile: ClientProfileInput): ProfileRows {
+  return {
+    languages: profile.languages.map((language) => ({ ...language, clientId })),
+    education: profile.education.map((entry) => ({
+      ...entry,
+      clientId,
+      startYear: entry.startYear ?? null,
+      endYear: entry.endYear ?? null,
+    })),
+    workExperience: profile.workExperience.map((entry) => ({ ...entry, clientId, endDate: entry.endDate ?? null })),
+    skills: profile.skills.map((name) => ({ clientId, name })),
+  };
+}
+
+// Profile rows in the shape they are sent in, so an unchanged list compares equal
+function profileValues(rows: ProfileRows): Record<ProfileList, unknown[]> {
+  return {
+    languages: rows.languages.map(({ language, proficiency }) => ({ language, proficiency })),
+    education: rows.education.map((entry) => ({
+      level: entry.level,
+      institution: entry.institution,
+      fieldOfStudy: entry.fieldOfStudy ?? null,
+      startYear: entry.startYear ?? null,
+      endYear: entry.endYear ?? null,
+    })),
+    workExperience: rows.workExperience.map((entry) => ({
+      employer: entry.employer,
+      position: entry.position,
+      country: entry.country ?? null,
+      startDate: entry.startDate,
+      endDate: entry.endDate ?? null,
+      duties: entry.duties ?? null,
+    })),
+    skills: rows.skills.map(({ name }) => name),
+  };
+}
+
+// The lists sent in a patch, the others empty
+function patchedProfile(patch: ClientPatch): ClientProfileInput {
+  return {
+    languages: patch.languages ?? [],
+    education: patch.education ?? [],
+    workExperience: patch.workExperience ?? [],
+    skills: patch.skills ?? [],
+  };
+}
+
+// The profile lists of a patch that differ from the stored ones. Lists that are not sent are kept.
+function profileChanges(clientId: number, profile: ProfileRows, patch: ClientPatch): FieldChanges {
+  const stored = profileValues(profile);
+  const sent = profileValues(profileRows(clientId, patchedProfile(patch)));
+  const changes: FieldChanges = {};
+  for (const list of PROFILE_LISTS) {
+    if (patch[list] !== undefined && JSON.stringify(sent[list]) !== JSON.stringify(stored[list])) {
+      changes[list] = { from: stored[list], to: sent[list] };
+    }
+  }
+  return changes;
+}
+
+function fieldChangeRows(clientId: number, changes: FieldChanges, changedBy: number, appointmentId: number | null = null) {
+  return Object.entries(changes).map(([field, change]) => ({
+    clientId,
+    field,
+    oldValue: change!.from ?? null,
+    newValue: change!.to ?? null,
+    appointmentId,
+    changedBy,
+  }));
+}
+
+// Storage keys are derived from the content hash, so identical files are stored once
+function attachmentKey(contentHash: string, variant: AttachmentVariant) {
+  return `attachments/${contentHash.slice(0, 2)}/${contentHash}/${variant}`;
+}
+
+// In-memory counterpart of ORDER BY ... LIMIT ... OFFSET, with the ID as tie-breaker
+function paginate<T extends { id: number }>(
+  rows: T[],
+  query: { page: number; limit: number; order: "asc" | "desc" },
+  sortKey: (row: T) => string | number,
+): Page<T> {
+  const direction = query.order === "asc" ? 1 : -1;
+  const sorted = [...rows].sort((a, b) => {
+    const keyA = sortKey(a);
+    const keyB = sortKey(b);
+    if (keyA !== keyB) return (keyA < keyB ? -1 : 1) * direction;
+    return (a.id - b.id) * direction;
+  });
+
+  const start = (query.page - 1) * query.limit;
+  return {
+    items: sorted.slice(start, start + query.limit),
+    total: rows.length,
+    page: query.page,
+    limit: query.limit,
+  };
+}
+
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: NewUser): Promise<User>;
   getAllUsers(): Promise<User[]>;
   updateUserPassword(id: number, newPassword: string): Promise<void>;
   updateUserTeam(userId: number, teamId: number | null): Promise<void>;
@@ -32,22 +298,131 @@ export interface IStorage {
   getTeamMembers(teamId: number): Promise<User[]>;
   addTeamMember(teamMember: InsertTeamMember): Promise<TeamMember>;
   removeTeamMember(teamId: number, userId: number): Promise<void>;
+  getApprovalSteps(teamId: number): Promise<ApprovalStep[]>;
+  setApprovalSteps(teamId: number, steps: ApprovalStepInput[]): Promise<ApprovalStep[]>;
+  updateTeam(teamId: number, update: TeamUpdate): Promise<Team | undefined>;
+
+  // SLA operations
+  getSlaPolicies(teamId: number): Promise<SlaPolicy[]>;
+  setSlaPolicies(teamId: number, policies: SlaPolicyInput[]): Promise<SlaPolicy[]>;
+  // Standing of each appointment against the SLA for its current status
+  getAppointmentSla(appointmentIds: number[], now: Date): Promise<AppointmentSla[]>;
+  // Overdue appointments whose current stay in their status has not been flagged yet
+  getUnflaggedBreaches(now: Date): Promise<(NewSlaBreach & { teamId: number })[]>;
+  // Returns undefined when the stay has already been flagged
+  createSlaBreach(breach: NewSlaBreach): Promise<SlaBreach | undefined>;
 
   // Client operations
-  createClient(client: InsertClient): Promise<Client>;
+  createClient(client: InsertClient, profile?: ClientProfileInput): Promise<Client>;
   getClient(id: number): Promise<Client | undefined>;
+  getClientProfile(clientId: number): Promise<ClientProfile>;
+  // Applies the fields and profile lists of the patch that differ and records each of them
+  updateClient(id: number, patch: ClientPatch, changedBy: number): Promise<Client>;
+  // Newest first, including edits made when resubmitting an appointment
+  getClientFieldChanges(clientId: number): Promise<ClientFieldChange[]>;
+  // Whether the user collected any of the client's appointments and whether any is approved
+  getClientEditFacts(clientId: number, userId: number): Promise<ClientEditFacts>;
   getAllClients(): Promise<Client[]>;
+  listClients(query: ClientQuery): Promise<Page<Client>>;
+  searchClients(text: string, limit: number): Promise<Client[]>;
+  findDuplicateClients(query: ClientDuplicateQuery): Promise<Client[]>;
+  // Moves the duplicate's appointments and documents to the survivor
+  mergeClients(survivorId: number, mergedClientId: number, mergedBy: number): Promise<ClientMerge>;
+  getClientMerges(): Promise<ClientMerge[]>;
+
+  // Location and slot operations
+  getLocations(includeInactive?: boolean): Promise<Location[]>;
+  getLocation(id: number): Promise<Location | undefined>;
+  createLocation(location: InsertLocation): Promise<Location>;
+  updateLocation(id: number, location: InsertLocation): Promise<Location | undefined>;
+  // Blackouts between the two local dates (inclusive) at the location, including holidays everywhere
+  getBlackoutDates(from: string, to: string, locationId?: number): Promise<BlackoutDate[]>;
+  createBlackoutDate(blackout: InsertBlackoutDate & { createdBy: number }): Promise<BlackoutDate>;
+  deleteBlackoutDate(id: number): Promise<boolean>;
+  // Appointments holding each slot that starts in [from, to)
+  getSlotBookings(locationId: number, from: Date, to: Date): Promise<SlotBookings[]>;
+
+  // Reason code operations
+  getReasonCodes(includeInactive?: boolean): Promise<ReasonCode[]>;
+  getReasonCode(id: number): Promise<ReasonCode | undefined>;
+  createReasonCode(reasonCode: InsertReasonCode): Promise<ReasonCode>;
+  updateReasonCode(id: number, update: Partial<InsertReasonCode>): Promise<ReasonCode | undefined>;
+
+  // Document requirement operations
+  getDocumentRequirements(): Promise<DocumentRequirement[]>;
+  createDocumentRequirement(requirement: InsertDocumentRequirement): Promise<DocumentRequirement>;
+  updateDocumentRequirement(id: number, update: DocumentRequirementUpdate): Promise<DocumentRequirement | undefined>;
+  deleteDocumentRequirement(id: number): Promise<boolean>;
+
+  // Passport rule operations
+  getPassportRules(): Promise<PassportRule[]>;
+  setPassportRules(rules: PassportRuleInput[]): Promise<PassportRule[]>;
+  // Open appointments whose client's passport expires before the date, soonest first
+  getPassportExpiries(expiresBefore: string): Promise<{ appointment: Appointment; client: Client }[]>;
+
+  // Client document operations
+  getClientDocuments(clientId: number): Promise<ClientDocumentWithVersions[]>;
+  getClientDocument(id: number): Promise<ClientDocumentWithVersions | undefined>;
+  // Creates the document with its first version
+  createClientDocument(document: NewClientDocument): Promise<ClientDocumentWithVersions>;
+  // Adds the next version, which becomes the current one
+  addClientDocumentVersion(documentId: number, version: NewDocumentVersion): Promise<ClientDocumentVersion>;
+  // Returns undefined when the version is no longer the document's current one
+  reviewClientDocument(documentId: number, version: number, review: DocumentReview): Promise<ClientDocumentVersion | undefined>;
 
   // Appointment operations
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
-  updateAppointment(id: number, appointment: Partial<Appointment>): Promise<Appointment>;
+  // Bumps the version; throws VersionConflictError when expectedVersion is given and stale
+  updateAppointment(id: number, appointment: Partial<Appointment>, expectedVersion?: number): Promise<Appointment>;
   getAppointment(id: number): Promise<Appointment | undefined>;
   getAllAppointments(): Promise<Appointment[]>;
   getTeamAppointments(teamId: number): Promise<Appointment[]>;
+  listAppointments(query: AppointmentQuery): Promise<Page<Appointment>>;
+  // Whether the move is allowed is checked by the caller; this applies it and records it
+  transitionAppointment(id: number, change: StatusChange, expectedVersion: number): Promise<Appointment>;
+  getStatusHistory(appointmentId: number): Promise<AppointmentStatusChange[]>;
+  signOffAppointment(id: number, signOff: SignOff, expectedVersion: number): Promise<Appointment>;
+  // Reserves the slot and marks the appointment booked, refusing slots without capacity
+  bookAppointment(id: number, booking: Booking, expectedVersion: number): Promise<Appointment>;
+  // Hands the appointment to another team, unassigning it and restarting its approval chain
+  moveAppointmentToTeam(id: number, teamId: number, expectedVersion: number): Promise<Appointment>;
+  // Moves a booked appointment to another slot, refusing slots without capacity
+  rescheduleAppointment(id: number, booking: Booking, expectedVersion: number): Promise<Appointment>;
+  getSlotHistory(appointmentId: number): Promise<AppointmentSlotChange[]>;
+  getApprovalDecisions(appointmentId: number): Promise<ApprovalDecision[]>;
+
+  // Assignment operations
+  // Returns undefined when expectedAssignee is given and the appointment is no longer assigned to them
+  assignAppointment(id: number, assignedTo: number | null, expectedAssignee?: number | null): Promise<Appointment | undefined>;
+  // Assigns an unassigned queued appointment as the team's assignment mode says;
+  // undefined when the appointment stays unassigned
+  autoAssignAppointment(id: number): Promise<Appointment | undefined>;
+  // Each of the team's approvers with their queued appointments
+  getAssignmentLoads(teamId: number): Promise<AssignmentLoad[]>;
+  // Moves the queued appointments of absent approvers to the rest of the team and returns them
+  rebalanceAssignments(teamId: number, absentUserIds: number[]): Promise<Appointment[]>;
+
+  // Comment operations
+  // Oldest first; internal comments are left out unless includeInternal is set
+  getComments(appointmentId: number, includeInternal: boolean): Promise<AppointmentComment[]>;
+  getComment(id: number): Promise<AppointmentComment | undefined>;
+  createComment(comment: NewComment): Promise<AppointmentComment>;
+  // Keeps the previous text in the comment's edit history
+  editComment(id: number, body: string, mentions: number[]): Promise<AppointmentComment>;
+  getCommentEdits(commentId: number): Promise<AppointmentCommentEdit[]>;
+  markCommentsRead(appointmentId: number, userId: number): Promise<void>;
+  // Only appointments with unread comments are returned
+  getUnreadComments(appointmentIds: number[], userId: number, includeInternal: boolean): Promise<CommentUnread[]>;
+
+  // Attachment operations
+  createAttachment(upload: AttachmentUpload): Promise<Attachment>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  getAttachmentContent(id: number, variant: AttachmentVariant): Promise<StoredAttachment | undefined>;
 
   // PDF operations
-  storePdf(appointmentId: number, pdfBuffer: Buffer): Promise<void>;
-  getPdf(appointmentId: number): Promise<Buffer | undefined>;
+  storePdf(appointmentId: number, pdfBuffer: Buffer, uploadedBy: number): Promise<AppointmentDocument>;
+  getPdf(appointmentId: number, version?: number): Promise<StoredDocument | undefined>;
+  getPdfVersions(appointmentId: number): Promise<AppointmentDocument[]>;
 
   // Session store
   sessionStore: session.Store;
@@ -55,30 +430,12 @@ export interface IStorage {
 
 export class DatabaseStorage implements IStorage {
   readonly sessionStore: session.Store;
-  private pdfStorage: Map<number, Buffer>;
 
   constructor() {
     this.sessionStore = new PostgresSessionStore({
-      conObject: {
-        connectionString: process.env.DATABASE_URL,
-      },
+      pool: sessionPool as connectPg.PGStoreOptions["pool"],
       createTableIfMissing: true,
     });
-    this.pdfStorage = new Map();
-
-    // Create initial admin user
-    this.ensureAdminUser();
-  }
-
-  private async ensureAdminUser() {
-    const adminUser = await this.getUserByUsername("admin");
-    if (!adminUser) {
-      await this.createUser({
-        username: "admin",
-        password: "admin123",
-        role: "admin",
-      });
-    }
   }
 
   // User operations
@@ -92,7 +449,7 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: NewUser): Promise<User> {
     const hashedPassword = await hashPassword(insertUser.password);
     const [user] = await db
       .insert(users)
@@ -161,77 +518,2416 @@ export class DatabaseStorage implements IStorage {
     await this.updateUserTeam(userId, null);
   }
 
-  // Client operations
-  async createClient(insertClient: InsertClient): Promise<Client> {
-    const [client] = await db
-      .insert(clients)
-      .values([insertClient])
+  async getApprovalSteps(teamId: number): Promise<ApprovalStep[]> {
+    return await db
+      .select()
+      .from(approvalSteps)
+      .where(eq(approvalSteps.teamId, teamId))
+      .orderBy(asc(approvalSteps.position));
+  }
+
+  // Replaces the team's whole chain; appointments already part-way through keep their sign-offs
+  async setApprovalSteps(teamId: number, steps: ApprovalStepInput[]): Promise<ApprovalStep[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(approvalSteps).where(eq(approvalSteps.teamId, teamId));
+      if (steps.length === 0) return [];
+      return await tx
+        .insert(approvalSteps)
+        .values(steps.map((step, i) => ({ ...step, teamId, position: i + 1 })))
+        .returning();
+    });
+  }
+
+  async updateTeam(teamId: number, update: TeamUpdate): Promise<Team | undefined> {
+    const [team] = await db.update(teams).set(update).where(eq(teams.id, teamId)).returning();
+    return team;
+  }
+
+  // SLA operations
+  async getSlaPolicies(teamId: number): Promise<SlaPolicy[]> {
+    return await db
+      .select()
+      .from(slaPolicies)
+      .where(eq(slaPolicies.teamId, teamId))
+      .orderBy(asc(slaPolicies.id));
+  }
+
+  async setSlaPolicies(teamId: number, policies: SlaPolicyInput[]): Promise<SlaPolicy[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(slaPolicies).where(eq(slaPolicies.teamId, teamId));
+      if (policies.length === 0) return [];
+      return await tx
+        .insert(slaPolicies)
+        .values(policies.map((policy) => ({ ...policy, teamId })))
+        .returning();
+    });
+  }
+
+  async getAppointmentSla(appointmentIds: number[], now: Date): Promise<AppointmentSla[]> {
+    if (appointmentIds.length === 0) return [];
+
+    const rows = await db.select().from(appointments).where(inArray(appointments.id, appointmentIds));
+    // Every status change is recorded, so the latest one started the current status
+    const entries = await db
+      .selectDistinctOn([appointmentStatusChanges.appointmentId], {
+        id: appointmentStatusChanges.id,
+        appointmentId: appointmentStatusChanges.appointmentId,
+        changedAt: appointmentStatusChanges.changedAt,
+      })
+      .from(appointmentStatusChanges)
+      .where(inArray(appointmentStatusChanges.appointmentId, appointmentIds))
+      .orderBy(appointmentStatusChanges.appointmentId, desc(appointmentStatusChanges.id));
+    const teamIds = Array.from(new Set(rows.map((appointment) => appointment.teamId)));
+    const [policies, breaches] = await Promise.all([
+      db.select().from(slaPolicies).where(inArray(slaPolicies.teamId, teamIds)),
+      entries.length > 0
+        ? db.select().from(slaBreaches).where(inArray(slaBreaches.statusChangeId, entries.map((entry) => entry.id)))
+        : [],
+    ]);
+
+    return rows.flatMap((appointment) => {
+      const entry = entries.find((e) => e.appointmentId === appointment.id);
+      if (!entry) return [];
+      const policy = policies.find((p) => p.teamId === appointment.teamId && p.status === appointment.status);
+      return [slaStanding(appointment, entry, policy, breaches.find((b) => b.statusChangeId === entry.id), now)];
+    });
+  }
+
+  async getUnflaggedBreaches(now: Date): Promise<(NewSlaBreach & { teamId: number })[]> {
+    const latest = db
+      .selectDistinctOn([appointmentStatusChanges.appointmentId], {
+        id: appointmentStatusChanges.id,
+        appointmentId: appointmentStatusChanges.appointmentId,
+        changedAt: appointmentStatusChanges.changedAt,
+      })
+      .from(appointmentStatusChanges)
+      .orderBy(appointmentStatusChanges.appointmentId, desc(appointmentStatusChanges.id))
+      .as("latest");
+    const dueAt = sql<Date>`${latest.changedAt} + ${slaPolicies.hours} * interval '1 hour'`;
+
+    const rows = await db
+      .select({
+        appointmentId: appointments.id,
+        teamId: appointments.teamId,
+        statusChangeId: latest.id,
+        status: appointments.status,
+        enteredAt: latest.changedAt,
+        hours: slaPolicies.hours,
+      })
+      .from(appointments)
+      .innerJoin(latest, eq(latest.appointmentId, appointments.id))
+      .innerJoin(slaPolicies, and(eq(slaPolicies.teamId, appointments.teamId), eq(slaPolicies.status, appointments.status)))
+      .leftJoin(slaBreaches, eq(slaBreaches.statusChangeId, latest.id))
+      .where(and(isNull(slaBreaches.id), sql`${dueAt} < ${now.toISOString()}`));
+
+    return rows.map(({ enteredAt, hours, ...row }) => ({
+      ...row,
+      dueAt: new Date(enteredAt.getTime() + hours * HOUR),
+      escalatedTo: null,
+    }));
+  }
+
+  async createSlaBreach(breach: NewSlaBreach): Promise<SlaBreach | undefined> {
+    // Another server may have flagged the same stay first
+    const [created] = await db
+      .insert(slaBreaches)
+      .values(breach)
+      .onConflictDoNothing({ target: slaBreaches.statusChangeId })
       .returning();
-    return client;
+    return created;
+  }
+
+  // Client operations
+  async createClient(insertClient: InsertClient, profile = EMPTY_PROFILE): Promise<Client> {
+    return await db.transaction(async (tx) => {
+      const [client] = await tx
+        .insert(clients)
+        .values([{ ...insertClient, nameKey: nameSearchKey(insertClient.fullName) }])
+        .returning(clientColumns);
+
+      const rows = profileRows(client.id, profile);
+      if (rows.languages.length > 0) await tx.insert(clientLanguages).values(rows.languages);
+      if (rows.education.length > 0) await tx.insert(clientEducation).values(rows.education);
+      if (rows.workExperience.length > 0) await tx.insert(clientWorkExperience).values(rows.workExperience);
+      if (rows.skills.length > 0) await tx.insert(clientSkills).values(rows.skills);
+      return client;
+    });
   }
 
   async getClient(id: number): Promise<Client | undefined> {
     if (!Number.isInteger(id) || id < 1) return undefined;
 
-    const [client] = await db.select().from(clients).where(eq(clients.id, id));
+    const [client] = await db.select(clientColumns).from(clients).where(eq(clients.id, id));
     return client;
   }
 
+  async getClientProfile(clientId: number): Promise<ClientProfile> {
+    return await this.selectProfile(db, clientId);
+  }
+
+  private async selectProfile(executor: Database, clientId: number): Promise<ClientProfile> {
+    const [languages, education, workExperience, skills] = await Promise.all([
+      executor.select().from(clientLanguages).where(eq(clientLanguages.clientId, clientId)).orderBy(asc(clientLanguages.id)),
+      executor.select().from(clientEducation).where(eq(clientEducation.clientId, clientId)).orderBy(asc(clientEducation.id)),
+      executor.select().from(clientWorkExperience).where(eq(clientWorkExperience.clientId, clientId)).orderBy(asc(clientWorkExperience.id)),
+      executor.select().from(clientSkills).where(eq(clientSkills.clientId, clientId)).orderBy(asc(clientSkills.id)),
+    ]);
+    return { languages, education, workExperience, skills };
+  }
+
+  async updateClient(id: number, patch: ClientPatch, changedBy: number): Promise<Client> {
+    return await db.transaction(async (tx) => {
+      const [client] = await tx.select(clientColumns).from(clients).where(eq(clients.id, id)).for("update");
+      if (!client) throw new Error("Client not found");
+
+      const { languages: _languages, education: _education, workExperience: _workExperience, skills: _skills, ...update } = patch;
+      const fields = clientChanges(client, update);
+      const changes: FieldChanges = { ...fields, ...profileChanges(id, await this.selectProfile(tx, id), patch) };
+      if (Object.keys(changes).length === 0) return client;
+
+      // Changed lists are replaced as a whole, in the order they were sent
+      const rows = profileRows(id, patchedProfile(patch));
+      if (changes.languages) {
+        await tx.delete(clientLanguages).where(eq(clientLanguages.clientId, id));
+        if (rows.languages.length > 0) await tx.insert(clientLanguages).values(rows.languages);
+      }
+      if (changes.education) {
+        await tx.delete(clientEducation).where(eq(clientEducation.clientId, id));
+        if (rows.education.length > 0) await tx.insert(clientEducation).values(rows.education);
+      }
+      if (changes.workExperience) {
+        await tx.delete(clientWorkExperience).where(eq(clientWorkExperience.clientId, id));
+        if (rows.workExperience.length > 0) await tx.insert(clientWorkExperience).values(rows.workExperience);
+      }
+      if (changes.skills) {
+        await tx.delete(clientSkills).where(eq(clientSkills.clientId, id));
+        if (rows.skills.length > 0) await tx.insert(clientSkills).values(rows.skills);
+      }
+
+      let updated = client;
+      if (Object.keys(fields).length > 0) {
+        [updated] = await tx
+          .update(clients)
+          .set({ ...update, ...(update.fullName ? { nameKey: nameSearchKey(update.fullName) } : {}) })
+          .where(eq(clients.id, id))
+          .returning(clientColumns);
+      }
+      await tx.insert(clientFieldChanges).values(fieldChangeRows(id, changes, changedBy));
+      return updated;
+    });
+  }
+
+  async getClientFieldChanges(clientId: number): Promise<ClientFieldChange[]> {
+    return await db
+      .select()
+      .from(clientFieldChanges)
+      .where(eq(clientFieldChanges.clientId, clientId))
+      .orderBy(desc(clientFieldChanges.changedAt), desc(clientFieldChanges.id));
+  }
+
+  async getClientEditFacts(clientId: number, userId: number): Promise<ClientEditFacts> {
+    const [facts] = await db
+      .select({
+        collectedByUser: sql<boolean>`coalesce(bool_or(${appointments.collectedBy} = ${userId}), false)`,
+        approved: sql<boolean>`coalesce(bool_or(${appointments.approvedBy} is not null), false)`,
+      })
+      .from(appointments)
+      .where(eq(appointments.clientId, clientId));
+    return facts;
+  }
+
   async getAllClients(): Promise<Client[]> {
-    return await db.select().from(clients);
+    return await db.select(clientColumns).from(clients);
   }
 
-  // Appointment operations
-  async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
-    const [appointment] = await db
-      .insert(appointments)
-      .values([{
-        ...insertAppointment,
-        bookingDetails: { date: new Date().toISOString() },
-      }])
-      .returning();
-    return appointment;
+  async listClients(query: ClientQuery): Promise<Page<Client>> {
+    // Merged duplicates stay readable by ID but no longer show up in lists
+    const conditions: SQL[] = [isNull(clients.mergedInto)];
+    if (query.ids) conditions.push(inArray(clients.id, query.ids));
+    if (query.workplace) conditions.push(eq(clients.workplace, query.workplace));
+    if (query.workType) conditions.push(eq(clients.workType, query.workType));
+    if (query.gender) conditions.push(eq(clients.gender, query.gender));
+    const where = and(...conditions);
+
+    const sortColumn = query.sort === "fullName" ? clients.fullName : clients.id;
+    const direction = query.order === "asc" ? asc : desc;
+
+    const [{ total }] = await db.select({ total: count() }).from(clients).where(where);
+    const items = await db
+      .select(clientColumns)
+      .from(clients)
+      .where(where)
+      .orderBy(direction(sortColumn), direction(clients.id))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+    return { items, total, page: query.page, limit: query.limit };
   }
 
-  async updateAppointment(id: number, update: Partial<Appointment>): Promise<Appointment> {
-    if (!Number.isInteger(id) || id < 1) {
-      throw new Error("Invalid appointment ID");
+  async searchClients(text: string, limit: number): Promise<Client[]> {
+    const terms = parseSearchTerms(text);
+
+    // Each branch can use one of the trigram or full-text indexes on clients
+    const phoneDigits = sql`regexp_replace(${clients.phoneNumber}, '[^0-9]', '', 'g')`;
+    const matches: SQL[] = [
+      sql`${clients.fullName} % ${terms.text}`,
+      sql`${terms.text} <% ${clients.fullName}`,
+      sql`to_tsvector('simple', ${clients.fullName}) @@ plainto_tsquery('simple', ${terms.text})`,
+      sql`${clients.email} ILIKE ${terms.text + "%"}`,
+    ];
+    const scores: SQL[] = [
+      sql`similarity(${clients.fullName}, ${terms.text})`,
+      sql`word_similarity(${terms.text}, ${clients.fullName})`,
+    ];
+    if (terms.nameKey) {
+      matches.push(sql`${clients.nameKey} % ${terms.nameKey}`, sql`${terms.nameKey} <% ${clients.nameKey}`);
+      scores.push(
+        sql`similarity(${clients.nameKey}, ${terms.nameKey})`,
+        sql`word_similarity(${terms.nameKey}, ${clients.nameKey})`,
+      );
+    }
+    if (terms.identifier.length >= 3) {
+      matches.push(
+        sql`${clients.passportNumber} ILIKE ${terms.identifier + "%"}`,
+        sql`${clients.nationalId} ILIKE ${terms.identifier + "%"}`,
+      );
+      scores.push(sql`CASE WHEN ${clients.passportNumber} ILIKE ${terms.identifier} OR ${clients.nationalId} ILIKE ${terms.identifier} THEN 1 ELSE 0 END`);
+    }
+    if (terms.digits.length >= 4) {
+      matches.push(sql`${phoneDigits} LIKE ${"%" + terms.digits + "%"}`);
     }
 
-    const [updated] = await db
-      .update(appointments)
-      .set(update)
-      .where(eq(appointments.id, id))
-      .returning();
-    return updated;
+    const score = sql<number>`greatest(${sql.join(scores, sql`, `)})`;
+    return await db
+      .select(clientColumns)
+      .from(clients)
+      .where(and(isNull(clients.mergedInto), or(...matches)))
+      .orderBy(desc(score), desc(scores[0]), asc(clients.id))
+      .limit(limit);
   }
 
-  async getAppointment(id: number): Promise<Appointment | undefined> {
+  async findDuplicateClients(query: ClientDuplicateQuery): Promise<Client[]> {
+    const matches: SQL[] = [];
+    if (query.passportNumber) {
+      matches.push(sql`upper(regexp_replace(${clients.passportNumber}, '[^0-9a-zA-Z]', '', 'g')) = ${identifierKey(query.passportNumber)}`);
+    }
+    if (query.nationalId) {
+      matches.push(sql`upper(regexp_replace(${clients.nationalId}, '[^0-9a-zA-Z]', '', 'g')) = ${identifierKey(query.nationalId)}`);
+    }
+    const phone = query.phoneNumber && phoneKey(query.phoneNumber);
+    if (phone) {
+      matches.push(eq(clients.phoneNumber, phone));
+    }
+    if (matches.length === 0) return [];
+
+    return await db
+      .select(clientColumns)
+      .from(clients)
+      .where(and(isNull(clients.mergedInto), or(...matches)))
+      .orderBy(asc(clients.id));
+  }
+
+  async mergeClients(survivorId: number, mergedClientId: number, mergedBy: number): Promise<ClientMerge> {
+    return await db.transaction(async (tx) => {
+      // Lock both clients so concurrent merges cannot chain through a half-merged record
+      const locked = await tx
+        .select(clientColumns)
+        .from(clients)
+        .where(inArray(clients.id, [survivorId, mergedClientId]))
+        .for("update");
+      const survivor = locked.find((client) => client.id === survivorId);
+      const mergedClient = locked.find((client) => client.id === mergedClientId);
+      if (!survivor || !mergedClient) {
+        throw new Error("Client not found");
+      }
+      if (survivor.mergedInto !== null || mergedClient.mergedInto !== null) {
+        throw new Error("Client has already been merged");
+      }
+
+      const moved = await tx
+        .update(appointments)
+        .set({ clientId: survivorId, version: sql`${appointments.version} + 1` })
+        .where(eq(appointments.clientId, mergedClientId))
+        .returning({ id: appointments.id });
+      await tx.update(clientDocuments).set({ clientId: survivorId }).where(eq(clientDocuments.clientId, mergedClientId));
+
+      // Clients merged into the duplicate earlier now point at the survivor as well
+      await tx
+        .update(clients)
+        .set({ mergedInto: survivorId })
+        .where(or(eq(clients.id, mergedClientId), eq(clients.mergedInto, mergedClientId)));
+
+      const [merge] = await tx
+        .insert(clientMerges)
+        .values({
+          survivorId,
+          mergedClientId,
+          mergedClient,
+          appointmentIds: moved.map(({ id }) => id),
+          mergedBy,
+        })
+        .returning();
+      return merge;
+    });
+  }
+
+  async getClientMerges(): Promise<ClientMerge[]> {
+    return await db.select().from(clientMerges).orderBy(desc(clientMerges.mergedAt), desc(clientMerges.id));
+  }
+
+  // Location and slot operations
+  async getLocations(includeInactive = false): Promise<Location[]> {
+    return await db
+      .select()
+      .from(locations)
+      .where(includeInactive ? undefined : eq(locations.active, true))
+      .orderBy(asc(locations.name));
+  }
+
+  async getLocation(id: number): Promise<Location | undefined> {
     if (!Number.isInteger(id) || id < 1) return undefined;
 
-    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
-    return appointment;
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    return location;
   }
 
-  async getAllAppointments(): Promise<Appointment[]> {
-    return await db.select().from(appointments);
+  async createLocation(insertLocation: InsertLocation): Promise<Location> {
+    const [location] = await db.insert(locations).values([insertLocation]).returning();
+    return location;
   }
 
-  async getTeamAppointments(teamId: number): Promise<Appointment[]> {
+  async updateLocation(id: number, update: InsertLocation): Promise<Location | undefined> {
+    const [location] = await db.update(locations).set(update).where(eq(locations.id, id)).returning();
+    return location;
+  }
+
+  async getBlackoutDates(from: string, to: string, locationId?: number): Promise<BlackoutDate[]> {
+    const conditions = [gte(blackoutDates.date, from), lte(blackoutDates.date, to)];
+    if (locationId !== undefined) {
+      conditions.push(or(isNull(blackoutDates.locationId), eq(blackoutDates.locationId, locationId))!);
+    }
     return await db
       .select()
+      .from(blackoutDates)
+      .where(and(...conditions))
+      .orderBy(asc(blackoutDates.date), asc(blackoutDates.id));
+  }
+
+  async createBlackoutDate(blackout: InsertBlackoutDate & { createdBy: number }): Promise<BlackoutDate> {
+    const [created] = await db.insert(blackoutDates).values([blackout]).returning();
+    return created;
+  }
+
+  async deleteBlackoutDate(id: number): Promise<boolean> {
+    const deleted = await db.delete(blackoutDates).where(eq(blackoutDates.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getSlotBookings(locationId: number, from: Date, to: Date): Promise<SlotBookings[]> {
+    return await this.countSlotBookings(db, locationId, from, to);
+  }
+
+  private async countSlotBookings(executor: Database, locationId: number, from: Date, to: Date, excludeId?: number): Promise<SlotBookings[]> {
+    const conditions = [
+      eq(appointments.locationId, locationId),
+      gte(appointments.slotStart, from),
+      lt(appointments.slotStart, to),
+      inArray(appointments.status, [...SLOT_HOLDING_STATES]),
+    ];
+    if (excludeId !== undefined) conditions.push(ne(appointments.id, excludeId));
+
+    const rows = await executor
+      .select({ slotStart: appointments.slotStart, count: count() })
       .from(appointments)
-      .where(eq(appointments.teamId, teamId));
+      .where(and(...conditions))
+      .groupBy(appointments.slotStart);
+    return rows.map((row) => ({ slotStart: row.slotStart!, count: row.count }));
   }
 
-  // PDF operations
-  async storePdf(appointmentId: number, pdfBuffer: Buffer): Promise<void> {
-    this.pdfStorage.set(appointmentId, pdfBuffer);
+  // Reason code operations
+  async getReasonCodes(includeInactive = false): Promise<ReasonCode[]> {
+    return await db
+      .select()
+      .from(reasonCodes)
+      .where(includeInactive ? undefined : eq(reasonCodes.active, true))
+      .orderBy(asc(reasonCodes.label));
+  }
+
+  async getReasonCode(id: number): Promise<ReasonCode | undefined> {
+    if (!Number.isInteger(id) || id < 1) return undefined;
+
+    const [reasonCode] = await db.select().from(reasonCodes).where(eq(reasonCodes.id, id));
+    return reasonCode;
+  }
+
+  async createReasonCode(insertReasonCode: InsertReasonCode): Promise<ReasonCode> {
+    const [reasonCode] = await db.insert(reasonCodes).values([insertReasonCode]).returning();
+    return reasonCode;
+  }
+
+  async updateReasonCode(id: number, update: Partial<InsertReasonCode>): Promise<ReasonCode | undefined> {
+    const [reasonCode] = await db
+      .update(reasonCodes)
+      .set(update)
+      .where(eq(reasonCodes.id, id))
+      .returning();
+    return reasonCode;
+  }
+
+  // Document requirement operations
+  async getDocumentRequirements(): Promise<DocumentRequirement[]> {
+    return await db.select().from(documentRequirements).orderBy(asc(documentRequirements.id));
+  }
+
+  async createDocumentRequirement(requirement: InsertDocumentRequirement): Promise<DocumentRequirement> {
+    const [created] = await db.insert(documentRequirements).values(requirement).returning();
+    return created;
+  }
+
+  async updateDocumentRequirement(id: number, update: DocumentRequirementUpdate): Promise<DocumentRequirement | undefined> {
+    const [requirement] = await db
+      .update(documentRequirements)
+      .set(update)
+      .where(eq(documentRequirements.id, id))
+      .returning();
+    return requirement;
+  }
+
+  async deleteDocumentRequirement(id: number): Promise<boolean> {
+    const deleted = await db.delete(documentRequirements).where(eq(documentRequirements.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Passport rule operations
+  async getPassportRules(): Promise<PassportRule[]> {
+    return await db.select().from(passportRules).orderBy(asc(passportRules.id));
+  }
+
+  async setPassportRules(rules: PassportRuleInput[]): Promise<PassportRule[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(passportRules);
+      if (rules.length === 0) return [];
+      return await tx.insert(passportRules).values(rules).returning();
+    });
+  }
+
+  async getPassportExpiries(expiresBefore: string): Promise<{ appointment: Appointment; client: Client }[]> {
+    return await db
+      .select({ appointment: appointments, client: clientColumns })
+      .from(appointments)
+      .innerJoin(clients, eq(clients.id, appointments.clientId))
+      .where(and(
+        inArray(appointments.status, [...SLA_STATES]),
+        lt(clients.passportExpiryDate, expiresBefore),
+      ))
+      .orderBy(asc(clients.passportExpiryDate), asc(appointments.id));
+  }
+
+  // Client document operations
+  async getClientDocuments(clientId: number): Promise<ClientDocumentWithVersions[]> {
+    const documents = await db
+      .select()
+      .from(clientDocuments)
+      .where(eq(clientDocuments.clientId, clientId))
+      .orderBy(asc(clientDocuments.id));
+    return await this.withVersions(documents);
+  }
+
+  async getClientDocument(id: number): Promise<ClientDocumentWithVersions | undefined> {
+    const [document] = await this.withVersions(
+      await db.select().from(clientDocuments).where(eq(clientDocuments.id, id)),
+    );
+    return document;
+  }
+
+  async createClientDocument({ clientId, documentType, ...version }: NewClientDocument): Promise<ClientDocumentWithVersions> {
+    return await db.transaction(async (tx) => {
+      const [document] = await tx
+        .insert(clientDocuments)
+        .values({ clientId, documentType, createdBy: version.uploadedBy })
+        .returning();
+      const [first] = await tx
+        .insert(clientDocumentVersions)
+        .values({ ...version, documentId: document.id, version: 1 })
+        .returning();
+      return { ...document, versions: [first] };
+    });
+  }
+
+  async addClientDocumentVersion(documentId: number, version: NewDocumentVersion): Promise<ClientDocumentVersion> {
+    return await db.transaction(async (tx) => {
+      // Lock the document so concurrent uploads get consecutive versions
+      await tx.select({ id: clientDocuments.id }).from(clientDocuments).where(eq(clientDocuments.id, documentId)).for("update");
+      const [latest] = await tx
+        .select({ version: max(clientDocumentVersions.version) })
+        .from(clientDocumentVersions)
+        .where(eq(clientDocumentVersions.documentId, documentId));
+      const [created] = await tx
+        .insert(clientDocumentVersions)
+        .values({ ...version, documentId, version: (latest?.version ?? 0) + 1 })
+        .returning();
+      return created;
+    });
+  }
+
+  async reviewClientDocument(documentId: number, version: number, review: DocumentReview): Promise<ClientDocumentVersion | undefined> {
+    // Only the current version may be reviewed, so the update names the version and
+    // checks in the same statement that no newer one exists
+    const [reviewed] = await db
+      .update(clientDocumentVersions)
+      .set({ status: review.status, reviewNote: review.note ?? null, reviewedBy: review.reviewedBy, reviewedAt: new Date() })
+      .where(and(
+        eq(clientDocumentVersions.documentId, documentId),
+        eq(clientDocumentVersions.version, version),
+        sql`not exists (select 1 from ${clientDocumentVersions} newer where newer.document_id = ${documentId} and newer.version > ${version})`,
+      ))
+      .returning();
+    return reviewed;
+  }
+
+  private async withVersions(documents: ClientDocument[]): Promise<ClientDocumentWithVersions[]> {
+    if (documents.length === 0) return [];
+    const versions = await db
+      .select()
+      .from(clientDocumentVersions)
+      .where(inArray(clientDocumentVersions.documentId, documents.map((document) => document.id)))
+      .orderBy(desc(clientDocumentVersions.version));
+    return documents.map((document) => ({
+      ...document,
+      versions: versions.filter((version) => version.documentId === document.id),
+    }));
+  }
+
+  // Attachment operations
+  async createAttachment(upload: AttachmentUpload): Promise<Attachment> {
+    const contentHash = createHash("sha256").update(upload.content).digest("hex");
+
+    const storageKey = attachmentKey(contentHash, "original");
+    await fileStore.put(storageKey, upload.content, upload.mimeType);
+
+    let thumbnailKey: string | null = null;
+    if (upload.thumbnail) {
+      thumbnailKey = attachmentKey(contentHash, "thumbnail");
+      await fileStore.put(thumbnailKey, upload.thumbnail, "image/jpeg");
+    }
+
+    let previewKey: string | null = null;
+    if (upload.preview) {
+      previewKey = attachmentKey(contentHash, "preview");
+      await fileStore.put(previewKey, upload.preview, "image/jpeg");
+    }
+
+    const [attachment] = await db
+      .insert(attachments)
+      .values({
+        fileName: upload.fileName,
+        mimeType: upload.mimeType,
+        size: upload.content.length,
+        contentHash,
+        storageKey,
+        thumbnailKey,
+        previewKey,
+        width: upload.width,
+        height: upload.height,
+        uploadedBy: upload.uploadedBy,
+      })
+      .returning();
+    return attachment;
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    if (!Number.isInteger(id) || id < 1) return undefined;
+
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment;
+  }
+
+  async getAttachmentContent(id: number, variant: AttachmentVariant): Promise<StoredAttachment | undefined> {
+    const attachment = await this.getAttachment(id);
+    if (!attachment) return undefined;
+
+    // Non-image attachments have no derived variants, so fall back to the original
+    const key = variant === "thumbnail" ? attachment.thumbnailKey
+      : variant === "preview" ? attachment.previewKey
+      : null;
+
+    const content = await fileStore.get(key ?? attachment.storageKey);
+    if (!content) return undefined;
+    return { attachment, content, mimeType: key ? "image/jpeg" : attachment.mimeType };
+  }
+
+  // Appointment operations
+  async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      const [appointment] = await tx
+        .insert(appointments)
+        .values([insertAppointment])
+        .returning();
+      await tx.insert(appointmentStatusChanges).values({
+        appointmentId: appointment.id,
+        fromStatus: null,
+        toStatus: appointment.status,
+        changedBy: appointment.collectedBy,
+      });
+      return appointment;
+    });
+  }
+
+  async updateAppointment(id: number, update: Partial<Appointment>, expectedVersion?: number): Promise<Appointment> {
+    if (!Number.isInteger(id) || id < 1) {
+      throw new Error("Invalid appointment ID");
+    }
+
+    // The version check and the write are one statement, so concurrent updates cannot interleave
+    const conditions = [eq(appointments.id, id)];
+    if (expectedVersion !== undefined) conditions.push(eq(appointments.version, expectedVersion));
+
+    const [updated] = await db
+      .update(appointments)
+      .set({ ...update, id, version: sql`${appointments.version} + 1` })
+      .where(and(...conditions))
+      .returning();
+    if (!updated) {
+      const current = await this.getAppointment(id);
+      if (!current) throw new Error("Appointment not found");
+      throw new VersionConflictError(current);
+    }
+    return updated;
+  }
+
+  async transitionAppointment(id: number, change: StatusChange, expectedVersion: number): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(appointments).where(eq(appointments.id, id)).for("update");
+      if (!current) throw new Error("Appointment not found");
+      if (current.version !== expectedVersion) throw new VersionConflictError(current);
+
+      let changes: ClientChanges | null = null;
+      if (change.clientUpdate) {
+        const [client] = await tx.select(clientColumns).from(clients).where(eq(clients.id, current.clientId)).for("update");
+        if (!client) throw new Error("Client not found");
+        changes = clientChanges(client, change.clientUpdate);
+        if (Object.keys(changes).length > 0) {
+          await tx
+            .update(clients)
+            .set({
+              ...change.clientUpdate,
+              ...(change.clientUpdate.fullName ? { nameKey: nameSearchKey(change.clientUpdate.fullName) } : {}),
+            })
+            .where(eq(clients.id, client.id));
+          await tx.insert(clientFieldChanges).values(fieldChangeRows(client.id, changes, change.changedBy, id));
+        }
+      }
+
+      // Leaving review without being approved restarts the approval chain
+      if (current.status === "submitted" && change.to !== "approved") {
+        await tx
+          .update(approvalDecisions)
+          .set({ voidedAt: new Date() })
+          .where(and(eq(approvalDecisions.appointmentId, id), isNull(approvalDecisions.voidedAt)));
+      }
+
+      // Cancelling gives the slot back; the slot history keeps it
+      const releasesSlot = current.slotStart !== null && !SLOT_HOLDING_STATES.includes(change.to);
+      if (releasesSlot) {
+        await tx.insert(appointmentSlotChanges).values(slotChange(current, null, change.changedBy, change.reason));
+      }
+
+      const [updated] = await tx
+        .update(appointments)
+        .set({
+          status: change.to,
+          version: current.version + 1,
+          ...(change.to === "approved" ? { approvedBy: change.changedBy } : {}),
+          ...(releasesSlot ? { locationId: null, slotStart: null } : {}),
+        })
+        .where(eq(appointments.id, id))
+        .returning();
+      await tx.insert(appointmentStatusChanges).values({
+        appointmentId: id,
+        fromStatus: current.status,
+        toStatus: change.to,
+        reasonCodeId: change.reasonCodeId ?? null,
+        reason: change.reason ?? null,
+        clientChanges: changes,
+        changedBy: change.changedBy,
+      });
+      return updated;
+    });
+  }
+
+  async moveAppointmentToTeam(id: number, teamId: number, expectedVersion: number): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(appointments).where(eq(appointments.id, id)).for("update");
+      if (!current) throw new Error("Appointment not found");
+      if (current.version !== expectedVersion) throw new VersionConflictError(current);
+
+      // Sign-offs belong to the old team's chain
+      await tx
+        .update(approvalDecisions)
+        .set({ voidedAt: new Date() })
+        .where(and(eq(approvalDecisions.appointmentId, id), isNull(approvalDecisions.voidedAt)));
+      const [updated] = await tx
+        .update(appointments)
+        .set({ teamId, assignedTo: null, version: current.version + 1 })
+        .where(eq(appointments.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getStatusHistory(appointmentId: number): Promise<AppointmentStatusChange[]> {
+    return await db
+      .select()
+      .from(appointmentStatusChanges)
+      .where(eq(appointmentStatusChanges.appointmentId, appointmentId))
+      .orderBy(asc(appointmentStatusChanges.changedAt), asc(appointmentStatusChanges.id));
+  }
+
+  async signOffAppointment(id: number, signOff: SignOff, expectedVersion: number): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(appointments).where(eq(appointments.id, id)).for("update");
+      if (!current) throw new Error("Appointment not found");
+      if (current.version !== expectedVersion) throw new VersionConflictError(current);
+
+      await tx.insert(approvalDecisions).values({
+        appointmentId: id,
+        position: signOff.position,
+        stepName: signOff.stepName,
+        decidedBy: signOff.decidedBy,
+        note: signOff.note ?? null,
+      });
+      const [updated] = await tx
+        .update(appointments)
+        .set({
+          version: current.version + 1,
+          ...(signOff.completesChain ? { status: "approved", approvedBy: signOff.decidedBy } : {}),
+        })
+        .where(eq(appointments.id, id))
+        .returning();
+      if (signOff.completesChain) {
+        await tx.insert(appointmentStatusChanges).values({
+          appointmentId: id,
+          fromStatus: current.status,
+          toStatus: "approved",
+          reason: signOff.note ?? null,
+          changedBy: signOff.decidedBy,
+        });
+      }
+      return updated;
+    });
+  }
+
+  async bookAppointment(id: number, booking: Booking, expectedVersion: number): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(appointments).where(eq(appointments.id, id)).for("update");
+      if (!current) throw new Error("Appointment not found");
+      if (current.version !== expectedVersion) throw new VersionConflictError(current);
+      await this.reserveSlot(tx, id, booking);
+
+      const [updated] = await tx
+        .update(appointments)
+        .set({
+          status: "booked",
+          locationId: booking.locationId,
+          slotStart: booking.slotStart,
+          version: current.version + 1,
+        })
+        .where(eq(appointments.id, id))
+        .returning();
+      await tx.insert(appointmentStatusChanges).values({
+        appointmentId: id,
+        fromStatus: current.status,
+        toStatus: "booked",
+        changedBy: booking.changedBy,
+      });
+      await tx.insert(appointmentSlotChanges).values(slotChange(current, booking, booking.changedBy, booking.reason));
+      return updated;
+    });
+  }
+
+  async rescheduleAppointment(id: number, booking: Booking, expectedVersion: number): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(appointments).where(eq(appointments.id, id)).for("update");
+      if (!current) throw new Error("Appointment not found");
+      if (current.version !== expectedVersion) throw new VersionConflictError(current);
+      await this.reserveSlot(tx, id, booking);
+
+      const [updated] = await tx
+        .update(appointments)
+        .set({
+          locationId: booking.locationId,
+          slotStart: booking.slotStart,
+          version: current.version + 1,
+        })
+        .where(eq(appointments.id, id))
+        .returning();
+      await tx.insert(appointmentSlotChanges).values(slotChange(current, booking, booking.changedBy, booking.reason));
+      return updated;
+    });
+  }
+
+  // Checks that the slot and its day have room, not counting the appointment itself
+  private async reserveSlot(tx: Database, appointmentId: number, booking: Booking) {
+    // Locking the location serialises bookings there, so two requests cannot both take the last place
+    const [location] = await tx.select().from(locations).where(eq(locations.id, booking.locationId)).for("update");
+    if (!location) throw new Error("Location not found");
+    const day = dayBounds(location, localDate(booking.slotStart, location.timezone));
+    checkCapacity(location, booking.slotStart, await this.countSlotBookings(tx, location.id, day.start, day.end, appointmentId));
+  }
+
+  async getSlotHistory(appointmentId: number): Promise<AppointmentSlotChange[]> {
+    return await db
+      .select()
+      .from(appointmentSlotChanges)
+      .where(eq(appointmentSlotChanges.appointmentId, appointmentId))
+      .orderBy(asc(appointmentSlotChanges.changedAt), asc(appointmentSlotChanges.id));
+  }
+
+  async getApprovalDecisions(appointmentId: number): Promise<ApprovalDecision[]> {
+    return await db
+      .select()
+      .from(approvalDecisions)
+      .where(eq(approvalDecisions.appointmentId, appointmentId))
+      .orderBy(asc(approvalDecisions.decidedAt), asc(approvalDecisions.id));
+  }
+
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    if (!Number.isInteger(id) || id < 1) return undefined;
+
+    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+
+  async getAllAppointments(): Promise<Appointment[]> {
+    return await db.select().from(appointments);
+  }
+
+  async getTeamAppointments(teamId: number): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(eq(appointments.teamId, teamId));
+  }
+
+  async listAppointments(query: AppointmentQuery): Promise<Page<Appointment>> {
+    const conditions: SQL[] = [];
+    if (query.status) conditions.push(eq(appointments.status, query.status));
+    if (query.clientId) conditions.push(eq(appointments.clientId, query.clientId));
+    if (query.teamId) conditions.push(eq(appointments.teamId, query.teamId));
+    if (query.collectedBy) conditions.push(eq(appointments.collectedBy, query.collectedBy));
+    if (query.approvedBy) conditions.push(eq(appointments.approvedBy, query.approvedBy));
+    if (query.workplace) {
+      conditions.push(inArray(
+        appointments.clientId,
+        db.select({ id: clients.id }).from(clients).where(eq(clients.workplace, query.workplace)),
+      ));
+    }
+    if (query.createdFrom) conditions.push(gte(appointments.createdAt, query.createdFrom.toISOString()));
+    if (query.createdTo) conditions.push(lt(appointments.createdAt, query.createdTo.toISOString()));
+    if (query.bookedFrom) conditions.push(gte(appointments.slotStart, query.bookedFrom));
+    if (query.bookedTo) conditions.push(lt(appointments.slotStart, query.bookedTo));
+    if (query.overdue !== undefined) {
+      const overdue = sql`exists (
+        select 1 from ${slaPolicies}
+        where ${slaPolicies.teamId} = ${appointments.teamId}
+          and ${slaPolicies.status} = ${appointments.status}
+          and (select max(${appointmentStatusChanges.changedAt}) from ${appointmentStatusChanges}
+               where ${appointmentStatusChanges.appointmentId} = ${appointments.id})
+              + ${slaPolicies.hours} * interval '1 hour' < ${new Date().toISOString()}
+      )`;
+      conditions.push(query.overdue ? overdue : sql`not ${overdue}`);
+    }
+    if (query.escalatedTo !== undefined) {
+      conditions.push(sql`exists (
+        select 1 from ${slaBreaches}
+        where ${slaBreaches.appointmentId} = ${appointments.id}
+          and ${slaBreaches.statusChangeId} = (select max(${appointmentStatusChanges.id}) from ${appointmentStatusChanges}
+               where ${appointmentStatusChanges.appointmentId} = ${appointments.id})
+          and ${query.escalatedTo === "admins" ? isNull(slaBreaches.escalatedTo) : eq(slaBreaches.escalatedTo, query.escalatedTo)}
+      )`);
+    }
+    if (query.assignedTo !== undefined) {
+      conditions.push(query.assignedTo === "none" ? isNull(appointments.assignedTo) : eq(appointments.assignedTo, query.assignedTo));
+    }
+    if (query.queued !== undefined) {
+      conditions.push((query.queued ? inArray : notInArray)(appointments.status, [...QUEUE_STATES]));
+    }
+    const where = and(...conditions);
+
+    const sortColumn = {
+      createdAt: appointments.createdAt,
+      bookedAt: appointments.slotStart,
+      status: appointments.status,
+      id: appointments.id,
+    }[query.sort];
+    const direction = query.order === "asc" ? asc : desc;
+
+    const [{ total }] = await db.select({ total: count() }).from(appointments).where(where);
+    const items = await db
+      .select()
+      .from(appointments)
+      .where(where)
+      .orderBy(direction(sortColumn), direction(appointments.id))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+    return { items, total, page: query.page, limit: query.limit };
+  }
+
+  // Assignment operations
+  async assignAppointment(id: number, assignedTo: number | null, expectedAssignee?: number | null): Promise<Appointment | undefined> {
+    // Checking the current assignee in the same statement keeps two approvers from claiming one case
+    const conditions = [eq(appointments.id, id)];
+    if (expectedAssignee !== undefined) {
+      conditions.push(expectedAssignee === null ? isNull(appointments.assignedTo) : eq(appointments.assignedTo, expectedAssignee));
+    }
+    const [updated] = await db
+      .update(appointments)
+      .set({ assignedTo, version: sql`${appointments.version} + 1` })
+      .where(and(...conditions))
+      .returning();
+    return updated;
+  }
+
+  async autoAssignAppointment(id: number): Promise<Appointment | undefined> {
+    const appointment = await this.getAppointment(id);
+    if (!appointment) return undefined;
+
+    return await db.transaction(async (tx) => {
+      // Locking the team serialises its assignments, so each one sees the loads and cursor the last one left
+      const [team] = await tx.select().from(teams).where(eq(teams.id, appointment.teamId)).for("update");
+      const [current] = await tx.select().from(appointments).where(eq(appointments.id, id)).for("update");
+      if (!team || current.assignedTo !== null || !QUEUE_STATES.includes(current.status as AppointmentState)) return undefined;
+
+      const queues = await this.teamQueues(tx, team.id);
+      const assignee = pickAssignee(
+        team.assignmentMode as AssignmentMode,
+        queues.map((queue) => queue.userId),
+        new Map(queues.map((queue) => [queue.userId, queue.assigned])),
+        team.lastAssignedTo,
+      );
+      if (assignee === undefined) return undefined;
+
+      await tx.update(teams).set({ lastAssignedTo: assignee }).where(eq(teams.id, team.id));
+      const [updated] = await tx
+        .update(appointments)
+        .set({ assignedTo: assignee, version: current.version + 1 })
+        .where(eq(appointments.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getAssignmentLoads(teamId: number): Promise<AssignmentLoad[]> {
+    return await this.teamQueues(db, teamId);
+  }
+
+  async rebalanceAssignments(teamId: number, absentUserIds: number[]): Promise<Appointment[]> {
+    return await db.transaction(async (tx) => {
+      const [team] = await tx.select().from(teams).where(eq(teams.id, teamId)).for("update");
+      if (!team) return [];
+
+      const queued = await tx
+        .select()
+        .from(appointments)
+        .where(and(
+          eq(appointments.teamId, teamId),
+          inArray(appointments.assignedTo, absentUserIds),
+          inArray(appointments.status, [...QUEUE_STATES]),
+        ))
+        .orderBy(asc(appointments.id))
+        .for("update");
+      const queues = (await this.teamQueues(tx, teamId)).filter((queue) => !absentUserIds.includes(queue.userId));
+      const assignees = distribute(team.assignmentMode as AssignmentMode, queues, queued.length, team.lastAssignedTo);
+      if (assignees.length === 0) return [];
+
+      const moved: Appointment[] = [];
+      for (let i = 0; i < assignees.length; i++) {
+        const [updated] = await tx
+          .update(appointments)
+          .set({ assignedTo: assignees[i], version: queued[i].version + 1 })
+          .where(eq(appointments.id, queued[i].id))
+          .returning();
+        moved.push(updated);
+      }
+      await tx.update(teams).set({ lastAssignedTo: assignees[assignees.length - 1] }).where(eq(teams.id, teamId));
+      return moved;
+    });
+  }
+
+  private async teamQueues(tx: Database, teamId: number): Promise<AssignmentLoad[]> {
+    const approvers = await tx
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.teamId, teamId), eq(users.role, "approver")))
+      .orderBy(asc(users.id));
+    const loads = await tx
+      .select({ userId: appointments.assignedTo, assigned: count() })
+      .from(appointments)
+      .where(and(
+        eq(appointments.teamId, teamId),
+        isNotNull(appointments.assignedTo),
+        inArray(appointments.status, [...QUEUE_STATES]),
+      ))
+      .groupBy(appointments.assignedTo);
+    return approvers.map(({ id }) => ({
+      userId: id,
+      assigned: loads.find((load) => load.userId === id)?.assigned ?? 0,
+    }));
+  }
+
+  // Comment operations
+  async getComments(appointmentId: number, includeInternal: boolean): Promise<AppointmentComment[]> {
+    const conditions = [eq(appointmentComments.appointmentId, appointmentId)];
+    if (!includeInternal) conditions.push(eq(appointmentComments.internal, false));
+    return await db
+      .select()
+      .from(appointmentComments)
+      .where(and(...conditions))
+      .orderBy(asc(appointmentComments.createdAt), asc(appointmentComments.id));
+  }
+
+  async getComment(id: number): Promise<AppointmentComment | undefined> {
+    const [comment] = await db.select().from(appointmentComments).where(eq(appointmentComments.id, id));
+    return comment;
+  }
+
+  async createComment(comment: NewComment): Promise<AppointmentComment> {
+    const [created] = await db.insert(appointmentComments).values(comment).returning();
+    return created;
+  }
+
+  async editComment(id: number, body: string, mentions: number[]): Promise<AppointmentComment> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(appointmentComments).where(eq(appointmentComments.id, id)).for("update");
+      if (!current) throw new Error(`Comment ${id} not found`);
+
+      const editedAt = new Date();
+      await tx.insert(appointmentCommentEdits).values({ commentId: id, previousBody: current.body, editedAt });
+      const [updated] = await tx
+        .update(appointmentComments)
+        .set({ body, mentions, editedAt })
+        .where(eq(appointmentComments.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getCommentEdits(commentId: number): Promise<AppointmentCommentEdit[]> {
+    return await db
+      .select()
+      .from(appointmentCommentEdits)
+      .where(eq(appointmentCommentEdits.commentId, commentId))
+      .orderBy(asc(appointmentCommentEdits.editedAt), asc(appointmentCommentEdits.id));
+  }
+
+  async markCommentsRead(appointmentId: number, userId: number): Promise<void> {
+    const [latest] = await db
+      .select({ id: max(appointmentComments.id) })
+      .from(appointmentComments)
+      .where(eq(appointmentComments.appointmentId, appointmentId));
+    if (latest?.id == null) return;
+
+    // A slower request that read an older thread must not move the marker back
+    await db
+      .insert(appointmentCommentReads)
+      .values({ appointmentId, userId, lastReadCommentId: latest.id })
+      .onConflictDoUpdate({
+        target: [appointmentCommentReads.appointmentId, appointmentCommentReads.userId],
+        set: {
+          lastReadCommentId: sql`greatest(${appointmentCommentReads.lastReadCommentId}, excluded.last_read_comment_id)`,
+          readAt: sql`now()`,
+        },
+      });
+  }
+
+  async getUnreadComments(appointmentIds: number[], userId: number, includeInternal: boolean): Promise<CommentUnread[]> {
+    if (appointmentIds.length === 0) return [];
+
+    const conditions = [
+      inArray(appointmentComments.appointmentId, appointmentIds),
+      ne(appointmentComments.authorId, userId),
+      or(
+        isNull(appointmentCommentReads.lastReadCommentId),
+        sql`${appointmentComments.id} > ${appointmentCommentReads.lastReadCommentId}`,
+      )!,
+    ];
+    if (!includeInternal) conditions.push(eq(appointmentComments.internal, false));
+
+    return await db
+      .select({
+        appointmentId: appointmentComments.appointmentId,
+        unread: count(),
+        mentioned: sql<boolean>`bool_or(${appointmentComments.mentions} @> ${JSON.stringify([userId])}::jsonb)`,
+      })
+      .from(appointmentComments)
+      .leftJoin(appointmentCommentReads, and(
+        eq(appointmentCommentReads.appointmentId, appointmentComments.appointmentId),
+        eq(appointmentCommentReads.userId, userId),
+      ))
+      .where(and(...conditions))
+      .groupBy(appointmentComments.appointmentId);
+  }
+
+  // PDF operations
+  async storePdf(appointmentId: number, pdfBuffer: Buffer, uploadedBy: number): Promise<AppointmentDocument> {
+    const contentHash = createHash("sha256").update(pdfBuffer).digest("hex");
+
+    return await db.transaction(async (tx) => {
+      // Lock the appointment so concurrent uploads get consecutive versions
+      await tx
+        .select({ id: appointments.id })
+        .from(appointments)
+        .where(eq(appointments.id, appointmentId))
+        .for("update");
+
+      const [{ latest }] = await tx
+        .select({ latest: max(appointmentDocuments.version) })
+        .from(appointmentDocuments)
+        .where(eq(appointmentDocuments.appointmentId, appointmentId));
+
+      const version = (latest ?? 0) + 1;
+      const storageKey = `appointments/${appointmentId}/v${version}-${contentHash}.pdf`;
+      await fileStore.put(storageKey, pdfBuffer, "application/pdf");
+
+      const [document] = await tx
+        .insert(appointmentDocuments)
+        .values({
+          appointmentId,
+          version,
+          storageKey,
+          contentHash,
+          size: pdfBuffer.length,
+          mimeType: "application/pdf",
+          uploadedBy,
+        })
+        .returning();
+      return document;
+    });
+  }
+
+  async getPdf(appointmentId: number, version?: number): Promise<StoredDocument | undefined> {
+    const conditions = [eq(appointmentDocuments.appointmentId, appointmentId)];
+    if (version !== undefined) {
+      conditions.push(eq(appointmentDocuments.version, version));
+    }
+
+    const [document] = await db
+      .select()
+      .from(appointmentDocuments)
+      .where(and(...conditions))
+      .orderBy(desc(appointmentDocuments.version))
+      .limit(1);
+    if (!document) return undefined;
+
+    const content = await fileStore.get(document.storageKey);
+    if (!content) return undefined;
+    return { document, content };
+  }
+
+  async getPdfVersions(appointmentId: number): Promise<AppointmentDocument[]> {
+    return await db
+      .select()
+      .from(appointmentDocuments)
+      .where(eq(appointmentDocuments.appointmentId, appointmentId))
+      .orderBy(desc(appointmentDocuments.version));
+  }
+}
+
+// Keeps everything in process memory, including uploaded files. Used for local
+// development and tests where no PostgreSQL database is available.
+export class MemStorage implements IStorage {
+  readonly sessionStore: session.Store;
+  private users: Map<number, User>;
+  private teams: Map<number, Team>;
+  private teamMembers: Map<number, TeamMember>;
+  private clients: Map<number, Client>;
+  private clientMerges: Map<number, ClientMerge>;
+  private appointments: Map<number, Appointment>;
+  private appointmentStatusChanges: Map<number, AppointmentStatusChange>;
+  private appointmentSlotChanges: Map<number, AppointmentSlotChange>;
+  private appointmentComments: Map<number, AppointmentComment>;
+  private appointmentCommentEdits: Map<number, AppointmentCommentEdit>;
+  private appointmentCommentReads: Map<string, number>; // "appointmentId:userId" to the last comment read
+  private reasonCodes: Map<number, ReasonCode>;
+  private documentRequirements: Map<number, DocumentRequirement>;
+  private passportRules: Map<number, PassportRule>;
+  private clientDocuments: Map<number, ClientDocument>;
+  private clientDocumentVersions: Map<number, ClientDocumentVersion>;
+  private clientLanguages: Map<number, ClientLanguage>;
+  private clientEducation: Map<number, ClientEducation>;
+  private clientWorkExperience: Map<number, ClientWorkExperience>;
+  private clientSkills: Map<number, ClientSkill>;
+  private clientFieldChanges: Map<number, ClientFieldChange>;
+  private approvalSteps: Map<number, ApprovalStep>;
+  private approvalDecisions: Map<number, ApprovalDecision>;
+  private slaPolicies: Map<number, SlaPolicy>;
+  private slaBreaches: Map<number, SlaBreach>;
+  private locations: Map<number, Location>;
+  private blackoutDates: Map<number, BlackoutDate>;
+  private attachments: Map<number, Attachment>;
+  private appointmentDocuments: Map<number, AppointmentDocument>;
+  private files: Map<string, Buffer>;
+  private ids: Map<string, number>;
+
+  constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired sessions daily
+    });
+    this.users = new Map();
+    this.teams = new Map();
+    this.teamMembers = new Map();
+    this.clients = new Map();
+    this.clientMerges = new Map();
+    this.appointments = new Map();
+    this.appointmentStatusChanges = new Map();
+    this.appointmentSlotChanges = new Map();
+    this.appointmentComments = new Map();
+    this.appointmentCommentEdits = new Map();
+    this.appointmentCommentReads = new Map();
+    this.reasonCodes = new Map();
+    this.documentRequirements = new Map();
+    this.passportRules = new Map();
+    this.clientDocuments = new Map();
+    this.clientDocumentVersions = new Map();
+    this.clientLanguages = new Map();
+    this.clientEducation = new Map();
+    this.clientWorkExperience = new Map();
+    this.clientSkills = new Map();
+    this.clientFieldChanges = new Map();
+    this.approvalSteps = new Map();
+    this.approvalDecisions = new Map();
+    this.slaPolicies = new Map();
+    this.slaBreaches = new Map();
+    this.locations = new Map();
+    this.blackoutDates = new Map();
+    this.attachments = new Map();
+    this.appointmentDocuments = new Map();
+    this.files = new Map();
+    this.ids = new Map();
+  }
+
+  private nextId(table: string): number {
+    const id = (this.ids.get(table) ?? 0) + 1;
+    this.ids.set(table, id);
+    return id;
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async createUser(insertUser: NewUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`Username already exists: ${insertUser.username}`);
+    }
+
+    const user: User = {
+      ...insertUser,
+      id: this.nextId("users"),
+      password: await hashPassword(insertUser.password),
+      createdBy: insertUser.createdBy ?? null,
+      teamId: insertUser.teamId ?? null,
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async updateUserPassword(id: number, newPassword: string): Promise<void> {
+    const user = this.users.get(id);
+    if (!user) return;
+    this.users.set(id, { ...user, password: await hashPassword(newPassword) });
+  }
+
+  async updateUserTeam(userId: number, teamId: number | null): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) return;
+    this.users.set(userId, { ...user, teamId });
+  }
+
+  // Team operations
+  async createTeam(insertTeam: InsertTeam): Promise<Team> {
+    const team: Team = {
+      description: null,
+      leadId: null,
+      assignmentMode: "manual",
+      lastAssignedTo: null,
+      ...insertTeam,
+      id: this.nextId("teams"),
+      createdAt: new Date(),
+    };
+    this.teams.set(team.id, team);
+    return team;
+  }
+
+  async getTeam(id: number): Promise<Team | undefined> {
+    return this.teams.get(id);
+  }
+
+  async getAllTeams(): Promise<Team[]> {
+    return Array.from(this.teams.values());
+  }
+
+  async getTeamMembers(teamId: number): Promise<User[]> {
+    return Array.from(this.users.values()).filter((user) => user.teamId === teamId);
+  }
+
+  async addTeamMember(insertTeamMember: InsertTeamMember): Promise<TeamMember> {
+    const teamMember: TeamMember = {
+      ...insertTeamMember,
+      id: this.nextId("teamMembers"),
+      addedAt: new Date(),
+    };
+    this.teamMembers.set(teamMember.id, teamMember);
+    return teamMember;
+  }
+
+  async removeTeamMember(teamId: number, userId: number): Promise<void> {
+    await this.updateUserTeam(userId, null);
+  }
+
+  async getApprovalSteps(teamId: number): Promise<ApprovalStep[]> {
+    return Array.from(this.approvalSteps.values())
+      .filter((step) => step.teamId === teamId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async setApprovalSteps(teamId: number, steps: ApprovalStepInput[]): Promise<ApprovalStep[]> {
+    Array.from(this.approvalSteps.values())
+      .filter((step) => step.teamId === teamId)
+      .forEach((step) => this.approvalSteps.delete(step.id));
+
+    return steps.map((input, i) => {
+      const step: ApprovalStep = { ...input, id: this.nextId("approvalSteps"), teamId, position: i + 1 };
+      this.approvalSteps.set(step.id, step);
+      return step;
+    });
+  }
+
+  async updateTeam(teamId: number, update: TeamUpdate): Promise<Team | undefined> {
+    const team = this.teams.get(teamId);
+    if (!team) return undefined;
+    const updated = { ...team, ...update };
+    this.teams.set(teamId, updated);
+    return updated;
+  }
+
+  // SLA operations
+  async getSlaPolicies(teamId: number): Promise<SlaPolicy[]> {
+    return Array.from(this.slaPolicies.values())
+      .filter((policy) => policy.teamId === teamId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async setSlaPolicies(teamId: number, policies: SlaPolicyInput[]): Promise<SlaPolicy[]> {
+    Array.from(this.slaPolicies.values())
+      .filter((policy) => policy.teamId === teamId)
+      .forEach((policy) => this.slaPolicies.delete(policy.id));
+
+    return policies.map((input) => {
+      const policy: SlaPolicy = { ...input, id: this.nextId("slaPolicies"), teamId };
+      this.slaPolicies.set(policy.id, policy);
+      return policy;
+    });
+  }
+
+  async getAppointmentSla(appointmentIds: number[], now: Date): Promise<AppointmentSla[]> {
+    return appointmentIds.flatMap((id) => {
+      const appointment = this.appointments.get(id);
+      const standing = appointment && this.currentSla(appointment, now);
+      return standing ? [standing] : [];
+    });
+  }
+
+  async getUnflaggedBreaches(now: Date): Promise<(NewSlaBreach & { teamId: number })[]> {
+    return Array.from(this.appointments.values()).flatMap((appointment) => {
+      const standing = this.currentSla(appointment, now);
+      if (!standing?.overdue || standing.breach) return [];
+      return [{
+        appointmentId: appointment.id,
+        teamId: appointment.teamId,
+        statusChangeId: this.latestStatusChange(appointment.id)!.id,
+        status: appointment.status,
+        dueAt: standing.dueAt!,
+        escalatedTo: null,
+      }];
+    });
+  }
+
+  async createSlaBreach(breach: NewSlaBreach): Promise<SlaBreach | undefined> {
+    const flagged = Array.from(this.slaBreaches.values()).some((b) => b.statusChangeId === breach.statusChangeId);
+    if (flagged) return undefined;
+
+    const created: SlaBreach = { ...breach, id: this.nextId("slaBreaches"), detectedAt: new Date() };
+    this.slaBreaches.set(created.id, created);
+    return created;
+  }
+
+  private latestStatusChange(appointmentId: number): AppointmentStatusChange | undefined {
+    let latest: AppointmentStatusChange | undefined;
+    this.appointmentStatusChanges.forEach((change) => {
+      if (change.appointmentId === appointmentId && (!latest || change.id > latest.id)) latest = change;
+    });
+    return latest;
+  }
+
+  // Whether the breach of the appointment's current stay in its status was escalated to the target
+  private isEscalatedTo(appointment: Appointment, target: number | "admins"): boolean {
+    const entry = this.latestStatusChange(appointment.id);
+    const breach = entry && Array.from(this.slaBreaches.values()).find((b) => b.statusChangeId === entry.id);
+    return breach !== undefined && breach.escalatedTo === (target === "admins" ? null : target);
+  }
+
+  private currentSla(appointment: Appointment, now: Date): AppointmentSla | undefined {
+    const entry = this.latestStatusChange(appointment.id);
+    if (!entry) return undefined;
+    const policy = Array.from(this.slaPolicies.values())
+      .find((p) => p.teamId === appointment.teamId && p.status === appointment.status);
+    const breach = Array.from(this.slaBreaches.values()).find((b) => b.statusChangeId === entry.id);
+    return slaStanding(appointment, entry, policy, breach, now);
+  }
+
+  // Client operations
+  async createClient(insertClient: InsertClient, profile = EMPTY_PROFILE): Promise<Client> {
+    const client: Client = {
+      ...insertClient,
+      id: this.nextId("clients"),
+      nameKey: nameSearchKey(insertClient.fullName),
+      mergedInto: null,
+    };
+    this.clients.set(client.id, client);
+    this.addProfileRows(profileRows(client.id, profile));
+    return client;
+  }
+
+  private addProfileRows(rows: ProfileRows) {
+    rows.languages.forEach((row) => {
+      const id = this.nextId("clientLanguages");
+      this.clientLanguages.set(id, { ...row, id });
+    });
+    rows.education.forEach((row) => {
+      const id = this.nextId("clientEducation");
+      this.clientEducation.set(id, { ...row, id });
+    });
+    rows.workExperience.forEach((row) => {
+      const id = this.nextId("clientWorkExperience");
+      this.clientWorkExperience.set(id, { ...row, id });
+    });
+    rows.skills.forEach((row) => {
+      const id = this.nextId("clientSkills");
+      this.clientSkills.set(id, { ...row, id });
+    });
+  }
+
+  private recordFieldChanges(clientId: number, changes: FieldChanges, changedBy: number, appointmentId: number | null = null) {
+    const changedAt = new Date();
+    fieldChangeRows(clientId, changes, changedBy, appointmentId).forEach((row) => {
+      const id = this.nextId("clientFieldChanges");
+      this.clientFieldChanges.set(id, { ...row, id, changedAt });
+    });
+  }
+
+  async getClient(id: number): Promise<Client | undefined> {
+    return this.clients.get(id);
+  }
+
+  async getClientProfile(clientId: number): Promise<ClientProfile> {
+    // Maps iterate in insertion order, which is the order the rows were entered
+    return {
+      languages: Array.from(this.clientLanguages.values()).filter((row) => row.clientId === clientId),
+      education: Array.from(this.clientEducation.values()).filter((row) => row.clientId === clientId),
+      workExperience: Array.from(this.clientWorkExperience.values()).filter((row) => row.clientId === clientId),
+      skills: Array.from(this.clientSkills.values()).filter((row) => row.clientId === clientId),
+    };
+  }
+
+  async updateClient(id: number, patch: ClientPatch, changedBy: number): Promise<Client> {
+    const client = this.clients.get(id);
+    if (!client) throw new Error("Client not found");
+
+    const { languages: _languages, education: _education, workExperience: _workExperience, skills: _skills, ...update } = patch;
+    const changes: FieldChanges = {
+      ...clientChanges(client, update),
+      ...profileChanges(id, await this.getClientProfile(id), patch),
+    };
+    if (Object.keys(changes).length === 0) return client;
+
+    // Changed lists are replaced as a whole, in the order they were sent
+    const rows = profileRows(id, patchedProfile(patch));
+    const removeRows = <T extends { id: number; clientId: number }>(table: Map<number, T>) => {
+      table.forEach((row) => {
+        if (row.clientId === id) table.delete(row.id);
+      });
+    };
+    if (changes.languages) removeRows(this.clientLanguages);
+    if (changes.education) removeRows(this.clientEducation);
+    if (changes.workExperience) removeRows(this.clientWorkExperience);
+    if (changes.skills) removeRows(this.clientSkills);
+    this.addProfileRows({
+      languages: changes.languages ? rows.languages : [],
+      education: changes.education ? rows.education : [],
+      workExperience: changes.workExperience ? rows.workExperience : [],
+      skills: changes.skills ? rows.skills : [],
+    });
+
+    const updated: Client = { ...client, ...update, nameKey: nameSearchKey(update.fullName ?? client.fullName) };
+    this.clients.set(id, updated);
+    this.recordFieldChanges(id, changes, changedBy);
+    return updated;
+  }
+
+  async getClientFieldChanges(clientId: number): Promise<ClientFieldChange[]> {
+    return Array.from(this.clientFieldChanges.values())
+      .filter((change) => change.clientId === clientId)
+      .sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime() || b.id - a.id);
+  }
+
+  async getClientEditFacts(clientId: number, userId: number): Promise<ClientEditFacts> {
+    const clientAppointments = Array.from(this.appointments.values()).filter((appointment) => appointment.clientId === clientId);
+    return {
+      collectedByUser: clientAppointments.some((appointment) => appointment.collectedBy === userId),
+      approved: clientAppointments.some((appointment) => appointment.approvedBy !== null),
+    };
+  }
+
+  async getAllClients(): Promise<Client[]> {
+    return Array.from(this.clients.values());
+  }
+
+  async listClients(query: ClientQuery): Promise<Page<Client>> {
+    const matches = Array.from(this.clients.values()).filter((client) =>
+      client.mergedInto === null &&
+      (!query.ids || query.ids.includes(client.id)) &&
+      (!query.workplace || client.workplace === query.workplace) &&
+      (!query.workType || client.workType === query.workType) &&
+      (!query.gender || client.gender === query.gender)
+    );
+    return paginate(matches, query, (client) => query.sort === "fullName" ? client.fullName : client.id);
+  }
+
+  async searchClients(text: string, limit: number): Promise<Client[]> {
+    const terms = parseSearchTerms(text);
+    const query = terms.text.toLowerCase();
+
+    const candidates = Array.from(this.clients.values()).filter((client) => client.mergedInto === null);
+    const scored = candidates.map((client) => {
+      const name = client.fullName.toLowerCase();
+      const nameKey = client.nameKey ?? "";
+      const bestNameScore = Math.max(trigramSimilarity(name, query), wordSimilarity(query, name));
+      const keyScore = terms.nameKey
+        ? Math.max(trigramSimilarity(nameKey, terms.nameKey), wordSimilarity(terms.nameKey, nameKey))
+        : 0;
+      const identifiers = [client.passportNumber, client.nationalId].map((id) => id.toUpperCase());
+      const identifierMatch = terms.identifier.length >= 3 &&
+        identifiers.some((id) => id.startsWith(terms.identifier));
+      const phoneMatch = terms.digits.length >= 4 && client.phoneNumber.replace(/\D/g, "").includes(terms.digits);
+      const words = name.split(/\s+/);
+
+      const matched = trigramSimilarity(name, query) >= SIMILARITY_THRESHOLD ||
+        wordSimilarity(query, name) >= WORD_SIMILARITY_THRESHOLD ||
+        trigramSimilarity(nameKey, terms.nameKey) >= SIMILARITY_THRESHOLD ||
+        wordSimilarity(terms.nameKey, nameKey) >= WORD_SIMILARITY_THRESHOLD ||
+        query.split(/\s+/).every((word) => words.includes(word)) ||
+        client.email.toLowerCase().startsWith(query) ||
+        identifierMatch || phoneMatch;
+      const score = Math.max(bestNameScore, keyScore, identifiers.includes(terms.identifier) ? 1 : 0);
+      return { client, matched, score, nameScore: trigramSimilarity(name, query) };
+    });
+
+    return scored
+      .filter(({ matched }) => matched)
+      .sort((a, b) => b.score - a.score || b.nameScore - a.nameScore || a.client.id - b.client.id)
+      .slice(0, limit)
+      .map(({ client }) => client);
+  }
+
+  async findDuplicateClients(query: ClientDuplicateQuery): Promise<Client[]> {
+    return Array.from(this.clients.values())
+      .filter((client) => client.mergedInto === null && duplicateFields(client, query).length > 0)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async mergeClients(survivorId: number, mergedClientId: number, mergedBy: number): Promise<ClientMerge> {
+    const survivor = this.clients.get(survivorId);
+    const mergedClient = this.clients.get(mergedClientId);
+    if (!survivor || !mergedClient) {
+      throw new Error("Client not found");
+    }
+    if (survivor.mergedInto !== null || mergedClient.mergedInto !== null) {
+      throw new Error("Client has already been merged");
+    }
+
+    const appointmentIds: number[] = [];
+    this.appointments.forEach((appointment) => {
+      if (appointment.clientId === mergedClientId) {
+        this.appointments.set(appointment.id, { ...appointment, clientId: survivorId, version: appointment.version + 1 });
+        appointmentIds.push(appointment.id);
+      }
+    });
+    this.clientDocuments.forEach((document) => {
+      if (document.clientId === mergedClientId) {
+        this.clientDocuments.set(document.id, { ...document, clientId: survivorId });
+      }
+    });
+    this.clients.forEach((client) => {
+      if (client.id === mergedClientId || client.mergedInto === mergedClientId) {
+        this.clients.set(client.id, { ...client, mergedInto: survivorId });
+      }
+    });
+
+    const merge: ClientMerge = {
+      id: this.nextId("clientMerges"),
+      survivorId,
+      mergedClientId,
+      mergedClient,
+      appointmentIds,
+      mergedBy,
+      mergedAt: new Date(),
+    };
+    this.clientMerges.set(merge.id, merge);
+    return merge;
+  }
+
+  async getClientMerges(): Promise<ClientMerge[]> {
+    return Array.from(this.clientMerges.values())
+      .sort((a, b) => b.mergedAt.getTime() - a.mergedAt.getTime() || b.id - a.id);
+  }
+
+  // Location and slot operations
+  async getLocations(includeInactive = false): Promise<Location[]> {
+    return Array.from(this.locations.values())
+      .filter((location) => includeInactive || location.active)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getLocation(id: number): Promise<Location | undefined> {
+    return this.locations.get(id);
+  }
+
+  async createLocation(insertLocation: InsertLocation): Promise<Location> {
+    const location: Location = {
+      address: null,
+      active: true,
+      ...insertLocation,
+      id: this.nextId("locations"),
+      createdAt: new Date(),
+    };
+    this.locations.set(location.id, location);
+    return location;
+  }
+
+  async updateLocation(id: number, update: InsertLocation): Promise<Location | undefined> {
+    const location = this.locations.get(id);
+    if (!location) return undefined;
+
+    const updated = { ...location, ...update, id };
+    this.locations.set(id, updated);
+    return updated;
+  }
+
+  async getBlackoutDates(from: string, to: string, locationId?: number): Promise<BlackoutDate[]> {
+    return Array.from(this.blackoutDates.values())
+      .filter((blackout) =>
+        blackout.date >= from && blackout.date <= to &&
+        (locationId === undefined || blackout.locationId === null || blackout.locationId === locationId)
+      )
+      .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  }
+
+  async createBlackoutDate(blackout: InsertBlackoutDate & { createdBy: number }): Promise<BlackoutDate> {
+    const created: BlackoutDate = {
+      ...blackout,
+      id: this.nextId("blackoutDates"),
+      createdAt: new Date(),
+    };
+    this.blackoutDates.set(created.id, created);
+    return created;
+  }
+
+  async deleteBlackoutDate(id: number): Promise<boolean> {
+    return this.blackoutDates.delete(id);
+  }
+
+  async getSlotBookings(locationId: number, from: Date, to: Date): Promise<SlotBookings[]> {
+    return this.countSlotBookings(locationId, from, to);
+  }
+
+  private countSlotBookings(locationId: number, from: Date, to: Date, excludeId?: number): SlotBookings[] {
+    const counts = new Map<number, number>();
+    this.appointments.forEach((appointment) => {
+      if (appointment.locationId !== locationId || !appointment.slotStart || appointment.id === excludeId) return;
+      if (appointment.slotStart < from || appointment.slotStart >= to) return;
+      if (!SLOT_HOLDING_STATES.includes(appointment.status as AppointmentState)) return;
+      const start = appointment.slotStart.getTime();
+      counts.set(start, (counts.get(start) ?? 0) + 1);
+    });
+    return Array.from(counts, ([start, count]) => ({ slotStart: new Date(start), count }));
+  }
+
+  // Reason code operations
+  async getReasonCodes(includeInactive = false): Promise<ReasonCode[]> {
+    return Array.from(this.reasonCodes.values())
+      .filter((reasonCode) => includeInactive || reasonCode.active)
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  async getReasonCode(id: number): Promise<ReasonCode | undefined> {
+    return this.reasonCodes.get(id);
+  }
+
+  async createReasonCode(insertReasonCode: InsertReasonCode): Promise<ReasonCode> {
+    const duplicate = Array.from(this.reasonCodes.values()).some((reasonCode) => reasonCode.code === insertReasonCode.code);
+    if (duplicate) throw new Error(`Reason code ${insertReasonCode.code} already exists`);
+
+    const reasonCode: ReasonCode = {
+      active: true,
+      ...insertReasonCode,
+      id: this.nextId("reasonCodes"),
+      createdAt: new Date(),
+    };
+    this.reasonCodes.set(reasonCode.id, reasonCode);
+    return reasonCode;
+  }
+
+  async updateReasonCode(id: number, update: Partial<InsertReasonCode>): Promise<ReasonCode | undefined> {
+    const reasonCode = this.reasonCodes.get(id);
+    if (!reasonCode) return undefined;
+
+    const updated = { ...reasonCode, ...update, id };
+    this.reasonCodes.set(id, updated);
+    return updated;
+  }
+
+  // Document requirement operations
+  async getDocumentRequirements(): Promise<DocumentRequirement[]> {
+    return Array.from(this.documentRequirements.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async createDocumentRequirement(requirement: InsertDocumentRequirement): Promise<DocumentRequirement> {
+    const created: DocumentRequirement = {
+      ...requirement,
+      mandatory: requirement.mandatory ?? true,
+      id: this.nextId("documentRequirements"),
+      createdAt: new Date(),
+    };
+    this.documentRequirements.set(created.id, created);
+    return created;
+  }
+
+  async updateDocumentRequirement(id: number, update: DocumentRequirementUpdate): Promise<DocumentRequirement | undefined> {
+    const requirement = this.documentRequirements.get(id);
+    if (!requirement) return undefined;
+
+    const updated = { ...requirement, ...update, id };
+    this.documentRequirements.set(id, updated);
+    return updated;
+  }
+
+  async deleteDocumentRequirement(id: number): Promise<boolean> {
+    return this.documentRequirements.delete(id);
+  }
+  // Passport rule operations
+  async getPassportRules(): Promise<PassportRule[]> {
+    return Array.from(this.passportRules.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async setPassportRules(rules: PassportRuleInput[]): Promise<PassportRule[]> {
+    this.passportRules.clear();
+    return rules.map((input) => {
+      const rule: PassportRule = { ...input, id: this.nextId("passportRules") };
+      this.passportRules.set(rule.id, rule);
+      return rule;
+    });
+  }
+
+  async getPassportExpiries(expiresBefore: string): Promise<{ appointment: Appointment; client: Client }[]> {
+    return Array.from(this.appointments.values())
+      .flatMap((appointment) => {
+        const client = this.clients.get(appointment.clientId);
+        const expiring = client?.passportExpiryDate != null && client.passportExpiryDate < expiresBefore &&
+          SLA_STATES.includes(appointment.status as AppointmentState);
+        return expiring ? [{ appointment, client: client! }] : [];
+      })
+      .sort((a, b) =>
+        a.client.passportExpiryDate!.localeCompare(b.client.passportExpiryDate!) || a.appointment.id - b.appointment.id);
+  }
+
+  // Client document operations
+  async getClientDocuments(clientId: number): Promise<ClientDocumentWithVersions[]> {
+    return Array.from(this.clientDocuments.values())
+      .filter((document) => document.clientId === clientId)
+      .sort((a, b) => a.id - b.id)
+      .map((document) => this.withVersions(document));
+  }
+
+  async getClientDocument(id: number): Promise<ClientDocumentWithVersions | undefined> {
+    const document = this.clientDocuments.get(id);
+    return document && this.withVersions(document);
+  }
+
+  async createClientDocument({ clientId, documentType, ...version }: NewClientDocument): Promise<ClientDocumentWithVersions> {
+    const document: ClientDocument = {
+      id: this.nextId("clientDocuments"),
+      clientId,
+      documentType,
+      createdBy: version.uploadedBy,
+      createdAt: new Date(),
+    };
+    this.clientDocuments.set(document.id, document);
+    await this.addClientDocumentVersion(document.id, version);
+    return this.withVersions(document);
+  }
+
+  async addClientDocumentVersion(documentId: number, version: NewDocumentVersion): Promise<ClientDocumentVersion> {
+    const latest = this.withVersions(this.clientDocuments.get(documentId)!).versions[0];
+    const created: ClientDocumentVersion = {
+      ...version,
+      id: this.nextId("clientDocumentVersions"),
+      documentId,
+      version: (latest?.version ?? 0) + 1,
+      status: "pending",
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewNote: null,
+      uploadedAt: new Date(),
+    };
+    this.clientDocumentVersions.set(created.id, created);
+    return created;
+  }
+
+  async reviewClientDocument(documentId: number, version: number, review: DocumentReview): Promise<ClientDocumentVersion | undefined> {
+    const document = this.clientDocuments.get(documentId);
+    const current = document && this.withVersions(document).versions[0];
+    if (!current || current.version !== version) return undefined;
+
+    const reviewed = {
+      ...current,
+      status: review.status,
+      reviewNote: review.note ?? null,
+      reviewedBy: review.reviewedBy,
+      reviewedAt: new Date(),
+    };
+    this.clientDocumentVersions.set(current.id, reviewed);
+    return reviewed;
+  }
+
+  private withVersions(document: ClientDocument): ClientDocumentWithVersions {
+    const versions = Array.from(this.clientDocumentVersions.values())
+      .filter((version) => version.documentId === document.id)
+      .sort((a, b) => b.version - a.version);
+    return { ...document, versions };
+  }
+
+  // Appointment operations
+  async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
+    const appointment: Appointment = {
+      approvedBy: null,
+      pdfUrl: null,
+      ...insertAppointment,
+      id: this.nextId("appointments"),
+      locationId: null,
+      slotStart: null,
+      assignedTo: null,
+      version: 1,
+    };
+    this.appointments.set(appointment.id, appointment);
+    this.recordStatusChange(appointment.id, null, { to: appointment.status as AppointmentState, changedBy: appointment.collectedBy });
+    return appointment;
+  }
+
+  private recordStatusChange(appointmentId: number, fromStatus: string | null, change: StatusChange, changes: ClientChanges | null = null) {
+    const record: AppointmentStatusChange = {
+      id: this.nextId("appointmentStatusChanges"),
+      appointmentId,
+      fromStatus,
+      toStatus: change.to,
+      reasonCodeId: change.reasonCodeId ?? null,
+      reason: change.reason ?? null,
+      clientChanges: changes,
+      changedBy: change.changedBy,
+      changedAt: new Date(),
+    };
+    this.appointmentStatusChanges.set(record.id, record);
+  }
+
+  private recordSlotChange(current: Appointment, to: Booking | null, changedBy: number, reason?: string) {
+    const record: AppointmentSlotChange = {
+      id: this.nextId("appointmentSlotChanges"),
+      ...slotChange(current, to, changedBy, reason),
+      changedAt: new Date(),
+    };
+    this.appointmentSlotChanges.set(record.id, record);
+  }
+
+  async updateAppointment(id: number, update: Partial<Appointment>, expectedVersion?: number): Promise<Appointment> {
+    if (!Number.isInteger(id) || id < 1) {
+      throw new Error("Invalid appointment ID");
+    }
+
+    const appointment = this.appointments.get(id);
+    if (!appointment) {
+      throw new Error("Appointment not found");
+    }
+    if (expectedVersion !== undefined && appointment.version !== expectedVersion) {
+      throw new VersionConflictError(appointment);
+    }
+
+    const updated = { ...appointment, ...update, id, version: appointment.version + 1 };
+    this.appointments.set(id, updated);
+    return updated;
+  }
+
+  async transitionAppointment(id: number, change: StatusChange, expectedVersion: number): Promise<Appointment> {
+    const current = this.appointments.get(id);
+    if (!current) throw new Error("Appointment not found");
+    if (current.version !== expectedVersion) throw new VersionConflictError(current);
+
+    let changes: ClientChanges | null = null;
+    if (change.clientUpdate) {
+      const client = this.clients.get(current.clientId);
+      if (!client) throw new Error("Client not found");
+      changes = clientChanges(client, change.clientUpdate);
+      if (Object.keys(changes).length > 0) {
+        this.clients.set(client.id, {
+          ...client,
+          ...change.clientUpdate,
+          nameKey: nameSearchKey(change.clientUpdate.fullName ?? client.fullName),
+        });
+        this.recordFieldChanges(client.id, changes, change.changedBy, id);
+      }
+    }
+
+    if (current.status === "submitted" && change.to !== "approved") {
+      const voidedAt = new Date();
+      this.approvalDecisions.forEach((decision) => {
+        if (decision.appointmentId === id && decision.voidedAt === null) {
+          this.approvalDecisions.set(decision.id, { ...decision, voidedAt });
+        }
+      });
+    }
+
+    const releasesSlot = current.slotStart !== null && !SLOT_HOLDING_STATES.includes(change.to);
+    if (releasesSlot) this.recordSlotChange(current, null, change.changedBy, change.reason);
+
+    const updated: Appointment = {
+      ...current,
+      status: change.to,
+      version: current.version + 1,
+      ...(change.to === "approved" ? { approvedBy: change.changedBy } : {}),
+      ...(releasesSlot ? { locationId: null, slotStart: null } : {}),
+    };
+    this.appointments.set(id, updated);
+    this.recordStatusChange(id, current.status, change, changes);
+    return updated;
+  }
+
+  async moveAppointmentToTeam(id: number, teamId: number, expectedVersion: number): Promise<Appointment> {
+    const current = this.appointments.get(id);
+    if (!current) throw new Error("Appointment not found");
+    if (current.version !== expectedVersion) throw new VersionConflictError(current);
+
+    const voidedAt = new Date();
+    this.approvalDecisions.forEach((decision) => {
+      if (decision.appointmentId === id && decision.voidedAt === null) {
+        this.approvalDecisions.set(decision.id, { ...decision, voidedAt });
+      }
+    });
+
+    const updated: Appointment = { ...current, teamId, assignedTo: null, version: current.version + 1 };
+    this.appointments.set(id, updated);
+    return updated;
+  }
+
+  async getStatusHistory(appointmentId: number): Promise<AppointmentStatusChange[]> {
+    return Array.from(this.appointmentStatusChanges.values())
+      .filter((change) => change.appointmentId === appointmentId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime() || a.id - b.id);
+  }
+
+  async signOffAppointment(id: number, signOff: SignOff, expectedVersion: number): Promise<Appointment> {
+    const current = this.appointments.get(id);
+    if (!current) throw new Error("Appointment not found");
+    if (current.version !== expectedVersion) throw new VersionConflictError(current);
+
+    const decision: ApprovalDecision = {
+      id: this.nextId("approvalDecisions"),
+      appointmentId: id,
+      position: signOff.position,
+      stepName: signOff.stepName,
+      decidedBy: signOff.decidedBy,
+      note: signOff.note ?? null,
+      decidedAt: new Date(),
+      voidedAt: null,
+    };
+    this.approvalDecisions.set(decision.id, decision);
+
+    const updated: Appointment = {
+      ...current,
+      version: current.version + 1,
+      ...(signOff.completesChain ? { status: "approved", approvedBy: signOff.decidedBy } : {}),
+    };
+    this.appointments.set(id, updated);
+    if (signOff.completesChain) {
+      this.recordStatusChange(id, current.status, { to: "approved", reason: signOff.note, changedBy: signOff.decidedBy });
+    }
+    return updated;
+  }
+
+  async bookAppointment(id: number, booking: Booking, expectedVersion: number): Promise<Appointment> {
+    const current = this.appointments.get(id);
+    if (!current) throw new Error("Appointment not found");
+    if (current.version !== expectedVersion) throw new VersionConflictError(current);
+    this.reserveSlot(id, booking);
+
+    const updated: Appointment = {
+      ...current,
+      status: "booked",
+      locationId: booking.locationId,
+      slotStart: booking.slotStart,
+      version: current.version + 1,
+    };
+    this.appointments.set(id, updated);
+    this.recordStatusChange(id, current.status, { to: "booked", changedBy: booking.changedBy });
+    this.recordSlotChange(current, booking, booking.changedBy, booking.reason);
+    return updated;
+  }
+
+  async rescheduleAppointment(id: number, booking: Booking, expectedVersion: number): Promise<Appointment> {
+    const current = this.appointments.get(id);
+    if (!current) throw new Error("Appointment not found");
+    if (current.version !== expectedVersion) throw new VersionConflictError(current);
+    this.reserveSlot(id, booking);
+
+    const updated: Appointment = {
+      ...current,
+      locationId: booking.locationId,
+      slotStart: booking.slotStart,
+      version: current.version + 1,
+    };
+    this.appointments.set(id, updated);
+    this.recordSlotChange(current, booking, booking.changedBy, booking.reason);
+    return updated;
+  }
+
+  private reserveSlot(appointmentId: number, booking: Booking) {
+    const location = this.locations.get(booking.locationId);
+    if (!location) throw new Error("Location not found");
+    const day = dayBounds(location, localDate(booking.slotStart, location.timezone));
+    checkCapacity(location, booking.slotStart, this.countSlotBookings(location.id, day.start, day.end, appointmentId));
+  }
+
+  async getSlotHistory(appointmentId: number): Promise<AppointmentSlotChange[]> {
+    return Array.from(this.appointmentSlotChanges.values())
+      .filter((change) => change.appointmentId === appointmentId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime() || a.id - b.id);
+  }
+
+  async getApprovalDecisions(appointmentId: number): Promise<ApprovalDecision[]> {
+    return Array.from(this.approvalDecisions.values())
+      .filter((decision) => decision.appointmentId === appointmentId)
+      .sort((a, b) => a.decidedAt.getTime() - b.decidedAt.getTime() || a.id - b.id);
+  }
+
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    return this.appointments.get(id);
+  }
+
+  async getAllAppointments(): Promise<Appointment[]> {
+    return Array.from(this.appointments.values());
+  }
+
+  async getTeamAppointments(teamId: number): Promise<Appointment[]> {
+    return Array.from(this.appointments.values()).filter(
+      (appointment) => appointment.teamId === teamId,
+    );
+  }
+
+  async listAppointments(query: AppointmentQuery): Promise<Page<Appointment>> {
+    const createdFrom = query.createdFrom?.toISOString();
+    const createdTo = query.createdTo?.toISOString();
+    const bookedFrom = query.bookedFrom;
+    const bookedTo = query.bookedTo;
+    const now = new Date();
+
+    const matches = Array.from(this.appointments.values()).filter((appointment) => {
+      const bookedAt = appointment.slotStart;
+      return (!query.status || appointment.status === query.status) &&
+        (!query.clientId || appointment.clientId === query.clientId) &&
+        (!query.teamId || appointment.teamId === query.teamId) &&
+        (!query.collectedBy || appointment.collectedBy === query.collectedBy) &&
+        (!query.approvedBy || appointment.approvedBy === query.approvedBy) &&
+        (!query.workplace || this.clients.get(appointment.clientId)?.workplace === query.workplace) &&
+        (!createdFrom || appointment.createdAt >= createdFrom) &&
+        (!createdTo || appointment.createdAt < createdTo) &&
+        (!bookedFrom || (bookedAt !== null && bookedAt >= bookedFrom)) &&
+        (!bookedTo || (bookedAt !== null && bookedAt < bookedTo)) &&
+        (query.overdue === undefined || (this.currentSla(appointment, now)?.overdue ?? false) === query.overdue) &&
+        (query.escalatedTo === undefined || this.isEscalatedTo(appointment, query.escalatedTo)) &&
+        (query.assignedTo === undefined || appointment.assignedTo === (query.assignedTo === "none" ? null : query.assignedTo)) &&
+        (query.queued === undefined || QUEUE_STATES.includes(appointment.status as AppointmentState) === query.queued);
+    });
+
+    return paginate(matches, query, (appointment) => ({
+      createdAt: appointment.createdAt,
+      // Unbooked appointments sort like NULL in PostgreSQL: last when ascending, first when descending
+      bookedAt: appointment.slotStart?.getTime() ?? Number.MAX_SAFE_INTEGER,
+      status: appointment.status,
+      id: appointment.id,
+    })[query.sort]);
+  }
+
+  // Assignment operations
+  async assignAppointment(id: number, assignedTo: number | null, expectedAssignee?: number | null): Promise<Appointment | undefined> {
+    const appointment = this.appointments.get(id);
+    if (!appointment) return undefined;
+    if (expectedAssignee !== undefined && appointment.assignedTo !== expectedAssignee) return undefined;
+
+    const updated = { ...appointment, assignedTo, version: appointment.version + 1 };
+    this.appointments.set(id, updated);
+    return updated;
+  }
+
+  async autoAssignAppointment(id: number): Promise<Appointment | undefined> {
+    const appointment = this.appointments.get(id);
+    if (!appointment || appointment.assignedTo !== null || !QUEUE_STATES.includes(appointment.status as AppointmentState)) {
+      return undefined;
+    }
+    const team = this.teams.get(appointment.teamId);
+    if (!team) return undefined;
+
+    const queues = this.teamQueues(team.id);
+    const assignee = pickAssignee(
+      team.assignmentMode as AssignmentMode,
+      queues.map((queue) => queue.userId),
+      new Map(queues.map((queue) => [queue.userId, queue.assigned])),
+      team.lastAssignedTo,
+    );
+    if (assignee === undefined) return undefined;
+
+    this.teams.set(team.id, { ...team, lastAssignedTo: assignee });
+    const updated = { ...appointment, assignedTo: assignee, version: appointment.version + 1 };
+    this.appointments.set(id, updated);
+    return updated;
+  }
+
+  async getAssignmentLoads(teamId: number): Promise<AssignmentLoad[]> {
+    return this.teamQueues(teamId);
+  }
+
+  async rebalanceAssignments(teamId: number, absentUserIds: number[]): Promise<Appointment[]> {
+    const team = this.teams.get(teamId);
+    if (!team) return [];
+
+    const queued = Array.from(this.appointments.values())
+      .filter((appointment) =>
+        appointment.teamId === teamId &&
+        appointment.assignedTo !== null &&
+        absentUserIds.includes(appointment.assignedTo) &&
+        QUEUE_STATES.includes(appointment.status as AppointmentState))
+      .sort((a, b) => a.id - b.id);
+    const queues = this.teamQueues(teamId).filter((queue) => !absentUserIds.includes(queue.userId));
+    const assignees = distribute(team.assignmentMode as AssignmentMode, queues, queued.length, team.lastAssignedTo);
+    if (assignees.length === 0) return [];
+
+    const moved = assignees.map((assignee, i) => {
+      const updated = { ...queued[i], assignedTo: assignee, version: queued[i].version + 1 };
+      this.appointments.set(updated.id, updated);
+      return updated;
+    });
+    this.teams.set(teamId, { ...team, lastAssignedTo: assignees[assignees.length - 1] });
+    return moved;
+  }
+
+  private teamQueues(teamId: number): AssignmentLoad[] {
+    const appointments = Array.from(this.appointments.values());
+    return Array.from(this.users.values())
+      .filter((user) => user.teamId === teamId && user.role === "approver")
+      .sort((a, b) => a.id - b.id)
+      .map((user) => ({
+        userId: user.id,
+        assigned: appointments.filter((appointment) =>
+          appointment.teamId === teamId &&
+          appointment.assignedTo === user.id &&
+          QUEUE_STATES.includes(appointment.status as AppointmentState)).length,
+      }));
+  }
+
+  // Attachment operations
+  async createAttachment(upload: AttachmentUpload): Promise<Attachment> {
+    const contentHash = createHash("sha256").update(upload.content).digest("hex");
+
+    const storageKey = attachmentKey(contentHash, "original");
+    this.files.set(storageKey, upload.content);
+
+    let thumbnailKey: string | null = null;
+    if (upload.thumbnail) {
+      thumbnailKey = attachmentKey(contentHash, "thumbnail");
+      this.files.set(thumbnailKey, upload.thumbnail);
+    }
+
+    let previewKey: string | null = null;
+    if (upload.preview) {
+      previewKey = attachmentKey(contentHash, "preview");
+      this.files.set(previewKey, upload.preview);
+    }
+
+    const attachment: Attachment = {
+      id: this.nextId("attachments"),
+      fileName: upload.fileName,
+      mimeType: upload.mimeType,
+      size: upload.content.length,
+      contentHash,
+      storageKey,
+      thumbnailKey,
+      previewKey,
+      width: upload.width ?? null,
+      height: upload.height ?? null,
+      uploadedBy: upload.uploadedBy,
+      uploadedAt: new Date(),
+    };
+    this.attachments.set(attachment.id, attachment);
+    return attachment;
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    return this.attachments.get(id);
+  }
+
+  async getAttachmentContent(id: number, variant: AttachmentVariant): Promise<StoredAttachment | undefined> {
+    const attachment = this.attachments.get(id);
+    if (!attachment) return undefined;
+
+    const key = variant === "thumbnail" ? attachment.thumbnailKey
+      : variant === "preview" ? attachment.previewKey
+      : null;
+
+    const content = this.files.get(key ?? attachment.storageKey);
+    if (!content) return undefined;
+    return { attachment, content, mimeType: key ? "image/jpeg" : attachment.mimeType };
+  }
+
+  // Comment operations
+  async getComments(appointmentId: number, includeInternal: boolean): Promise<AppointmentComment[]> {
+    return Array.from(this.appointmentComments.values())
+      .filter((comment) => comment.appointmentId === appointmentId && (includeInternal || !comment.internal))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async getComment(id: number): Promise<AppointmentComment | undefined> {
+    return this.appointmentComments.get(id);
+  }
+
+  async createComment(comment: NewComment): Promise<AppointmentComment> {
+    const created: AppointmentComment = {
+      ...comment,
+      id: this.nextId("appointmentComments"),
+      createdAt: new Date(),
+      editedAt: null,
+    };
+    this.appointmentComments.set(created.id, created);
+    return created;
+  }
+
+  async editComment(id: number, body: string, mentions: number[]): Promise<AppointmentComment> {
+    const current = this.appointmentComments.get(id);
+    if (!current) throw new Error(`Comment ${id} not found`);
+
+    const editedAt = new Date();
+    const edit: AppointmentCommentEdit = {
+      id: this.nextId("appointmentCommentEdits"),
+      commentId: id,
+      previousBody: current.body,
+      editedAt,
+    };
+    this.appointmentCommentEdits.set(edit.id, edit);
+
+    const updated = { ...current, body, mentions, editedAt };
+    this.appointmentComments.set(id, updated);
+    return updated;
+  }
+
+  async getCommentEdits(commentId: number): Promise<AppointmentCommentEdit[]> {
+    return Array.from(this.appointmentCommentEdits.values())
+      .filter((edit) => edit.commentId === commentId)
+      .sort((a, b) => a.editedAt.getTime() - b.editedAt.getTime() || a.id - b.id);
+  }
+
+  async markCommentsRead(appointmentId: number, userId: number): Promise<void> {
+    const comments = await this.getComments(appointmentId, true);
+    if (comments.length === 0) return;
+
+    const key = `${appointmentId}:${userId}`;
+    const latest = Math.max(...comments.map((comment) => comment.id));
+    this.appointmentCommentReads.set(key, Math.max(latest, this.appointmentCommentReads.get(key) ?? 0));
+  }
+
+  async getUnreadComments(appointmentIds: number[], userId: number, includeInternal: boolean): Promise<CommentUnread[]> {
+    const unread: CommentUnread[] = [];
+    for (const appointmentId of appointmentIds) {
+      const lastRead = this.appointmentCommentReads.get(`${appointmentId}:${userId}`) ?? 0;
+      const comments = (await this.getComments(appointmentId, includeInternal))
+        .filter((comment) => comment.authorId !== userId && comment.id > lastRead);
+      if (comments.length > 0) {
+        unread.push({
+          appointmentId,
+          unread: comments.length,
+          mentioned: comments.some((comment) => comment.mentions.includes(userId)),
+        });
+      }
+    }
+    return unread;
+  }
+
+  // PDF operations
+  async storePdf(appointmentId: number, pdfBuffer: Buffer, uploadedBy: number): Promise<AppointmentDocument> {
+    const contentHash = createHash("sha256").update(pdfBuffer).digest("hex");
+    const versions = await this.getPdfVersions(appointmentId);
+    const version = (versions[0]?.version ?? 0) + 1;
+    const storageKey = `appointments/${appointmentId}/v${version}-${contentHash}.pdf`;
+    this.files.set(storageKey, pdfBuffer);
+
+    const document: AppointmentDocument = {
+      id: this.nextId("appointmentDocuments"),
+      appointmentId,
+      version,
+      storageKey,
+      contentHash,
+      size: pdfBuffer.length,
+      mimeType: "application/pdf",
+      uploadedBy,
+      uploadedAt: new Date(),
+    };
+    this.appointmentDocuments.set(document.id, document);
+    return document;
+  }
+
+  async getPdf(appointmentId: number, version?: number): Promise<StoredDocument | undefined> {
+    const versions = await this.getPdfVersions(appointmentId);
+    const document = version === undefined
+      ? versions[0]
+      : versions.find((candidate) => candidate.version === version);
+    if (!document) return undefined;
+
+    const content = this.files.get(document.storageKey);
+    if (!content) return undefined;
+    return { document, content };
   }
 
-  async getPdf(appointmentId: number): Promise<Buffer | undefined> {
-    return this.pdfStorage.get(appointmentId);
+  async getPdfVersions(appointmentId: number): Promise<AppointmentDocument[]> {
+    return Array.from(this.appointmentDocuments.values())
+      .filter((document) => document.appointmentId === appointmentId)
+      .sort((a, b) => b.version - a.version);
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// STORAGE_DRIVER=memory runs the whole app without a database
+export const storage: IStorage = process.env.STORAGE_DRIVER === "memory"
+  ? new MemStorage()
+  : new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,42 @@
+// Passport validity rules. The server checks them when a client is created or
+// corrected and when an appointment is booked, and the forms use the same checks.
+
+import type { Client, PassportRule } from "./schema";
+
+// Applies when admins have not set a default rule
+export const DEFAULT_MIN_VALIDITY_MONTHS = 6;
+
+type PassportDates = Pick<Client, "passportIssueDate" | "passportExpiryDate">;
+
+// The rule for the workplace, else the default row, else DEFAULT_MIN_VALIDITY_MONTHS
+export function minValidityMonths(rules: Pick<PassportRule, "workplace" | "minValidityMonths">[], workplace: string): number {
+  const rule = rules.find((r) => r.workplace === workplace) ?? rules.find((r) => r.workplace === null);
+  return rule?.minValidityMonths ?? DEFAULT_MIN_VALIDITY_MONTHS;
+}
+
+// Adds calendar months to a YYYY-MM-DD date. Days past the end of the target
+// month fall back to its last day, so 2026-08-31 plus 6 months is 2027-02-28.
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+// Why the passport cannot be used for travel on validFrom (YYYY-MM-DD), or null
+// when it can. Clients without recorded dates pass, as there is nothing to check.
+export function passportProblem(passport: PassportDates, months: number, validFrom: string, today: string): string | null {
+  const { passportIssueDate: issued, passportExpiryDate: expires } = passport;
+  if (issued && issued > today) return "Passport issue date cannot be in the future";
+  if (issued && expires && expires <= issued) return "Passport expiry date must be after the issue date";
+  if (!expires) return null;
+
+  const requiredUntil = addMonths(validFrom, months);
+  if (expires < requiredUntil) {
+    return months === 0
+      ? `Passport expires on ${expires}, before ${validFrom}`
+      : `Passport expires on ${expires} but must be valid until at least ${requiredUntil}, ${months} months after ${validFrom}`;
+  }
+  return null;
+}
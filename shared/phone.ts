@@ -0,0 +1,54 @@
+// Phone numbers are stored in E.164 (+923001234567) and checked against the numbering
+// plan of their country, using the metadata bundled with libphonenumber-js.
+
+import { AsYouType, getCountries, getCountryCallingCode, parsePhoneNumberFromString, type CountryCode } from "libphonenumber-js/max";
+
+export type PhoneCountry = CountryCode;
+
+export const PHONE_COUNTRIES: PhoneCountry[] = getCountries();
+
+// Where most clients are from, and how numbers without a country code are read
+export const DEFAULT_PHONE_COUNTRY: PhoneCountry = "PK";
+
+export function isPhoneCountry(value: string): value is PhoneCountry {
+  return (PHONE_COUNTRIES as string[]).includes(value);
+}
+
+export function callingCode(country: PhoneCountry): string {
+  return `+${getCountryCallingCode(country)}`;
+}
+
+// Why the number is not valid, or null when it is. Without a country the number
+// must start with + and its country code.
+export function phoneProblem(input: string, country?: PhoneCountry): string | null {
+  const value = input.trim();
+  if (!value) return "Phone number is required";
+  if (!country && !value.startsWith("+")) return "Start the phone number with + and the country code, e.g. +92 300 1234567";
+
+  const phone = parsePhoneNumberFromString(value, country);
+  if (!phone) return "Not a phone number";
+  if (!phone.isValid()) {
+    return `Not a valid phone number for ${phone.country ?? `country code +${phone.countryCallingCode}`}`;
+  }
+  return null;
+}
+
+// The number in E.164, or null when it is not valid
+export function normalizePhone(input: string, country?: PhoneCountry): string | null {
+  if (phoneProblem(input, country)) return null;
+  return parsePhoneNumberFromString(input.trim(), country)!.number;
+}
+
+// For display, e.g. +92 300 1234567. Numbers that do not parse are shown as stored.
+export function formatPhone(value: string): string {
+  return parsePhoneNumberFromString(value)?.formatInternational() ?? value;
+}
+
+// The digits to look for in stored numbers: the national significant number, read as
+// it is typed, so the country code and trunk prefix are dropped even from a partial
+// number and both 0300 123 and +92 300 123 find +923001234567
+export function phoneSearchDigits(input: string, country: PhoneCountry = DEFAULT_PHONE_COUNTRY): string {
+  const typed = new AsYouType(country);
+  typed.input(input.trim());
+  return typed.getNumber()?.nationalNumber ?? "";
+}
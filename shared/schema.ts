@@ -1,6 +1,9 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, date, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { APPOINTMENT_STATES, REASON_CODE_STATES, SLA_STATES, type ReasonCodeState } from "./workflow";
+import { normalizePhone, phoneProblem } from "./phone";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -17,8 +20,17 @@ export const teams = pgTable("teams", {
   description: text("description"),
   createdBy: integer("created_by").notNull(), // admin who created the team
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  leadId: integer("lead_id"), // Receives SLA escalations for the team; admins do when unset
+  assignmentMode: text("assignment_mode").notNull().default("manual"), // One of ASSIGNMENT_MODES
+  lastAssignedTo: integer("last_assigned_to"), // Where round-robin assignment carries on from
 });
 
+// How a team's appointments are handed to its approvers when they reach the queue.
+// With manual, approvers claim them or an admin assigns them.
+export const ASSIGNMENT_MODES = ['manual', 'round_robin', 'least_loaded'] as const;
+
+export type AssignmentMode = typeof ASSIGNMENT_MODES[number];
+
 export const teamMembers = pgTable("team_members", {
   id: serial("id").primaryKey(),
   teamId: integer("team_id").notNull(),
@@ -27,6 +39,25 @@ export const teamMembers = pgTable("team_members", {
   addedAt: timestamp("added_at").notNull().defaultNow(),
 });
 
+export const MARITAL_STATUSES = ['single', 'married', 'divorced', 'widowed'] as const;
+
+export const LANGUAGE_PROFICIENCIES = ['basic', 'conversational', 'fluent', 'native'] as const;
+
+export const EDUCATION_LEVELS = ['none', 'primary', 'secondary', 'vocational', 'diploma', 'bachelor', 'master', 'doctorate'] as const;
+
+export type EducationLevel = typeof EDUCATION_LEVELS[number];
+
+export const EDUCATION_LEVEL_LABELS: Record<EducationLevel, string> = {
+  none: "No formal education",
+  primary: "Primary school",
+  secondary: "Secondary school",
+  vocational: "Vocational training",
+  diploma: "Diploma",
+  bachelor: "Bachelor's degree",
+  master: "Master's degree",
+  doctorate: "Doctorate",
+};
+
 export const clients = pgTable("clients", {
   id: serial("id").primaryKey(),
   passportNumber: text("passport_number").notNull(),
@@ -34,28 +65,410 @@ export const clients = pgTable("clients", {
   phoneNumber: text("phone_number").notNull(),
   email: text("email").notNull(),
   nationalId: text("national_id").notNull(),
-  passportImage: text("passport_image").notNull(), // Base64 encoded
+  passportImage: text("passport_image"), // Legacy base64 data URL, moved to attachments by server/scripts/migrate-passport-images.ts
+  passportAttachmentId: integer("passport_attachment_id"),
   workType: text("work_type").notNull(),
   workplace: text("workplace").notNull(), // Will be a GCC country or "Other"
   gender: text("gender").notNull(),
-});
+  // Null for clients created before passport dates were recorded
+  passportIssueDate: date("passport_issue_date", { mode: "string" }),
+  passportExpiryDate: date("passport_expiry_date", { mode: "string" }),
+  passportIssuingCountry: text("passport_issuing_country"), // ISO 3166-1 alpha-3, as printed in the passport
+  // Null for clients created before they were recorded
+  dateOfBirth: date("date_of_birth", { mode: "string" }),
+  nationality: text("nationality"), // ISO 3166-1 alpha-3, as printed in the passport
+  // Profile for employers; the repeating parts are in the client_* tables below
+  maritalStatus: text("marital_status"), // One of MARITAL_STATUSES
+  address: text("address"), // Home address, free text
+  emergencyContactName: text("emergency_contact_name"),
+  emergencyContactRelationship: text("emergency_contact_relationship"),
+  emergencyContactPhone: text("emergency_contact_phone"),
+  nameKey: text("name_key"), // Transliteration-insensitive form of fullName, see server/search.ts
+  mergedInto: integer("merged_into"), // Surviving client once this duplicate has been merged
+}, (table) => [
+  // Trigram indexes back fuzzy and partial matching in client search
+  index("clients_full_name_trgm_idx").using("gin", table.fullName.op("gin_trgm_ops")),
+  index("clients_name_key_trgm_idx").using("gin", table.nameKey.op("gin_trgm_ops")),
+  index("clients_passport_number_trgm_idx").using("gin", table.passportNumber.op("gin_trgm_ops")),
+  index("clients_national_id_trgm_idx").using("gin", table.nationalId.op("gin_trgm_ops")),
+  index("clients_email_trgm_idx").using("gin", table.email.op("gin_trgm_ops")),
+  index("clients_phone_digits_trgm_idx").using("gin", sql`regexp_replace(${table.phoneNumber}, '[^0-9]', '', 'g') gin_trgm_ops`),
+  index("clients_full_name_fts_idx").using("gin", sql`to_tsvector('simple', ${table.fullName})`),
+  // Duplicate detection compares identifiers without case or separators
+  index("clients_passport_number_key_idx").on(sql`upper(regexp_replace(${table.passportNumber}, '[^0-9a-zA-Z]', '', 'g'))`),
+  index("clients_national_id_key_idx").on(sql`upper(regexp_replace(${table.nationalId}, '[^0-9a-zA-Z]', '', 'g'))`),
+  // For the report of appointments whose passports are expiring
+  index("clients_passport_expiry_date_idx").on(table.passportExpiryDate),
+]);
+
+// The rest of the client's profile. Each client has any number of rows in these tables,
+// replaced together with the client's other details.
+export const clientLanguages = pgTable("client_languages", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull(),
+  language: text("language").notNull(),
+  proficiency: text("proficiency").notNull(), // One of LANGUAGE_PROFICIENCIES
+}, (table) => [
+  index("client_languages_client_idx").on(table.clientId),
+]);
+
+export const clientEducation = pgTable("client_education", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull(),
+  level: text("level").notNull(), // One of EDUCATION_LEVELS
+  institution: text("institution").notNull(),
+  fieldOfStudy: text("field_of_study"),
+  startYear: integer("start_year"),
+  endYear: integer("end_year"), // Null while studying or when unknown
+}, (table) => [
+  index("client_education_client_idx").on(table.clientId),
+]);
+
+export const clientWorkExperience = pgTable("client_work_experience", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull(),
+  employer: text("employer").notNull(),
+  position: text("position").notNull(),
+  country: text("country"),
+  startDate: date("start_date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  endDate: date("end_date", { mode: "string" }), // Null for the current job
+  duties: text("duties"),
+}, (table) => [
+  index("client_work_experience_client_idx").on(table.clientId),
+]);
+
+export const clientSkills = pgTable("client_skills", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull(),
+  name: text("name").notNull(),
+}, (table) => [
+  index("client_skills_client_idx").on(table.clientId),
+]);
 
 export const appointments = pgTable("appointments", {
   id: serial("id").primaryKey(),
   clientId: integer("client_id").notNull(),
   teamId: integer("team_id").notNull(), // The team handling this appointment
-  status: text("status").notNull(), // 'pending', 'approved'
+  status: text("status").notNull(), // One of APPOINTMENT_STATES, see shared/workflow.ts
   collectedBy: integer("collected_by").notNull(), // user who collected the information
   approvedBy: integer("approved_by"), // user who approved the booking
   pdfUrl: text("pdf_url"), // URL/path to the booking PDF
-  bookingDetails: jsonb("booking_details").notNull().$type<{ date: string }>(), // Additional booking information
+  locationId: integer("location_id"), // Where the booked slot is; null until booked
+  slotStart: timestamp("slot_start"), // Start of the booked slot
+  assignedTo: integer("assigned_to"), // The approver whose queue the appointment is in
   createdAt: text("created_at").notNull(),
+  version: integer("version").notNull().default(1), // Incremented on every update, for optimistic concurrency
+}, (table) => [
+  index("appointments_location_slot_idx").on(table.locationId, table.slotStart),
+  index("appointments_assigned_to_idx").on(table.assignedTo, table.status),
+]);
+
+// Places appointments are booked at. Each working day is divided into slots of
+// slotMinutes between openTime and closeTime, in the location's time zone.
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  address: text("address"),
+  timezone: text("timezone").notNull().default("UTC"), // IANA name, e.g. Asia/Karachi
+  openTime: text("open_time").notNull().default("09:00"), // HH:MM, local time
+  closeTime: text("close_time").notNull().default("17:00"),
+  slotMinutes: integer("slot_minutes").notNull().default(30),
+  slotCapacity: integer("slot_capacity").notNull().default(1), // Appointments per slot
+  dailyCapacity: integer("daily_capacity").notNull(), // Appointments per day across all slots
+  workingDays: jsonb("working_days").notNull().$type<number[]>().default([0, 1, 2, 3, 4, 5, 6]), // 0 is Sunday
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Days a location is closed. Rows without a location are holidays everywhere.
+export const blackoutDates = pgTable("blackout_dates", {
+  id: serial("id").primaryKey(),
+  locationId: integer("location_id"),
+  date: date("date", { mode: "string" }).notNull(), // Local date at the location, YYYY-MM-DD
+  reason: text("reason").notNull(),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("blackout_dates_date_idx").on(table.date),
+]);
+
+// Every edit of a client, one row per field. Profile lists such as skills are
+// recorded as a whole, in the shape they are sent in.
+export const clientFieldChanges = pgTable("client_field_changes", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull(),
+  field: text("field").notNull(), // A key of ClientPatch
+  oldValue: jsonb("old_value"),
+  newValue: jsonb("new_value"),
+  appointmentId: integer("appointment_id"), // Set when the change came with resubmitting this appointment
+  changedBy: integer("changed_by").notNull(),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => [
+  index("client_field_changes_client_idx").on(table.clientId, table.changedAt),
+]);
+
+// Audit trail of duplicate clients merged into a surviving record
+export const clientMerges = pgTable("client_merges", {
+  id: serial("id").primaryKey(),
+  survivorId: integer("survivor_id").notNull(),
+  mergedClientId: integer("merged_client_id").notNull(),
+  mergedClient: jsonb("merged_client").notNull().$type<Client>(), // Snapshot taken before the merge
+  appointmentIds: jsonb("appointment_ids").notNull().$type<number[]>(), // Appointments moved to the survivor
+  mergedBy: integer("merged_by").notNull(),
+  mergedAt: timestamp("merged_at").notNull().defaultNow(),
+});
+
+// Every status transition, including the initial one when the appointment is created
+export const appointmentStatusChanges = pgTable("appointment_status_changes", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull(),
+  fromStatus: text("from_status"), // Null for the initial status
+  toStatus: text("to_status").notNull(),
+  reasonCodeId: integer("reason_code_id"), // Required when rejecting or returning to the collector
+  reason: text("reason"), // Free-text note
+  clientChanges: jsonb("client_changes").$type<ClientChanges>(), // Client edits made when resubmitting
+  changedBy: integer("changed_by").notNull(),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => [
+  index("appointment_status_changes_appointment_idx").on(table.appointmentId),
+]);
+
+// Every slot an appointment has held. Booking has no previous slot, and
+// cancelling a booked appointment releases its slot, leaving no new one.
+export const appointmentSlotChanges = pgTable("appointment_slot_changes", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull(),
+  fromLocationId: integer("from_location_id"),
+  fromSlotStart: timestamp("from_slot_start"),
+  toLocationId: integer("to_location_id"),
+  toSlotStart: timestamp("to_slot_start"),
+  reason: text("reason"),
+  changedBy: integer("changed_by").notNull(),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => [
+  index("appointment_slot_changes_appointment_idx").on(table.appointmentId),
+]);
+
+// Ordered sign-off steps a team's appointments go through before they are approved.
+// Teams without steps need a single sign-off from any approver.
+export const approvalSteps = pgTable("approval_steps", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  position: integer("position").notNull(), // 1-based order within the team's chain
+  name: text("name").notNull(), // e.g. "Document check"
+  role: text("role"), // Any user with this role may sign; null when userIds is used
+  userIds: jsonb("user_ids").notNull().$type<number[]>().default([]), // Only these users may sign
+  requiredApprovals: integer("required_approvals").notNull().default(1), // N sign-offs out of the eligible users
+}, (table) => [
+  uniqueIndex("approval_steps_team_position_idx").on(table.teamId, table.position),
+]);
+
+// Sign-offs given on an appointment. Returning or rejecting the appointment voids the
+// sign-offs so far, and the chain starts again when it is resubmitted.
+export const approvalDecisions = pgTable("approval_decisions", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull(),
+  position: integer("position").notNull(), // Step signed, by position
+  stepName: text("step_name").notNull(), // Name of the step when it was signed
+  decidedBy: integer("decided_by").notNull(),
+  note: text("note"),
+  decidedAt: timestamp("decided_at").notNull().defaultNow(),
+  voidedAt: timestamp("voided_at"),
+}, (table) => [
+  index("approval_decisions_appointment_idx").on(table.appointmentId),
+]);
+
+// How long a team's appointments may stay in a status. The clock starts at the
+// status change that moved the appointment into the status.
+export const slaPolicies = pgTable("sla_policies", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  status: text("status").notNull(),
+  hours: integer("hours").notNull(),
+}, (table) => [
+  uniqueIndex("sla_policies_team_status_idx").on(table.teamId, table.status),
+]);
+
+// Appointments found past their SLA by the scheduler. Each stay in a status is
+// flagged at most once, keyed by the status change that started it.
+export const slaBreaches = pgTable("sla_breaches", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull(),
+  statusChangeId: integer("status_change_id").notNull().unique(),
+  status: text("status").notNull(),
+  dueAt: timestamp("due_at").notNull(),
+  detectedAt: timestamp("detected_at").notNull().defaultNow(),
+  escalatedTo: integer("escalated_to"), // The team lead at the time, or null for admins
+}, (table) => [
+  index("sla_breaches_appointment_idx").on(table.appointmentId),
+]);
+
+// Notes left on an appointment. Internal comments are only shown to approvers and admins.
+export const appointmentComments = pgTable("appointment_comments", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull(),
+  authorId: integer("author_id").notNull(),
+  body: text("body").notNull(),
+  internal: boolean("internal").notNull().default(false),
+  mentions: jsonb("mentions").notNull().$type<number[]>().default([]), // Users named with @username in the body
+  attachmentIds: jsonb("attachment_ids").notNull().$type<number[]>().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  editedAt: timestamp("edited_at"), // Null until the author first edits the comment
+}, (table) => [
+  index("appointment_comments_appointment_idx").on(table.appointmentId),
+]);
+
+// The text a comment had before each edit
+export const appointmentCommentEdits = pgTable("appointment_comment_edits", {
+  id: serial("id").primaryKey(),
+  commentId: integer("comment_id").notNull(),
+  previousBody: text("previous_body").notNull(),
+  editedAt: timestamp("edited_at").notNull().defaultNow(),
+}, (table) => [
+  index("appointment_comment_edits_comment_idx").on(table.commentId),
+]);
+
+// How far each user has read an appointment's comment thread
+export const appointmentCommentReads = pgTable("appointment_comment_reads", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull(),
+  userId: integer("user_id").notNull(),
+  lastReadCommentId: integer("last_read_comment_id").notNull(), // Newest comment in the thread when it was last opened
+  readAt: timestamp("read_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("appointment_comment_reads_appointment_user_idx").on(table.appointmentId, table.userId),
+]);
+
+export const DOCUMENT_TYPES = [
+  'passport',
+  'photo',
+  'national_id',
+  'medical_report',
+  'police_certificate',
+  'educational_certificate',
+  'contract',
+  'other',
+] as const;
+
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  passport: "Passport bio page",
+  photo: "Photo",
+  national_id: "National ID",
+  medical_report: "Medical fitness report",
+  police_certificate: "Police clearance certificate",
+  educational_certificate: "Educational certificate",
+  contract: "Employment contract",
+  other: "Other document",
+};
+
+// Admin-maintained matrix of the documents a client needs. A null workplace, work type
+// or gender matches every client, so a row with all three null applies to everyone.
+export const documentRequirements = pgTable("document_requirements", {
+  id: serial("id").primaryKey(),
+  documentType: text("document_type").notNull(), // One of DOCUMENT_TYPES
+  workplace: text("workplace"),
+  workType: text("work_type"), // Compared case-insensitively with the client's work type
+  gender: text("gender"),
+  mandatory: boolean("mandatory").notNull().default(true), // Approval is refused while a mandatory document is missing
+  note: text("note"), // Shown on the checklist, e.g. "Attested by the embassy"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const DOCUMENT_REVIEW_STATUSES = ['pending', 'verified', 'rejected'] as const;
+
+export type DocumentReviewStatus = typeof DOCUMENT_REVIEW_STATUSES[number];
+
+// A document the client has provided, such as a passport or a medical report
+export const clientDocuments = pgTable("client_documents", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull(),
+  documentType: text("document_type").notNull(), // One of DOCUMENT_TYPES
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("client_documents_client_idx").on(table.clientId),
+]);
+
+// Every file uploaded for a client document; the highest version is the current one.
+// Approvers review each version separately, so a replacement starts out pending.
+export const clientDocumentVersions = pgTable("client_document_versions", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  version: integer("version").notNull(),
+  attachmentId: integer("attachment_id").notNull(),
+  issueDate: date("issue_date", { mode: "string" }), // YYYY-MM-DD
+  expiryDate: date("expiry_date", { mode: "string" }), // YYYY-MM-DD; expired documents no longer count
+  status: text("status").notNull().default('pending'), // One of DOCUMENT_REVIEW_STATUSES
+  reviewedBy: integer("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"), // Required when rejecting
+  uploadedBy: integer("uploaded_by").notNull(),
+  uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("client_document_versions_document_version_idx").on(table.documentId, table.version),
+]);
+
+// How long a client's passport must stay valid beyond the booking date, see shared/passport.ts.
+// The row without a workplace applies to every workplace that has no row of its own.
+export const passportRules = pgTable("passport_rules", {
+  id: serial("id").primaryKey(),
+  workplace: text("workplace"),
+  minValidityMonths: integer("min_validity_months").notNull(),
+}, (table) => [
+  // One rule per workplace and one default; NULLS NOT DISTINCT would need PostgreSQL 15
+  uniqueIndex("passport_rules_workplace_idx").on(sql`coalesce(${table.workplace}, '')`),
+]);
+
+// Admin-maintained reasons for rejecting an appointment or returning it to the collector.
+// Codes are deactivated rather than deleted because status changes refer to them.
+export const reasonCodes = pgTable("reason_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  label: text("label").notNull(),
+  states: jsonb("states").notNull().$type<ReasonCodeState[]>(), // Which of REASON_CODE_STATES it applies to
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Uploaded files; image uploads also get server-generated thumbnail and preview variants
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // Bytes of the stored original
+  contentHash: text("content_hash").notNull(), // SHA-256 of the stored original, hex encoded
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"),
+  previewKey: text("preview_key"),
+  width: integer("width"),
+  height: integer("height"),
+  uploadedBy: integer("uploaded_by"), // Null for files imported by migration scripts
+  uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
+});
+
+// Every uploaded booking PDF is kept; the highest version is the current one
+export const appointmentDocuments = pgTable("appointment_documents", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull(),
+  version: integer("version").notNull(),
+  storageKey: text("storage_key").notNull(), // Key in the configured file store
+  contentHash: text("content_hash").notNull(), // SHA-256, hex encoded
+  size: integer("size").notNull(), // Bytes
+  mimeType: text("mime_type").notNull(),
+  uploadedBy: integer("uploaded_by").notNull(),
+  uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("appointment_documents_appointment_version_idx").on(table.appointmentId, table.version),
+]);
+
 // Schema for creating new teams
-export const insertTeamSchema = createInsertSchema(teams).extend({
+// The lead is checked against the team's members, so it is set with teamUpdateSchema once the team exists
+export const insertTeamSchema = createInsertSchema(teams).omit({ leadId: true, lastAssignedTo: true }).extend({
   name: z.string().min(1, "Team name is required"),
   description: z.string().optional(),
+  assignmentMode: z.enum(ASSIGNMENT_MODES).optional(),
 });
 
 // Schema for adding team members
@@ -82,27 +495,658 @@ const GCC_COUNTRIES = [
   'Other'
 ] as const;
 
-export const insertClientSchema = createInsertSchema(clients).extend({
-  passportImage: z.any(), // Allow any file input initially, we'll validate during processing
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const localDateSchema = z.string().regex(LOCAL_DATE, "Use YYYY-MM-DD");
+
+// Blank answers to optional questions are stored as null
+const optionalText = (max: number) => z.string().trim().max(max).nullish().transform((value) => value || null);
+
+// Validity rules need the clients' workplace, so they are checked by the routes
+// and the forms with passportProblem from shared/passport.ts
+export const insertClientSchema = createInsertSchema(clients).omit({ passportImage: true, nameKey: true, mergedInto: true }).extend({
+  passportAttachmentId: z.number({
+    required_error: "Passport image is required",
+    invalid_type_error: "Passport image is required",
+  }),
   gender: z.enum(['male', 'female']),
   email: z.string().email("Invalid email format"),
-  phoneNumber: z.string().min(10, "Phone number must be at least 10 digits"),
+  // Stored in E.164; the form adds the country code chosen by the collector
+  phoneNumber: z.string({ required_error: "Phone number is required" }).transform((value, ctx) => {
+    const problem = phoneProblem(value);
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+      return z.NEVER;
+    }
+    return normalizePhone(value)!;
+  }),
   workplace: z.enum(GCC_COUNTRIES),
+  passportIssueDate: z.string({ required_error: "Passport issue date is required" })
+    .min(1, "Passport issue date is required")
+    .regex(LOCAL_DATE, "Use YYYY-MM-DD"),
+  passportExpiryDate: z.string({ required_error: "Passport expiry date is required" })
+    .min(1, "Passport expiry date is required")
+    .regex(LOCAL_DATE, "Use YYYY-MM-DD"),
+  passportIssuingCountry: z.string({ required_error: "Issuing country is required" })
+    .trim()
+    .min(1, "Issuing country is required")
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, "Use the three-letter country code printed in the passport, e.g. PAK"),
+  // The MRZ fills these in when it is read, but they and the profile fields are optional
+  // so existing clients and integrations keep working. Passports may leave the date of
+  // birth unknown.
+  dateOfBirth: z.string()
+    .trim()
+    .refine((value) => !value || LOCAL_DATE.test(value), "Use YYYY-MM-DD")
+    .refine((value) => !value || value < new Date().toISOString().slice(0, 10), "Date of birth must be in the past")
+    .nullish()
+    .transform((value) => value || null),
+  nationality: z.string()
+    .trim()
+    .toUpperCase()
+    .refine((value) => !value || /^[A-Z]{3}$/.test(value), "Use the three-letter country code printed in the passport, e.g. PAK")
+    .nullish()
+    .transform((value) => value || null),
+  maritalStatus: z.enum(MARITAL_STATUSES).nullable().default(null),
+  address: optionalText(500),
+  emergencyContactName: optionalText(200),
+  emergencyContactRelationship: optionalText(100),
+  emergencyContactPhone: optionalText(30).refine(
+    (phone) => !phone || phone.replace(/\D/g, "").length >= 7,
+    "Emergency contact phone must have at least 7 digits",
+  ),
+});
+
+const thisYear = () => new Date().getFullYear();
+
+export const clientLanguageInputSchema = z.object({
+  language: z.string().trim().min(1, "Language is required").max(50),
+  proficiency: z.enum(LANGUAGE_PROFICIENCIES),
+});
+
+export const clientEducationInputSchema = z.object({
+  level: z.enum(EDUCATION_LEVELS),
+  institution: z.string().trim().min(1, "Institution is required").max(200),
+  fieldOfStudy: optionalText(200),
+  startYear: z.number().int().min(1940).nullish(),
+  endYear: z.number().int().min(1940).nullish(),
+}).refine(({ startYear }) => !startYear || startYear <= thisYear(), {
+  message: "Start year cannot be in the future",
+  path: ["startYear"],
+}).refine(({ startYear, endYear }) => !startYear || !endYear || endYear >= startYear, {
+  message: "End year cannot be before the start year",
+  path: ["endYear"],
+});
+
+export const clientWorkExperienceInputSchema = z.object({
+  employer: z.string().trim().min(1, "Employer is required").max(200),
+  position: z.string().trim().min(1, "Position is required").max(200),
+  country: optionalText(100),
+  startDate: localDateSchema,
+  endDate: localDateSchema.nullish(),
+  duties: optionalText(1000),
+}).refine(({ startDate }) => startDate <= new Date().toISOString().slice(0, 10), {
+  message: "Start date cannot be in the future",
+  path: ["startDate"],
+}).refine(({ startDate, endDate }) => !endDate || endDate >= startDate, {
+  message: "End date cannot be before the start date",
+  path: ["endDate"],
+});
+
+// The repeating parts of a client's profile, sent along with the client's other details
+export const clientProfileSchema = z.object({
+  languages: z.array(clientLanguageInputSchema).max(20).default([])
+    .refine((languages) => new Set(languages.map((l) => l.language.toLowerCase())).size === languages.length, "Each language can only be listed once"),
+  education: z.array(clientEducationInputSchema).max(20).default([]),
+  workExperience: z.array(clientWorkExperienceInputSchema).max(30).default([]),
+  skills: z.array(z.string().trim().min(1, "Skill is required").max(60)).max(50).default([])
+    .refine((skills) => new Set(skills.map((skill) => skill.toLowerCase())).size === skills.length, "Each skill can only be listed once"),
+});
+
+// Slots are reserved through the booking endpoint, the approver is set by transitions and
+// sign-off, and the PDF by its upload or regeneration; none of them are set directly
+export const insertAppointmentSchema = createInsertSchema(appointments).omit({
+  version: true,
+  locationId: true,
+  slotStart: true,
+  assignedTo: true,
+  approvedBy: true,
+  pdfUrl: true,
+});
+
+export const appointmentTransitionSchema = z.object({
+  to: z.enum(APPOINTMENT_STATES),
+  reasonCodeId: z.number().int().positive().optional(),
+  reason: z.string().trim().max(1000).optional(),
+  version: z.number({
+    required_error: "version is required",
+    invalid_type_error: "version must be a number",
+  }).int().positive(),
+});
+
+// Client fields the collector can correct when resubmitting a returned appointment
+export const clientUpdateSchema = insertClientSchema.omit({ id: true }).partial();
+
+// Edits through PATCH /api/clients/:id. Profile lists that are sent replace the stored ones.
+export const clientPatchSchema = clientUpdateSchema.merge(clientProfileSchema.partial());
+
+export const appointmentResubmitSchema = z.object({
+  client: clientUpdateSchema.optional(),
+  reason: z.string().trim().max(1000).optional(),
+  version: z.number({
+    required_error: "version is required",
+    invalid_type_error: "version must be a number",
+  }).int().positive(),
+});
+
+export const insertReasonCodeSchema = createInsertSchema(reasonCodes).omit({ id: true, createdAt: true }).extend({
+  code: z.string().regex(/^[a-z0-9_]+$/, "Code may only contain lowercase letters, digits and underscores"),
+  label: z.string().trim().min(1, "Label is required"),
+  states: z.array(z.enum(REASON_CODE_STATES)).min(1, "Pick at least one status"),
+});
+
+export const updateReasonCodeSchema = insertReasonCodeSchema.omit({ code: true }).partial();
+
+export const insertDocumentRequirementSchema = createInsertSchema(documentRequirements).omit({ id: true, createdAt: true }).extend({
+  documentType: z.enum(DOCUMENT_TYPES),
+  workplace: z.enum(GCC_COUNTRIES).nullable().default(null),
+  workType: z.string().trim().min(1).nullable().default(null),
+  gender: z.enum(['male', 'female']).nullable().default(null),
+  note: z.string().trim().min(1).max(500).nullable().default(null),
+});
+
+export const updateDocumentRequirementSchema = z.object({
+  mandatory: z.boolean(),
+  note: z.string().trim().min(1).max(500).nullable(),
+}).partial();
+
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const insertLocationSchema = createInsertSchema(locations).omit({ id: true, createdAt: true }).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  timezone: z.string().refine(isTimeZone, "Unknown time zone").default("UTC"),
+  openTime: z.string().regex(TIME_OF_DAY, "Use HH:MM").default("09:00"),
+  closeTime: z.string().regex(TIME_OF_DAY, "Use HH:MM").default("17:00"),
+  slotMinutes: z.number().int().min(5).max(480).default(30),
+  slotCapacity: z.number().int().min(1).default(1),
+  dailyCapacity: z.number().int().min(1),
+  workingDays: z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one working day").default([0, 1, 2, 3, 4, 5, 6]),
+}).refine((location) => location.openTime < location.closeTime, {
+  message: "Closing time must be after opening time",
+  path: ["closeTime"],
+});
+
+export const insertBlackoutDateSchema = createInsertSchema(blackoutDates).omit({ id: true, createdBy: true, createdAt: true }).extend({
+  locationId: z.number().int().positive().nullable().default(null),
+  date: z.string().regex(LOCAL_DATE, "Use YYYY-MM-DD"),
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+export const clientDocumentVersionSchema = z.object({
+  attachmentId: z.number().int().positive(),
+  issueDate: localDateSchema.nullable().default(null),
+  expiryDate: localDateSchema.nullable().default(null),
+}).refine(
+  ({ issueDate, expiryDate }) => issueDate === null || expiryDate === null || expiryDate > issueDate,
+  { message: "Expiry date must be after the issue date", path: ["expiryDate"] },
+);
+
+export const clientDocumentUploadSchema = z.object({
+  documentType: z.enum(DOCUMENT_TYPES),
+}).and(clientDocumentVersionSchema);
+
+// Names the version being reviewed, so a replacement uploaded meanwhile is not verified unseen
+export const clientDocumentReviewSchema = z.object({
+  version: z.number().int().positive(),
+  status: z.enum(['verified', 'rejected']),
+  note: z.string().trim().min(1).max(1000).optional(),
+}).refine(
+  ({ status, note }) => status !== "rejected" || note !== undefined,
+  { message: "A note is required when rejecting a document", path: ["note"] },
+);
+
+export const slotQuerySchema = z.object({
+  from: z.string().regex(LOCAL_DATE, "Use YYYY-MM-DD"),
+  days: z.coerce.number().int().min(1).max(31).default(7),
+});
+
+export const appointmentBookingSchema = z.object({
+  locationId: z.number().int().positive(),
+  slotStart: z.coerce.date(),
+  version: z.number({
+    required_error: "version is required",
+    invalid_type_error: "version must be a number",
+  }).int().positive(),
+});
+
+export const appointmentRescheduleSchema = appointmentBookingSchema.extend({
+  reason: z.string().trim().min(1, "A reason is required to reschedule"),
+});
+
+// Roles that can be asked to sign an approval step
+export const APPROVAL_ROLES = ['approver', 'admin'] as const;
+
+export const approvalStepInputSchema = z.object({
+  name: z.string().trim().min(1, "Step name is required"),
+  role: z.enum(APPROVAL_ROLES).nullable().default(null),
+  userIds: z.array(z.number().int().positive()).default([]),
+  requiredApprovals: z.number().int().min(1).default(1),
+}).refine((step) => (step.role === null) !== (step.userIds.length === 0), {
+  message: "Each step needs either a role or a list of users",
+}).refine((step) => step.userIds.length === 0 || step.requiredApprovals <= step.userIds.length, {
+  message: "A step cannot require more sign-offs than it has users",
+  path: ["requiredApprovals"],
+});
+
+export const approvalPolicySchema = z.object({
+  steps: z.array(approvalStepInputSchema).max(10, "A chain can have at most 10 steps"),
+});
+
+export const slaPolicyInputSchema = z.object({
+  status: z.enum(APPOINTMENT_STATES).refine((status) => SLA_STATES.includes(status), {
+    message: "Appointments never leave this status, so it cannot have an SLA",
+  }),
+  hours: z.number().int().min(1).max(24 * 90),
+});
+
+export const slaPolicySetSchema = z.object({
+  policies: z.array(slaPolicyInputSchema),
+}).refine((set) => new Set(set.policies.map((policy) => policy.status)).size === set.policies.length, {
+  message: "Each status can only have one SLA",
+  path: ["policies"],
+});
+
+export const passportRuleInputSchema = z.object({
+  workplace: z.enum(GCC_COUNTRIES).nullable(), // Null for the default rule
+  minValidityMonths: z.number().int().min(0).max(60),
+});
+
+export const passportRuleSetSchema = z.object({
+  rules: z.array(passportRuleInputSchema),
+}).refine((set) => new Set(set.rules.map((rule) => rule.workplace)).size === set.rules.length, {
+  message: "Each workplace can only have one rule",
+  path: ["rules"],
+});
+
+export const passportExpiryQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(730).default(180),
+});
+
+// Both lines of a passport's machine readable zone, as typed or sent by a scanner
+export const mrzInputSchema = z.object({
+  mrz: z.string().trim().min(1, "Enter the machine readable zone").max(200),
+});
+
+export const teamUpdateSchema = z.object({
+  leadId: z.number().int().positive().nullable(),
+  assignmentMode: z.enum(ASSIGNMENT_MODES),
+}).partial();
+
+// A null assignee puts the appointment back in the team's unassigned pool
+export const appointmentAssignSchema = z.object({
+  assignedTo: z.number().int().positive().nullable(),
+});
+
+// Hands the queued appointments of absent approvers to the rest of the team
+export const teamRebalanceSchema = z.object({
+  absentUserIds: z.array(z.number().int().positive()).min(1, "Choose at least one absent approver"),
+});
+
+// Query string schemas for the list endpoints
+const paginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+const idListSchema = z
+  .string()
+  .transform((value) => value.split(',').filter(Boolean).map(Number))
+  .pipe(z.array(z.number().int().positive()).max(100));
+
+export const APPOINTMENT_SORT_FIELDS = ['createdAt', 'bookedAt', 'status', 'id'] as const;
+
+export const appointmentQuerySchema = paginationSchema.extend({
+  status: z.enum(APPOINTMENT_STATES).optional(),
+  clientId: z.coerce.number().int().positive().optional(),
+  teamId: z.coerce.number().int().positive().optional(),
+  collectedBy: z.coerce.number().int().positive().optional(),
+  approvedBy: z.coerce.number().int().positive().optional(),
+  workplace: z.string().optional(), // The client's workplace
+  // Date ranges include the "from" instant and exclude the "to" instant
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  bookedFrom: z.coerce.date().optional(),
+  bookedTo: z.coerce.date().optional(),
+  // Past the team's SLA for the current status
+  overdue: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  // Past its SLA in the current status and escalated to this user, or to "admins" when the team had no lead
+  escalatedTo: z.union([z.literal('admins'), z.coerce.number().int().positive()]).optional(),
+  // An approver's ID, or "none" for unassigned appointments
+  assignedTo: z.union([z.literal('none'), z.coerce.number().int().positive()]).optional(),
+  // Waiting on an approver, see QUEUE_STATES in shared/workflow.ts
+  queued: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  sort: z.enum(APPOINTMENT_SORT_FIELDS).default('createdAt'),
+});
+
+export const clientSearchSchema = z.object({
+  q: z.string().trim().min(2, "Search text must be at least 2 characters"),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export const clientDuplicateQuerySchema = z.object({
+  passportNumber: z.string().trim().optional(),
+  nationalId: z.string().trim().optional(),
+  phoneNumber: z.string().trim().optional(),
+}).refine(
+  (query) => query.passportNumber || query.nationalId || query.phoneNumber,
+  "At least one of passportNumber, nationalId or phoneNumber is required",
+);
+
+export const clientMergeSchema = z.object({
+  survivorId: z.number().int().positive(),
+  mergedClientId: z.number().int().positive(),
+}).refine((merge) => merge.survivorId !== merge.mergedClientId, {
+  message: "A client cannot be merged into itself",
+  path: ["mergedClientId"],
+});
+
+export const CLIENT_SORT_FIELDS = ['fullName', 'id'] as const;
+
+export const clientQuerySchema = paginationSchema.extend({
+  ids: idListSchema.optional(),
+  workplace: z.string().optional(),
+  workType: z.string().optional(),
+  gender: z.string().optional(),
+  sort: z.enum(CLIENT_SORT_FIELDS).default('id'),
+});
+
+export const ATTACHMENT_VARIANTS = ["original", "preview", "thumbnail"] as const;
+
+export const attachmentContentQuerySchema = z.object({
+  variant: z.enum(ATTACHMENT_VARIANTS).default("original"),
+});
+
+export const appointmentSlaQuerySchema = z.object({
+  ids: idListSchema,
 });
 
-export const insertAppointmentSchema = createInsertSchema(appointments);
+export const appointmentExportQuerySchema = z.object({
+  ids: idListSchema.pipe(z.array(z.number()).min(1, "Choose at least one appointment")),
+});
+
+// Each item names the version the user saw, so items changed since then fail on their own
+const bulkItemsSchema = z.array(z.object({
+  id: z.number().int().positive(),
+  version: z.number().int().positive(),
+})).min(1, "Choose at least one appointment").max(100).refine(
+  (items) => new Set(items.map((item) => item.id)).size === items.length,
+  "Each appointment can only be listed once",
+);
+
+export const appointmentBulkSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve"), items: bulkItemsSchema, reason: z.string().trim().min(1).optional() }),
+  z.object({
+    action: z.literal("reject"),
+    items: bulkItemsSchema,
+    reasonCodeId: z.number().int().positive(),
+    reason: z.string().trim().min(1).optional(),
+  }),
+  z.object({ action: z.literal("reassign"), items: bulkItemsSchema, assignedTo: z.number().int().positive().nullable() }),
+  z.object({ action: z.literal("change_team"), items: bulkItemsSchema, teamId: z.number().int().positive() }),
+]);
+
+export const commentInputSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(5000),
+  internal: z.boolean().default(false),
+  attachmentIds: z.array(z.number().int().positive()).max(5, "Attach at most 5 files").default([]),
+});
+
+export const commentEditSchema = commentInputSchema.pick({ body: true });
+
+export const commentUnreadQuerySchema = z.object({
+  ids: idListSchema,
+});
 
 // Export types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Team = typeof teams.$inferSelect;
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type TeamUpdate = z.infer<typeof teamUpdateSchema>;
 export type TeamMember = typeof teamMembers.$inferSelect;
 export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
-export type Client = typeof clients.$inferSelect;
+export type Client = Omit<typeof clients.$inferSelect, "passportImage">;
 export type InsertClient = z.infer<typeof insertClientSchema>;
+export type ClientMerge = typeof clientMerges.$inferSelect;
+export type ClientLanguage = typeof clientLanguages.$inferSelect;
+export type ClientEducation = typeof clientEducation.$inferSelect;
+export type ClientWorkExperience = typeof clientWorkExperience.$inferSelect;
+export type ClientSkill = typeof clientSkills.$inferSelect;
+export type ClientProfileInput = z.infer<typeof clientProfileSchema>;
+
+// The repeating parts of a client's profile, each in the order it was entered
+export type ClientProfile = {
+  languages: ClientLanguage[];
+  education: ClientEducation[];
+  workExperience: ClientWorkExperience[];
+  skills: ClientSkill[];
+};
+export type ClientPatch = z.infer<typeof clientPatchSchema>;
+// Across all of the client's appointments, what canEditClient decides on
+export type ClientEditFacts = {
+  collectedByUser: boolean; // The user collected at least one of them
+  approved: boolean; // At least one of them has been approved
+};
+export type ClientFieldChange = typeof clientFieldChanges.$inferSelect;
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type AppointmentStatusChange = typeof appointmentStatusChanges.$inferSelect;
+export type AppointmentSlotChange = typeof appointmentSlotChanges.$inferSelect;
+export type ReasonCode = typeof reasonCodes.$inferSelect;
+export type ApprovalStep = typeof approvalSteps.$inferSelect;
+export type ApprovalStepInput = z.infer<typeof approvalStepInputSchema>;
+export type ApprovalDecision = typeof approvalDecisions.$inferSelect;
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type BlackoutDate = typeof blackoutDates.$inferSelect;
+export type InsertBlackoutDate = z.infer<typeof insertBlackoutDateSchema>;
+export type InsertReasonCode = z.infer<typeof insertReasonCodeSchema>;
+export type ClientUpdate = z.infer<typeof clientUpdateSchema>;
+// Old and new value of each client field that was edited
+export type ClientChanges = Partial<Record<keyof ClientUpdate, { from: unknown; to: unknown }>>;
+export type AppointmentTransition = z.infer<typeof appointmentTransitionSchema>;
+export type AppointmentDocument = typeof appointmentDocuments.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+export type AttachmentVariant = typeof ATTACHMENT_VARIANTS[number];
+
+export type AppointmentQuery = z.infer<typeof appointmentQuerySchema>;
+export type ClientQuery = z.infer<typeof clientQuerySchema>;
+export type ClientDuplicateQuery = z.infer<typeof clientDuplicateQuerySchema>;
+
+export type DuplicateField = "passportNumber" | "nationalId" | "phoneNumber";
+
+export const DUPLICATE_FIELD_LABELS: Record<DuplicateField, string> = {
+  passportNumber: "passport number",
+  nationalId: "national ID",
+  phoneNumber: "phone number",
+};
+
+export const CLIENT_FIELD_LABELS: Record<keyof ClientPatch, string> = {
+  fullName: "Full name",
+  passportNumber: "Passport number",
+  nationalId: "National ID",
+  phoneNumber: "Phone number",
+  email: "Email",
+  workType: "Work type",
+  workplace: "Workplace",
+  gender: "Gender",
+  passportAttachmentId: "Passport image",
+  passportIssueDate: "Passport issue date",
+  passportExpiryDate: "Passport expiry date",
+  passportIssuingCountry: "Passport issuing country",
+  dateOfBirth: "Date of birth",
+  nationality: "Nationality",
+  maritalStatus: "Marital status",
+  address: "Address",
+  emergencyContactName: "Emergency contact name",
+  emergencyContactRelationship: "Emergency contact relationship",
+  emergencyContactPhone: "Emergency contact phone",
+  languages: "Languages",
+  education: "Education",
+  workExperience: "Work experience",
+  skills: "Skills",
+};
+
+export type DuplicateClient = {
+  client: Client;
+  matchedOn: DuplicateField[];
+};
+
+// One page of a list endpoint; total counts every row matching the filters
+export type Page<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+};
+
+export type ClientSearchResult = {
+  client: Client;
+  appointments: Appointment[];
+};
+
+export type ApprovalStepProgress = Omit<ApprovalStep, "id" | "teamId"> & {
+  decisions: ApprovalDecision[]; // Sign-offs that still count
+  complete: boolean;
+};
+
+export type SlotAvailability = {
+  start: string;
+  end: string;
+  booked: number;
+  capacity: number;
+  available: boolean;
+};
+
+// One day of a location's calendar; closed gives the reason when nothing can be booked
+export type DayAvailability = {
+  date: string;
+  closed: string | null;
+  booked: number;
+  capacity: number;
+  slots: SlotAvailability[];
+};
+
+// Where an appointment is in its team's approval chain, as seen by the requesting user
+export type ApprovalProgress = {
+  steps: ApprovalStepProgress[];
+  currentPosition: number | null; // Null once every step is complete
+  canSign: boolean;
+};
+
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+export type SlaPolicyInput = z.infer<typeof slaPolicyInputSchema>;
+export type SlaBreach = typeof slaBreaches.$inferSelect;
+export type PassportRule = typeof passportRules.$inferSelect;
+export type PassportRuleInput = z.infer<typeof passportRuleInputSchema>;
+
+// An open appointment whose client's passport expires within the report window
+export type PassportExpiry = {
+  appointment: Appointment;
+  client: Client;
+  requiredUntil: string; // The date the passport must be valid until under the client's rule
+  problem: string | null; // Why the passport fails the rule, if it does
+};
+
+// The check digits of a passport's machine readable zone, see server/mrz.ts
+export type MrzCheck = "passportNumber" | "dateOfBirth" | "expiryDate" | "personalNumber" | "composite";
+
+// What a passport's machine readable zone says, with names in title case and dates as YYYY-MM-DD
+export type MrzPassport = {
+  issuingCountry: string;
+  surname: string;
+  givenNames: string;
+  fullName: string; // Given names then surname
+  passportNumber: string;
+  nationality: string;
+  dateOfBirth: string | null; // Null when the passport leaves the day or month unknown
+  gender: "male" | "female" | null;
+  expiryDate: string;
+  personalNumber: string | null;
+};
+
+export type AppointmentBulkAction = z.infer<typeof appointmentBulkSchema>;
+
+// The outcome for one appointment of a bulk action
+export type BulkActionResult =
+  | { id: number; ok: true; appointment: Appointment }
+  | { id: number; ok: false; error: string };
+
+export type DocumentRequirement = typeof documentRequirements.$inferSelect;
+export type InsertDocumentRequirement = z.infer<typeof insertDocumentRequirementSchema>;
+export type DocumentRequirementUpdate = z.infer<typeof updateDocumentRequirementSchema>;
+export type ClientDocument = typeof clientDocuments.$inferSelect;
+export type ClientDocumentVersion = typeof clientDocumentVersions.$inferSelect;
+export type ClientDocumentVersionInput = z.infer<typeof clientDocumentVersionSchema>;
+export type ClientDocumentReview = z.infer<typeof clientDocumentReviewSchema>;
+
+export type ClientDocumentWithVersions = ClientDocument & {
+  versions: ClientDocumentVersion[]; // Newest first
+};
+
+// One document type the appointment's client needs, merged from every matching requirement
+export type ChecklistItem = {
+  documentType: DocumentType;
+  mandatory: boolean; // Whether any matching requirement is mandatory
+  notes: string[];
+  documents: ClientDocumentWithVersions[]; // The client's documents of the type
+  complete: boolean; // Some document's current version is neither rejected nor expired
+  verified: boolean; // Some such version has also been verified by a reviewer
+};
+
+export type AppointmentChecklist = {
+  items: ChecklistItem[];
+  missing: DocumentType[]; // Mandatory items without a document
+  unreviewed: DocumentType[]; // Mandatory items whose documents are all still pending review
+};
+
+export type AppointmentComment = typeof appointmentComments.$inferSelect;
+export type AppointmentCommentEdit = typeof appointmentCommentEdits.$inferSelect;
+export type CommentInput = z.infer<typeof commentInputSchema>;
+
+// Comments on an appointment the user has not read yet, not counting their own
+export type CommentUnread = {
+  appointmentId: number;
+  unread: number;
+  mentioned: boolean; // Whether any of the unread comments mentions the user
+};
+
+// Queued appointments per approver in a team
+export type AssignmentLoad = {
+  userId: number;
+  assigned: number;
+};
+
+// Where an appointment stands against the SLA for its current status
+export type AppointmentSla = {
+  appointmentId: number;
+  status: string;
+  enteredAt: Date; // When the appointment moved into the status
+  dueAt: Date | null; // Null when the team has no SLA for the status
+  overdue: boolean;
+  breach: SlaBreach | null; // Set once the scheduler has flagged and escalated it
+};
 
 // Export constants
 export const GCC_COUNTRY_OPTIONS = GCC_COUNTRIES;
\ No newline at end of file
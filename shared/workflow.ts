@@ -0,0 +1,156 @@
+// Appointment lifecycle. The server enforces these transitions and the client
+// uses the same tables to decide which tabs and actions to show.
+
+export const APPOINTMENT_STATES = [
+  'draft',
+  'submitted',
+  'needs_info',
+  'approved',
+  'rejected',
+  'booked',
+  'attended',
+  'no_show',
+  'cancelled',
+  'completed',
+] as const;
+
+export type AppointmentState = typeof APPOINTMENT_STATES[number];
+
+export type Role = 'admin' | 'collector' | 'approver';
+
+export const STATE_LABELS: Record<AppointmentState, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  needs_info: 'Needs Info',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  booked: 'Booked',
+  attended: 'Attended',
+  no_show: 'No-show',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+};
+
+// Button text for moving an appointment into each state
+export const ACTION_LABELS: Record<AppointmentState, string> = {
+  draft: 'Move to Draft',
+  submitted: 'Submit',
+  needs_info: 'Request Info',
+  approved: 'Approve',
+  rejected: 'Reject',
+  booked: 'Book Slot',
+  attended: 'Mark Attended',
+  no_show: 'Mark No-show',
+  cancelled: 'Cancel',
+  completed: 'Complete',
+};
+
+// Appointments created through the form are submitted for approval straight away
+export const INITIAL_STATE: AppointmentState = 'submitted';
+
+// For each state, the states it can move to and the roles allowed to make the move
+const TRANSITIONS: Record<AppointmentState, Partial<Record<AppointmentState, Role[]>>> = {
+  draft: {
+    submitted: ['collector', 'admin'],
+    cancelled: ['collector', 'admin'],
+  },
+  submitted: {
+    approved: ['approver', 'admin'],
+    rejected: ['approver', 'admin'],
+    needs_info: ['approver', 'admin'],
+    cancelled: ['collector', 'admin'],
+  },
+  needs_info: {
+    submitted: ['collector', 'admin'],
+    cancelled: ['collector', 'admin'],
+  },
+  approved: {
+    booked: ['approver', 'admin'],
+    cancelled: ['approver', 'admin'],
+  },
+  rejected: {},
+  booked: {
+    attended: ['approver', 'admin'],
+    no_show: ['approver', 'admin'],
+    cancelled: ['approver', 'admin'],
+  },
+  attended: {
+    completed: ['approver', 'admin'],
+  },
+  no_show: {
+    booked: ['approver', 'admin'],
+    cancelled: ['approver', 'admin'],
+  },
+  cancelled: {},
+  completed: {},
+};
+
+// Appointments in these states take up their slot's capacity. Cancelling a
+// booked appointment gives its slot back.
+export const SLOT_HOLDING_STATES: readonly AppointmentState[] = ['booked', 'attended', 'no_show', 'completed'];
+
+// Appointments in these states are waiting on an approver to review or book them,
+// and make up the approvers' work queues
+export const QUEUE_STATES: readonly AppointmentState[] = ['submitted', 'approved'];
+
+// States an appointment can still move on from; only these can have an SLA
+export const SLA_STATES: readonly AppointmentState[] = APPOINTMENT_STATES.filter(
+  (state) => Object.keys(TRANSITIONS[state]).length > 0,
+);
+
+export function isOpen(status: string): boolean {
+  return (SLA_STATES as readonly string[]).includes(status);
+}
+
+// Roles allowed to move an appointment in each state to another slot. Cancelling
+// follows the transitions table above.
+const RESCHEDULE: Partial<Record<AppointmentState, Role[]>> = {
+  booked: ['approver', 'admin'],
+};
+
+// Moves into these states must pick a reason code from the admin-maintained catalogue
+export const REASON_CODE_STATES = ['needs_info', 'rejected'] as const;
+
+export type ReasonCodeState = typeof REASON_CODE_STATES[number];
+
+// Moves into these states must say why in free text
+export const REASON_REQUIRED: readonly AppointmentState[] = ['cancelled', 'no_show'];
+
+export function requiresReasonCode(state: AppointmentState): state is ReasonCodeState {
+  return (REASON_CODE_STATES as readonly string[]).includes(state);
+}
+
+export function isAppointmentState(value: string): value is AppointmentState {
+  return (APPOINTMENT_STATES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: AppointmentState, role: string): boolean {
+  if (!isAppointmentState(from)) return false;
+  return TRANSITIONS[from][to]?.includes(role as Role) ?? false;
+}
+
+export function isQueued(status: string): boolean {
+  return isAppointmentState(status) && QUEUE_STATES.includes(status);
+}
+
+export function canReschedule(from: string, role: string): boolean {
+  if (!isAppointmentState(from)) return false;
+  return RESCHEDULE[from]?.includes(role as Role) ?? false;
+}
+
+// States the given role can move an appointment to from its current state
+export function allowedTransitions(from: string, role: string): AppointmentState[] {
+  if (!isAppointmentState(from)) return [];
+  return APPOINTMENT_STATES.filter((to) => canTransition(from, to, role));
+}
+
+// Admins can edit any client at any time. Collectors can edit a client they collected an
+// appointment for, until any of the client's appointments has been approved.
+export function canEditClient(
+  user: { role: string },
+  facts: { collectedByUser: boolean; approved: boolean },
+): boolean {
+  if (user.role === "admin") return true;
+  if (user.role !== "collector") return false;
+  return facts.collectedByUser && !facts.approved;
+}